@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Workspace packages ship TypeScript sources
+  transpilePackages: ["@oraclelens/scoring", "@oraclelens/zk"],
 };
 
 export default nextConfig;
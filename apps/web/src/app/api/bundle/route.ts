@@ -0,0 +1,55 @@
+/**
+ * Proof Bundle Export API
+ *
+ * Packs a stored evaluation (request, response, base scores, formula and raw
+ * attestation) into a portable, manifest-hashed bundle file. The bundle is
+ * built from what the server recorded, never from client-supplied results.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportStoredBundle } from '@/lib/proofStore';
+
+/**
+ * POST /api/bundle
+ * Body: { requestId: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as { requestId?: string };
+
+    if (!body.requestId || typeof body.requestId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: requestId' },
+        { status: 400 }
+      );
+    }
+
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json(
+        { error: 'Proof bundles need stored evaluations - Supabase is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const bundle = await exportStoredBundle(body.requestId);
+
+    if (!bundle) {
+      return NextResponse.json(
+        { error: 'No evaluation found for this request ID' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(bundle, {
+      headers: {
+        'Content-Disposition': `attachment; filename="oraclelens-bundle-${body.requestId}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Bundle export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
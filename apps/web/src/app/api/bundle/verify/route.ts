@@ -0,0 +1,60 @@
+/**
+ * Proof Bundle Verification API
+ *
+ * Re-checks an uploaded bundle: manifest hash, deterministic re-scoring,
+ * proof hash and attestor signatures, and - when evaluations are stored -
+ * that it matches the result recorded for its request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { TrustLevel } from '@oraclelens/scoring';
+import { verifyBundle, type BundleVerificationOptions, type ProofBundle } from '@oraclelens/zk';
+import { getTrustedAttestors } from '@/lib/zkTlsVerify';
+import { getProofBundle } from '@/lib/proofStore';
+
+/**
+ * POST /api/bundle/verify
+ * Body: ProofBundle
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const bundle = await request.json() as ProofBundle;
+
+    if (!bundle?.version || !bundle.response || !bundle.formula || !bundle.baseScores) {
+      return NextResponse.json(
+        { error: 'Not an OracleLens proof bundle' },
+        { status: 400 }
+      );
+    }
+
+    // A self-consistent bundle proves nothing on its own - compare with the stored result
+    let recorded: BundleVerificationOptions['recorded'];
+    if (process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      try {
+        const stored = await getProofBundle(String(bundle.response.requestId));
+        recorded = stored
+          ? { score: stored.evaluation.score, trustLevel: stored.evaluation.trustLevel as TrustLevel, proofHash: stored.evaluation.proofHash }
+          : null;
+      } catch (storeError) {
+        console.error('Bundle verification lookup error:', storeError);
+        return NextResponse.json(
+          { error: 'Internal server error' },
+          { status: 500 }
+        );
+      }
+    }
+
+    const result = verifyBundle(bundle, { trustedAttestors: getTrustedAttestors(), recorded });
+
+    return NextResponse.json({
+      requestId: bundle.response.requestId,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Bundle verification error:', error);
+    return NextResponse.json(
+      { error: 'Invalid bundle file' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Disputes API
+ *
+ * Raise disputes against stored evaluations and resolve them. Confirmed
+ * disputes lower the oracle's Bayesian reputation. Resolving requires
+ * `Authorization: Bearer $REPUTATION_ADMIN_TOKEN` (disabled without it).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDisputes, openDispute, resolveDispute } from '@/lib/disputes';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/disputes?oracle=<name>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const oracle = request.nextUrl.searchParams.get('oracle') ?? undefined;
+    const disputes = await listDisputes(oracle);
+    return NextResponse.json({ disputes });
+  } catch (error) {
+    console.error('Disputes API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/disputes
+ * Body: { requestId, reason }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as { requestId?: unknown; reason?: unknown };
+
+    if (typeof body.requestId !== 'string' || typeof body.reason !== 'string' || !body.reason.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: requestId, reason' },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await openDispute(body.requestId, body.reason.trim());
+
+    if (!dispute) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No evaluation found for this request ID',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(dispute, { status: 201 });
+  } catch (error) {
+    console.error('Disputes API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/disputes
+ * Body: { id, status: 'confirmed' | 'rejected' }
+ */
+export async function PATCH(request: NextRequest) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'REPUTATION_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json() as { id?: unknown; status?: unknown };
+
+    if (typeof body.id !== 'string' || (body.status !== 'confirmed' && body.status !== 'rejected')) {
+      return NextResponse.json(
+        { error: 'Required fields: id, status ("confirmed" or "rejected")' },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await resolveDispute(body.id, body.status);
+
+    if (!dispute) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No open dispute with this ID',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(dispute);
+  } catch (error) {
+    console.error('Disputes API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
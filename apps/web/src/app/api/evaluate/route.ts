@@ -3,6 +3,10 @@ import { evaluateOracleData } from '@/lib/evaluate';
 import { EvaluateRequest } from '@/lib/types';
 import { supabaseAdmin } from '@/lib/supabase';
 import { submitResultOnChain } from '@/lib/contract';
+import { storeZkProof } from '@/lib/proofStore';
+import { getFreshnessProfile } from '@oraclelens/scoring';
+import { recordFeedSighting } from '@/lib/liveness';
+import { getFormulaRegistry } from '@/lib/formulas';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,6 +20,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A requested formula must be registered and not deprecated
+    if (body.formulaId !== undefined) {
+      const registry = await getFormulaRegistry();
+      if (typeof body.formulaId !== 'string' || !registry.get(body.formulaId)) {
+        return NextResponse.json(
+          { error: `Unknown or deprecated formula: ${String(body.formulaId)}` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Evaluate the oracle data
     const result = await evaluateOracleData(body);
 
@@ -33,6 +48,8 @@ export async function POST(request: NextRequest) {
         breakdown: result.breakdown,
         formula_id: result.formulaId,
         formula_name: result.formulaName,
+        formula_version: result.formulaVersion ?? null,
+        formula_hash: result.formulaHash ?? null,
         explanation: result.explanation,
         ai_reasoning: result.aiReasoning,
         zk_verified: result.zkVerified,
@@ -43,6 +60,25 @@ export async function POST(request: NextRequest) {
       console.error('Failed to persist evaluation:', dbError);
     }
 
+    // Store the full attestation alongside the evaluation
+    if (result.zkProof) {
+      try {
+        await storeZkProof(result.zkProof);
+      } catch (proofError) {
+        console.error('Failed to persist zk proof:', proofError);
+      }
+    }
+
+    // Count a proof-backed sighting towards the feed's uptime
+    if (result.livenessSample) {
+      try {
+        const { heartbeatSeconds } = { ...getFreshnessProfile(body.oracleName, body.dataType), ...result.formula?.freshness };
+        await recordFeedSighting(result.livenessSample, heartbeatSeconds);
+      } catch (livenessError) {
+        console.error('Failed to record liveness:', livenessError);
+      }
+    }
+
     // Submit result on-chain (non-blocking, skips if not configured)
     let onChainResult;
     try {
@@ -78,7 +114,11 @@ export async function GET() {
       oracleName: 'Chainlink',
       dataType: 'price_feed',
       dataValue: { asset: 'ETH/USD', price: 2500, timestamp: Date.now() },
-      referenceValues: [2498, 2502, 2501],
+      referenceValues: [
+        { source: 'Pyth', value: 2498, timestamp: Date.now() - 20000 },
+        { source: 'API3', value: 2502, timestamp: Date.now() - 45000, weight: 0.5 },
+        2501,
+      ],
     },
   });
 }
@@ -0,0 +1,127 @@
+/**
+ * Formula Registry API - single formula
+ *
+ * Returns every version of one formula, or deprecates it (all versions, or
+ * one with ?version=). Deprecated versions stay listed for audits but are
+ * no longer used; built-in formulas cannot be deprecated. Deprecation
+ * requires `Authorization: Bearer $FORMULA_ADMIN_TOKEN` (disabled without it).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BUILTIN_FORMULA_PROVENANCE } from '@oraclelens/scoring';
+import { deprecateFormula, getFormulaRegistry } from '@/lib/formulas';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/formulas/[formulaId]
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ formulaId: string }> }
+) {
+  const { formulaId } = await context.params;
+
+  try {
+    const registry = await getFormulaRegistry();
+    const versions = registry.listVersions(formulaId);
+
+    if (versions.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No formula registered with this ID',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      formulaId,
+      current: registry.getVersion(formulaId) ?? null,
+      versions,
+    });
+  } catch (error) {
+    console.error('Formula API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/formulas/[formulaId]?version=<n>
+ * Body: { reason }
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ formulaId: string }> }
+) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'FORMULA_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { formulaId } = await context.params;
+  const versionParam = request.nextUrl.searchParams.get('version');
+  const version = versionParam ? Number(versionParam) : undefined;
+
+  if (version !== undefined && !Number.isInteger(version)) {
+    return NextResponse.json(
+      { error: 'Invalid "version"' },
+      { status: 400 }
+    );
+  }
+
+  let body: { reason?: unknown };
+  try {
+    body = await request.json() as { reason?: unknown };
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body.reason !== 'string' || !body.reason.trim()) {
+    return NextResponse.json(
+      { error: 'Missing required field: reason' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const registry = await getFormulaRegistry();
+    const targets = registry.listVersions(formulaId)
+      .filter(entry => version === undefined || entry.version === version);
+
+    if (targets.some(entry => entry.provenance === BUILTIN_FORMULA_PROVENANCE)) {
+      return NextResponse.json(
+        { error: 'Built-in formulas cannot be deprecated' },
+        { status: 400 }
+      );
+    }
+
+    const deprecated = await deprecateFormula(formulaId, body.reason.trim(), version);
+
+    if (deprecated.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No active formula version to deprecate',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, formulaId, deprecated });
+  } catch (error) {
+    console.error('Formula API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Formula Registry API
+ *
+ * Lists the current version of each formula and registers new formulas or
+ * versions. A formula with `extends` only lists what differs from the
+ * current version of its parent (e.g. a team's stricter price feed).
+ * Formulas may declare their own trust bands; the lowest trusted band
+ * must start at minAcceptableScore.
+ * Writes require `Authorization: Bearer $FORMULA_ADMIN_TOKEN` and are
+ * disabled without that variable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BUILTIN_FORMULA_PROVENANCE,
+  resolveFormula,
+  validateFormula,
+  validateTrustBands,
+  type Formula,
+  type FormulaOverride,
+} from '@oraclelens/scoring';
+import { getFormulaRegistry, registerFormula } from '@/lib/formulas';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/formulas?includeDeprecated=true
+ */
+export async function GET(request: NextRequest) {
+  const includeDeprecated = request.nextUrl.searchParams.get('includeDeprecated') === 'true';
+
+  try {
+    const registry = await getFormulaRegistry();
+    return NextResponse.json({ formulas: registry.list(includeDeprecated) });
+  } catch (error) {
+    console.error('Formula API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/formulas
+ * Body: { formula: { id, name, description, weights, applicableDataTypes, minAcceptableScore, expression?, tolerancePercent?, freshness?, trustBands? }, provenance }
+ *    or: { formula: { id, extends, ...overrides, weightAdjustments? }, provenance }
+ */
+export async function POST(request: NextRequest) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'FORMULA_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  let body: { formula?: Partial<Formula> & Partial<FormulaOverride>; provenance?: unknown };
+  try {
+    body = await request.json() as { formula?: Partial<Formula> & Partial<FormulaOverride>; provenance?: unknown };
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.formula || typeof body.formula !== 'object' || typeof body.provenance !== 'string' || !body.provenance.trim()) {
+    return NextResponse.json(
+      { error: 'Missing required fields: formula, provenance' },
+      { status: 400 }
+    );
+  }
+  if (body.provenance.trim() === BUILTIN_FORMULA_PROVENANCE) {
+    return NextResponse.json(
+      { error: `Provenance "${BUILTIN_FORMULA_PROVENANCE}" is reserved for built-in formulas` },
+      { status: 400 }
+    );
+  }
+
+  let formula: Formula;
+  if (body.formula.extends !== undefined) {
+    let parent: Formula | undefined;
+    try {
+      const registry = await getFormulaRegistry();
+      parent = typeof body.formula.extends === 'string' ? registry.get(body.formula.extends) : undefined;
+    } catch (error) {
+      console.error('Formula API error:', error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+    if (!parent) {
+      return NextResponse.json(
+        { error: `Unknown or deprecated parent formula: ${String(body.formula.extends)}` },
+        { status: 400 }
+      );
+    }
+    try {
+      formula = resolveFormula({ ...body.formula, id: body.formula.id as string, extends: parent.id }, parent);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid formula' },
+        { status: 400 }
+      );
+    }
+  } else {
+    if (body.formula.trustBands) {
+      const invalidBands = validateTrustBands(body.formula.trustBands, body.formula.minAcceptableScore);
+      if (invalidBands) {
+        return NextResponse.json(
+          { error: invalidBands },
+          { status: 400 }
+        );
+      }
+    }
+    formula = {
+      id: body.formula.id as string,
+      name: body.formula.name as string,
+      description: typeof body.formula.description === 'string' ? body.formula.description : '',
+      weights: body.formula.weights as Formula['weights'],
+      applicableDataTypes: body.formula.applicableDataTypes ?? [],
+      minAcceptableScore: body.formula.minAcceptableScore as number,
+      ...(typeof body.formula.expression === 'string' ? { expression: body.formula.expression } : {}),
+      ...(body.formula.tolerancePercent !== undefined ? { tolerancePercent: body.formula.tolerancePercent } : {}),
+      ...(body.formula.freshness !== undefined ? { freshness: body.formula.freshness } : {}),
+      ...(body.formula.trustBands ? { trustBands: body.formula.trustBands } : {}),
+    };
+  }
+  const invalid = typeof formula.weights === 'object' && formula.weights !== null
+    ? validateFormula(formula)
+    : 'Missing required field: formula.weights';
+  if (invalid) {
+    return NextResponse.json(
+      { error: invalid },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entry = await registerFormula(formula, body.provenance);
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error('Formula API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Liveness API
+ *
+ * Pollers report each time they see a feed live, and anyone can read a
+ * feed's rolling uptime. Evaluations backed by a proof bound to their data
+ * are recorded automatically. Reports require
+ * `Authorization: Bearer $LIVENESS_ADMIN_TOKEN` (disabled without it), and
+ * count at most twice per heartbeat of the feed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedId, getFreshnessProfile } from '@oraclelens/scoring';
+import { getFeedUptime, recordFeedSighting } from '@/lib/liveness';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/liveness?oracle=<name>&dataType=<type>
+ */
+export async function GET(request: NextRequest) {
+  const oracle = request.nextUrl.searchParams.get('oracle');
+  const dataType = request.nextUrl.searchParams.get('dataType');
+
+  if (!oracle || !dataType) {
+    return NextResponse.json(
+      { error: 'Missing required query parameters: oracle, dataType' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feedId = getFeedId(oracle, dataType);
+    const uptime = await getFeedUptime(feedId);
+    return NextResponse.json({ feedId, uptime });
+  } catch (error) {
+    console.error('Liveness API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/liveness
+ * Body: { oracleName, dataType, observedAt? (unix ms, default now) }
+ */
+export async function POST(request: NextRequest) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'LIVENESS_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json() as { oracleName?: unknown; dataType?: unknown; observedAt?: unknown };
+
+    if (typeof body.oracleName !== 'string' || typeof body.dataType !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: oracleName, dataType' },
+        { status: 400 }
+      );
+    }
+
+    const now = Date.now();
+    if (body.observedAt !== undefined && (typeof body.observedAt !== 'number' || !Number.isFinite(body.observedAt) || body.observedAt > now)) {
+      return NextResponse.json(
+        { error: 'observedAt must be a past unix timestamp in milliseconds' },
+        { status: 400 }
+      );
+    }
+
+    const sample = {
+      feedId: getFeedId(body.oracleName, body.dataType),
+      observedAt: (body.observedAt as number | undefined) ?? now,
+      source: 'poll' as const,
+    };
+    const { heartbeatSeconds } = getFreshnessProfile(body.oracleName, body.dataType);
+    const recorded = await recordFeedSighting(sample, heartbeatSeconds);
+
+    return NextResponse.json({ ...sample, recorded }, { status: recorded ? 201 : 200 });
+  } catch (error) {
+    console.error('Liveness API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -15,6 +15,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase';
+import type { ReferenceValue } from '@/lib/types';
 
 // In-memory store for pending verifications (production would use Redis)
 const pendingVerifications = new Map<string, {
@@ -22,7 +23,7 @@ const pendingVerifications = new Map<string, {
   dataType: string;
   dataValue: Record<string, unknown>;
   sourceUrl?: string;
-  referenceValues?: number[];
+  referenceValues?: ReferenceValue[];
   createdAt: number;
 }>();
 
@@ -47,7 +48,7 @@ export function storePendingVerification(
     dataType: string;
     dataValue: Record<string, unknown>;
     sourceUrl?: string;
-    referenceValues?: number[];
+    referenceValues?: ReferenceValue[];
   }
 ) {
   cleanupOldEntries();
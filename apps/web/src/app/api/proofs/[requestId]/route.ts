@@ -0,0 +1,45 @@
+/**
+ * Proof Bundle API
+ *
+ * Returns a stored evaluation together with the full zkTLS attestation behind it,
+ * so a third party can re-verify the signatures, proof hash and scored data.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProofBundle } from '@/lib/proofStore';
+
+/**
+ * GET /api/proofs/[requestId]
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ requestId: string }> }
+) {
+  const { requestId } = await context.params;
+
+  try {
+    const bundle = await getProofBundle(requestId);
+
+    if (!bundle) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No evaluation found for this request ID',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(bundle, {
+      headers: {
+        'X-OracleLens-RequestId': requestId,
+      },
+    });
+  } catch (error) {
+    console.error('Proof bundle API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Oracle Reputation API - single oracle
+ *
+ * Returns the version history of one oracle with its evidence-based
+ * (Bayesian) reputation, or deletes its stored versions (the seed value,
+ * if any, applies again).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteReputation, getReputationPosterior, getReputationRegistry } from '@/lib/reputation';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/reputation/[oracleId]
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ oracleId: string }> }
+) {
+  const { oracleId } = await context.params;
+
+  try {
+    const registry = await getReputationRegistry();
+    const history = registry.history(oracleId);
+
+    if (history.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No reputation recorded for this oracle',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      oracleId: history[0].oracleId,
+      current: registry.lookup(oracleId) ?? null,
+      posterior: await getReputationPosterior(oracleId) ?? null,
+      history,
+    });
+  } catch (error) {
+    console.error('Reputation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reputation/[oracleId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ oracleId: string }> }
+) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'REPUTATION_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { oracleId } = await context.params;
+
+  try {
+    const deleted = await deleteReputation(oracleId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          error: 'Not found',
+          message: 'No stored reputation for this oracle',
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, oracleId });
+  } catch (error) {
+    console.error('Reputation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
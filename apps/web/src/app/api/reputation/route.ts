@@ -0,0 +1,112 @@
+/**
+ * Oracle Reputation API
+ *
+ * Lists the reputation in effect for each oracle and records new versions.
+ * Writes require `Authorization: Bearer $REPUTATION_ADMIN_TOKEN` and are
+ * disabled without that variable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateReputationInput, type ReputationInput } from '@oraclelens/scoring';
+import { getReputationRegistry, recordReputation } from '@/lib/reputation';
+import { hasAdminToken } from '@/lib/adminToken';
+
+/**
+ * GET /api/reputation?at=<unix ms>
+ */
+export async function GET(request: NextRequest) {
+  const atParam = request.nextUrl.searchParams.get('at');
+  const at = atParam ? Number(atParam) : Date.now();
+
+  if (!Number.isFinite(at)) {
+    return NextResponse.json(
+      { error: 'Invalid "at" timestamp' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const registry = await getReputationRegistry();
+    return NextResponse.json({ at, oracles: registry.list(at) });
+  } catch (error) {
+    console.error('Reputation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reputation
+ * Body: { name, reputation, provenance, effectiveFrom?, aliases? }
+ */
+export async function POST(request: NextRequest) {
+  if (!hasAdminToken(request.headers.get('authorization'), 'REPUTATION_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  let body: Partial<ReputationInput>;
+  try {
+    body = await request.json() as Partial<ReputationInput>;
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body.name !== 'string' || typeof body.reputation !== 'number' || typeof body.provenance !== 'string') {
+    return NextResponse.json(
+      { error: 'Missing required fields: name, reputation, provenance' },
+      { status: 400 }
+    );
+  }
+  if (body.provenance.trim() === 'seed') {
+    return NextResponse.json(
+      { error: 'Provenance "seed" is reserved for built-in values' },
+      { status: 400 }
+    );
+  }
+  if (body.effectiveFrom !== undefined && !Number.isFinite(body.effectiveFrom)) {
+    return NextResponse.json(
+      { error: 'effectiveFrom must be a unix timestamp in milliseconds' },
+      { status: 400 }
+    );
+  }
+  if (body.aliases !== undefined && (!Array.isArray(body.aliases) || body.aliases.some(alias => typeof alias !== 'string'))) {
+    return NextResponse.json(
+      { error: 'aliases must be an array of strings' },
+      { status: 400 }
+    );
+  }
+
+  const input: ReputationInput = {
+    name: body.name,
+    reputation: body.reputation,
+    provenance: body.provenance,
+    effectiveFrom: body.effectiveFrom,
+    aliases: body.aliases,
+  };
+  const invalid = validateReputationInput(input);
+  if (invalid) {
+    return NextResponse.json(
+      { error: invalid },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entry = await recordReputation(input);
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error('Reputation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -25,6 +25,78 @@ export async function POST() {
           proof_hash TEXT NOT NULL,
           created_at TIMESTAMPTZ DEFAULT NOW()
         );
+
+        CREATE TABLE IF NOT EXISTS proof_ledger (
+          proof_hash TEXT PRIMARY KEY,
+          request_id TEXT NOT NULL,
+          recipient TEXT,
+          attestation_timestamp BIGINT,
+          data_hash TEXT NOT NULL,
+          recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS zk_proofs (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          request_id TEXT NOT NULL UNIQUE REFERENCES evaluations(request_id) ON DELETE CASCADE,
+          proof_hash TEXT NOT NULL,
+          zk_mode TEXT NOT NULL,
+          proof_data JSONB NOT NULL,
+          attestors JSONB NOT NULL DEFAULT '[]'::jsonb,
+          verified BOOLEAN NOT NULL DEFAULT FALSE,
+          verification_timestamp TIMESTAMPTZ,
+          verified_domain TEXT,
+          verified_endpoint TEXT,
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS oracle_reputation (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          oracle_id TEXT NOT NULL,
+          display_name TEXT NOT NULL,
+          reputation NUMERIC NOT NULL CHECK (reputation >= 0 AND reputation <= 1),
+          provenance TEXT NOT NULL,
+          effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          aliases JSONB NOT NULL DEFAULT '[]'::jsonb
+        );
+
+        CREATE TABLE IF NOT EXISTS oracle_disputes (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          request_id TEXT NOT NULL REFERENCES evaluations(request_id) ON DELETE CASCADE,
+          oracle_name TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'rejected')),
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          resolved_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS oracle_liveness (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          feed_id TEXT NOT NULL,
+          observed_at TIMESTAMPTZ NOT NULL,
+          source TEXT NOT NULL CHECK (source IN ('evaluation', 'poll')),
+          created_at TIMESTAMPTZ DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS formulas (
+          id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+          formula_id TEXT NOT NULL,
+          version INTEGER NOT NULL CHECK (version > 0),
+          content_hash TEXT NOT NULL,
+          definition JSONB NOT NULL,
+          provenance TEXT NOT NULL,
+          registered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          deprecated_at TIMESTAMPTZ,
+          deprecation_reason TEXT,
+          UNIQUE (formula_id, version)
+        );
+
+        ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS formula_version INTEGER;
+        ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS formula_hash TEXT;
+
+        ALTER TABLE evaluations DROP CONSTRAINT IF EXISTS evaluations_trust_level_check;
+        ALTER TABLE evaluations ADD CONSTRAINT evaluations_trust_level_check
+          CHECK (trust_level IN ('high', 'medium', 'low', 'untrusted', 'critical'));
       `
     });
 
@@ -35,13 +107,13 @@ export async function POST() {
         instructions: [
           '1. Go to your Supabase dashboard: https://supabase.com/dashboard',
           '2. Open the SQL Editor',
-          '3. Run the SQL from: supabase/migrations/001_create_evaluations.sql',
+          '3. Run the SQL files in supabase/migrations/ in order',
         ],
         sqlError: error.message,
       }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true, message: 'Table created successfully' });
+    return NextResponse.json({ success: true, message: 'Tables created successfully' });
   } catch (err) {
     return NextResponse.json({
       error: 'Setup failed',
@@ -1,10 +1,11 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useLanguage } from '@/lib/LanguageContext';
 import { EvaluateResponse, EvaluateRequest } from '@/lib/types';
+import type { BundleVerificationResult } from '@oraclelens/zk';
 
 function getTrustStyles(level: string): { bg: string; border: string; badge: string; text: string } {
   switch (level) {
@@ -36,6 +37,13 @@ function getTrustStyles(level: string): { bg: string; border: string; badge: str
         badge: 'trust-untrusted',
         text: 'text-red-600',
       };
+    case 'critical':
+      return {
+        bg: 'bg-red-100',
+        border: 'border-red-400',
+        badge: 'trust-critical',
+        text: 'text-red-800',
+      };
     default:
       return {
         bg: 'bg-gray-50',
@@ -46,7 +54,7 @@ function getTrustStyles(level: string): { bg: string; border: string; badge: str
   }
 }
 
-function ScoreBar({ label, raw, weighted, colorClass }: { label: string; raw: number; weighted: number; colorClass: string }) {
+function ScoreBar({ label, raw, weighted, note, colorClass }: { label: string; raw: number; weighted: number; note?: string; colorClass: string }) {
   const percentage = Math.round(raw * 100);
   return (
     <div className="mb-4">
@@ -62,6 +70,7 @@ function ScoreBar({ label, raw, weighted, colorClass }: { label: string; raw: nu
           style={{ width: `${percentage}%` }}
         />
       </div>
+      {note && <p className="text-xs text-gray-500 mt-1">{note}</p>}
     </div>
   );
 }
@@ -109,6 +118,9 @@ export default function ResultPage() {
   const { t } = useLanguage();
   const [result, setResult] = useState<EvaluateResponse | null>(null);
   const [request, setRequest] = useState<EvaluateRequest | null>(null);
+  const [bundleCheck, setBundleCheck] = useState<(BundleVerificationResult & { requestId: string }) | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const bundleInput = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const storedResult = sessionStorage.getItem('evaluationResult');
@@ -136,6 +148,53 @@ export default function ResultPage() {
     );
   }
 
+  const downloadBundle = async () => {
+    setBundleError(null);
+    try {
+      const response = await fetch('/api/bundle', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requestId: result.requestId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setBundleError(data.error || t.result.bundleError);
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `oraclelens-bundle-${result.requestId}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setBundleError(t.result.bundleError);
+    }
+  };
+
+  const verifyBundleFile = async (file: File) => {
+    setBundleError(null);
+    setBundleCheck(null);
+    try {
+      const response = await fetch('/api/bundle/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setBundleError(data.error || t.result.bundleError);
+        return;
+      }
+      setBundleCheck(data);
+    } catch {
+      setBundleError(t.result.bundleError);
+    } finally {
+      if (bundleInput.current) bundleInput.current.value = '';
+    }
+  };
+
   const trustStyles = getTrustStyles(result.trustLevel);
   const trustLabel = t.result.trust[result.trustLevel as keyof typeof t.result.trust];
 
@@ -258,6 +317,12 @@ export default function ResultPage() {
                   {result.proofHash}
                 </code>
               </div>
+              {result.zkReason && (
+                <div className="p-3 rounded-lg bg-red-50 border border-red-200">
+                  <span className="text-gray-600 text-sm">{t.result.zkReason}:</span>
+                  <p className="text-sm text-red-600 mt-1">{result.zkReason}</p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -344,24 +409,28 @@ export default function ResultPage() {
               label={t.result.breakdownLabels.source}
               raw={result.breakdown.source.raw}
               weighted={result.breakdown.source.weighted}
+              note={result.breakdown.source.note}
               colorClass="progress-fill-source"
             />
             <ScoreBar
               label={t.result.breakdownLabels.time}
               raw={result.breakdown.time.raw}
               weighted={result.breakdown.time.weighted}
+              note={result.breakdown.time.note}
               colorClass="progress-fill-time"
             />
             <ScoreBar
               label={t.result.breakdownLabels.accuracy}
               raw={result.breakdown.accuracy.raw}
               weighted={result.breakdown.accuracy.weighted}
+              note={result.breakdown.accuracy.note}
               colorClass="progress-fill-accuracy"
             />
             <ScoreBar
               label={t.result.breakdownLabels.proof}
               raw={result.breakdown.proof.raw}
               weighted={result.breakdown.proof.weighted}
+              note={result.breakdown.proof.note}
               colorClass="progress-fill-proof"
             />
           </div>
@@ -382,6 +451,70 @@ export default function ResultPage() {
               </p>
             </div>
           </div>
+
+          {/* Counterfactuals */}
+          {result.counterfactual && (
+            <div className="card p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-amber-400 to-orange-500 flex items-center justify-center">
+                  <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+                  </svg>
+                </div>
+                {t.result.counterfactualTitle}
+              </h2>
+
+              {!result.counterfactual.target ? (
+                <p className="text-sm text-gray-600">{t.result.counterfactualTopBand}</p>
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    {t.result.counterfactualTarget}{' '}
+                    <span className="font-semibold text-gray-900">
+                      {t.result.trust[result.counterfactual.target.level]} ({result.counterfactual.target.minScore}+)
+                    </span>
+                  </p>
+
+                  {result.counterfactual.changes.length === 0 && (
+                    <p className="text-sm text-gray-500">{t.result.counterfactualNone}</p>
+                  )}
+
+                  {result.counterfactual.changes.map((change) => (
+                    <div key={change.factor} className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-gray-700">{t.result.breakdownLabels[change.factor]}</span>
+                        <span className="text-sm font-mono text-gray-900">
+                          {Math.round(change.from * 100)}% → {Math.round(change.to * 100)}%
+                        </span>
+                      </div>
+                      {change.maxAgeSeconds !== undefined && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {t.result.counterfactualMaxAge} {change.maxAgeSeconds}s
+                        </p>
+                      )}
+                      {change.proofOutcome !== undefined ? (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {t.result.counterfactualProof[change.proofOutcome]} {t.result.counterfactualWouldRaise}{' '}
+                          {change.finalScore} ({t.result.trust[change.trustLevel]})
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-1">
+                          → {change.finalScore} ({t.result.trust[change.trustLevel]})
+                        </p>
+                      )}
+                    </div>
+                  ))}
+
+                  {result.counterfactual.unreachable.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {t.result.counterfactualUnreachable}:{' '}
+                      {result.counterfactual.unreachable.map((factor) => t.result.breakdownLabels[factor]).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -402,6 +535,63 @@ export default function ResultPage() {
         </div>
       </div>
 
+      {/* Proof Bundle */}
+      <div className="card p-6 mt-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">{t.result.bundleTitle}</h2>
+        <p className="text-sm text-gray-600 mb-4">{t.result.bundleDescription}</p>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={downloadBundle}
+            disabled={!result.formula || !result.baseScores}
+            className="flex-1 btn-secondary text-center py-3 rounded-xl font-semibold disabled:opacity-50"
+          >
+            {t.result.downloadBundle}
+          </button>
+          <button
+            onClick={() => bundleInput.current?.click()}
+            className="flex-1 btn-secondary text-center py-3 rounded-xl font-semibold"
+          >
+            {t.result.verifyBundle}
+          </button>
+          <input
+            ref={bundleInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) verifyBundleFile(file);
+            }}
+          />
+        </div>
+
+        {bundleError && (
+          <div className="mt-4 p-3 rounded-lg bg-red-50 border border-red-200">
+            <p className="text-sm text-red-600">{bundleError}</p>
+          </div>
+        )}
+
+        {bundleCheck && (
+          <div className={`mt-4 p-4 rounded-lg ${bundleCheck.valid ? 'success-box' : 'error-box'}`}>
+            <div className={`font-semibold mb-2 ${bundleCheck.valid ? 'text-emerald-700' : 'text-red-700'}`}>
+              {bundleCheck.valid ? t.result.bundleValid : t.result.bundleInvalid}
+              <span className="ml-2 font-mono text-xs text-gray-600">{bundleCheck.requestId}</span>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {bundleCheck.checks.map(check => (
+                <li key={check.name} className="flex gap-2">
+                  <span className={check.skipped ? 'text-gray-400' : check.passed ? 'text-emerald-600' : 'text-red-600'}>
+                    {check.skipped ? '–' : check.passed ? '✓' : '✗'}
+                  </span>
+                  <span className="font-mono text-gray-800">{check.name}</span>
+                  {check.detail && <span className="text-gray-500">{check.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
       {/* Actions */}
       <div className="flex flex-col sm:flex-row gap-4 mt-8">
         <Link
@@ -0,0 +1,25 @@
+/**
+ * OracleLens Admin Tokens
+ *
+ * Write endpoints are guarded by a bearer token held in an environment
+ * variable (REPUTATION_ADMIN_TOKEN, FORMULA_ADMIN_TOKEN, ...). Without the
+ * variable the endpoint is closed to everyone.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+export type AdminTokenVariable = 'REPUTATION_ADMIN_TOKEN' | 'FORMULA_ADMIN_TOKEN' | 'LIVENESS_ADMIN_TOKEN';
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Whether the Authorization header carries `Bearer $<variable>`. Compared
+ * in constant time (over fixed-length digests, so the length does not leak).
+ */
+export function hasAdminToken(authorization: string | null, variable: AdminTokenVariable): boolean {
+  const token = process.env[variable];
+  if (!token || authorization === null) return false;
+  return timingSafeEqual(digest(authorization), digest(`Bearer ${token}`));
+}
@@ -10,6 +10,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { FORMULAS, defaultFormulaRegistry, defaultReputationRegistry } from '@oraclelens/scoring';
 
 // ============================================
 // Types
@@ -33,6 +34,8 @@ interface AIAnalysisInput {
     proof: number;
   };
   zkVerified: boolean;
+  formulaId: string;
+  formulaName: string;
   finalScore: number;
   trustLevel: string;
 }
@@ -67,9 +70,7 @@ function getAnthropicClient(): Anthropic | null {
 const FORMULA_PROMPT = `You are an oracle data credibility evaluation expert for OracleLens. Your task is to select the most appropriate scoring formula for evaluating oracle data credibility.
 
 Available formulas:
-1. price_feed_v1 (Price Feed Formula): Optimized for financial price data. Weights: source=0.25, time=0.30, accuracy=0.30, proof=0.15. Min acceptable score: 70.
-2. weather_v1 (Weather Data Formula): For weather/environmental data. Weights: source=0.35, time=0.25, accuracy=0.20, proof=0.20. Min acceptable score: 60.
-3. generic_v1 (Generic Formula): Balanced formula for other data types. Weights: source=0.25, time=0.25, accuracy=0.25, proof=0.25. Min acceptable score: 65.
+{formulaList}
 
 Given the oracle data below, select the best formula and explain your reasoning in 2-3 sentences.
 
@@ -81,6 +82,20 @@ Source URL: {sourceUrl}
 Respond in this exact JSON format (no markdown, no code blocks):
 {"formulaId": "...", "formulaName": "...", "reasoning": "..."}`;
 
+/**
+ * Describe the current formulas of the shared registry for the prompt.
+ */
+function describeFormulas(): string {
+  return defaultFormulaRegistry.list()
+    .map(({ formula }, i) => {
+      const { source, time, accuracy, proof } = formula.weights;
+      return `${i + 1}. ${formula.id} (${formula.name}): ${formula.description}. ` +
+        `Weights: source=${source}, time=${time}, accuracy=${accuracy}, proof=${proof}. ` +
+        `Min acceptable score: ${formula.minAcceptableScore}.`;
+    })
+    .join('\n');
+}
+
 export async function selectFormulaWithAI(
   oracleName: string,
   dataType: string,
@@ -96,6 +111,7 @@ export async function selectFormulaWithAI(
 
   try {
     const prompt = FORMULA_PROMPT
+      .replace('{formulaList}', describeFormulas())
       .replace('{oracleName}', oracleName)
       .replace('{dataType}', dataType)
       .replace('{dataValue}', JSON.stringify(dataValue))
@@ -168,8 +184,8 @@ export async function generateAIAnalysis(input: AIAnalysisInput): Promise<string
       .replace('{accuracyScore}', Math.round(input.baseScores.accuracy * 100).toString())
       .replace('{proofScore}', Math.round(input.baseScores.proof * 100).toString())
       .replace('{zkVerified}', input.zkVerified ? 'yes' : 'no')
-      .replace('{formulaName}', 'Price Feed Formula')
-      .replace('{formulaId}', 'price_feed_v1');
+      .replace('{formulaName}', input.formulaName)
+      .replace('{formulaId}', input.formulaId);
 
     const response = await client.messages.create({
       model: 'claude-sonnet-4-20250514',
@@ -193,34 +209,25 @@ function selectFormulaRuleBased(dataType: string): FormulaSelection {
   const type = dataType.toLowerCase();
   if (type.includes('price') || type.includes('token') || type.includes('exchange')) {
     return {
-      formulaId: 'price_feed_v1',
-      formulaName: 'Price Feed Formula',
+      formulaId: FORMULAS.price_feed_v1.id,
+      formulaName: FORMULAS.price_feed_v1.name,
       reasoning: 'Selected price feed formula based on data type pattern matching. This formula prioritizes time freshness and accuracy for financial data.',
     };
   }
   if (type.includes('weather') || type.includes('temperature')) {
     return {
-      formulaId: 'weather_v1',
-      formulaName: 'Weather Data Formula',
+      formulaId: FORMULAS.weather_v1.id,
+      formulaName: FORMULAS.weather_v1.name,
       reasoning: 'Selected weather formula based on data type. This formula emphasizes source reputation and allows for natural data variation.',
     };
   }
   return {
-    formulaId: 'generic_v1',
-    formulaName: 'Generic Formula',
+    formulaId: FORMULAS.generic_v1.id,
+    formulaName: FORMULAS.generic_v1.name,
     reasoning: 'Using balanced generic formula as data type does not match specialized patterns. All scoring factors are weighted equally.',
   };
 }
 
-const ORACLE_REPUTATION: Record<string, number> = {
-  chainlink: 0.95,
-  pyth: 0.90,
-  api3: 0.85,
-  band: 0.80,
-  dia: 0.75,
-  weatherapi: 0.80,
-};
-
 function generateRuleBasedAnalysis(input: AIAnalysisInput): string {
   const parts: string[] = [];
 
@@ -230,9 +237,9 @@ function generateRuleBasedAnalysis(input: AIAnalysisInput): string {
   parts.push(`Selected formula based on data type "${input.dataType}".`);
   parts.push('');
 
-  const oracleTrust = ORACLE_REPUTATION[input.oracleName.toLowerCase()];
+  const oracleTrust = defaultReputationRegistry.lookup(input.oracleName);
   if (oracleTrust) {
-    parts.push(`Oracle "${input.oracleName}" is recognized with ${Math.round(oracleTrust * 100)}% base trust.`);
+    parts.push(`Oracle "${input.oracleName}" is recognized with ${Math.round(oracleTrust.reputation * 100)}% base trust (${oracleTrust.provenance}).`);
   } else {
     parts.push(`Oracle "${input.oracleName}" is not in our trusted database - applying extra scrutiny.`);
   }
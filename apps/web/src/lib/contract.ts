@@ -11,6 +11,7 @@
  */
 
 import { ethers } from 'ethers';
+import { isProofHash } from '@oraclelens/zk/src/proofHash';
 
 // ABI for OracleLensRegistry (minimal - only the functions we need)
 const REGISTRY_ABI = [
@@ -98,10 +99,12 @@ export async function submitResultOnChain(
     // Convert requestId string to bytes32
     const requestIdBytes = ethers.id(requestId);
 
-    // Convert proofHash string to bytes32
-    const proofHashBytes = proofHash.startsWith('0x') && proofHash.length === 66
-      ? proofHash
-      : ethers.id(proofHash);
+    // Proof hashes are already canonical bytes32 (see @oraclelens/zk proofHash);
+    // an empty hash means no proof was produced
+    if (proofHash && !isProofHash(proofHash)) {
+      return { success: false, error: `Proof hash is not bytes32: ${proofHash}`, mode: 'real' };
+    }
+    const proofHashBytes = proofHash || ethers.ZeroHash;
 
     console.log(`[Contract] Submitting result on-chain: ${requestId} score=${score}`);
 
@@ -0,0 +1,90 @@
+/**
+ * OracleLens Disputes
+ *
+ * Disputes raised against stored evaluations (oracle_disputes table,
+ * supabase/migrations/005_create_oracle_disputes.sql). Once confirmed, a
+ * dispute counts against the oracle's Bayesian reputation.
+ */
+
+import { supabaseAdmin, OracleDisputeRecord } from './supabase';
+import { escapeLikePattern, invalidateReputationPosteriors } from './reputation';
+
+export type DisputeResolution = 'confirmed' | 'rejected';
+
+/**
+ * Raise a dispute against an evaluation. Returns null if the evaluation does not exist.
+ */
+export async function openDispute(requestId: string, reason: string): Promise<OracleDisputeRecord | null> {
+  const { data: evaluation, error } = await supabaseAdmin
+    .from('evaluations')
+    .select('oracle_name')
+    .eq('request_id', requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load evaluation: ${error.message}`);
+  }
+  if (!evaluation) return null;
+
+  const { data, error: insertError } = await supabaseAdmin
+    .from('oracle_disputes')
+    .insert({
+      request_id: requestId,
+      oracle_name: (evaluation as { oracle_name: string }).oracle_name,
+      reason,
+      status: 'open',
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    throw new Error(`Failed to store dispute: ${insertError.message}`);
+  }
+
+  return data as OracleDisputeRecord;
+}
+
+/**
+ * Confirm or reject an open dispute. Returns null if no open dispute has this id.
+ */
+export async function resolveDispute(id: string, status: DisputeResolution): Promise<OracleDisputeRecord | null> {
+  const { data, error } = await supabaseAdmin
+    .from('oracle_disputes')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve dispute: ${error.message}`);
+  }
+  if (!data) return null;
+
+  // Confirmed disputes move reputation - recompute on next use
+  invalidateReputationPosteriors();
+  return data as OracleDisputeRecord;
+}
+
+/**
+ * Disputes, newest first, optionally for one oracle.
+ */
+export async function listDisputes(oracleName?: string): Promise<OracleDisputeRecord[]> {
+  let query = supabaseAdmin
+    .from('oracle_disputes')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (oracleName) {
+    query = query.ilike('oracle_name', escapeLikePattern(oracleName));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load disputes: ${error.message}`);
+  }
+
+  return data as OracleDisputeRecord[];
+}
@@ -3,174 +3,77 @@
  * Combines scoring, AI, and zkTLS for complete evaluation
  */
 
-import { EvaluateRequest, EvaluateResponse } from './types';
-import { verifyOracleDataSource } from './zkTlsVerify';
+import {
+  calculateSourceScore,
+  calculateTimeScore,
+  getFreshnessProfile,
+  calculateReferenceAccuracy,
+  calculateStructuredAccuracy,
+  calculateConsensusAccuracy,
+  calculateProofScore,
+  calculateCredibilityScore,
+  analyzeCounterfactuals,
+  checkDomainPolicy,
+  selectFormula,
+  getFeedId,
+  getFieldTolerances,
+  resolvePrimaryValue,
+  resolveCategoricalValue,
+  resolveAssetSymbol,
+  resolveTolerance,
+  resolveTimestamp,
+  normalizeTimestamp,
+  type BaseScores,
+  type ConsensusResult,
+  type ConsensusVote,
+  type ReferenceAccuracyResult,
+  type SourcedReference,
+  NEUTRAL_ACCURACY,
+  type LivenessSample,
+  type ReputationPosterior,
+  type StructuredAccuracyResult,
+  type ToleranceResolution,
+  type UptimeResult,
+} from '@oraclelens/scoring';
+import type {
+  ConditionEvaluationResult,
+  DataBindingResult,
+  ProofLedgerEntry,
+  ReplayCheckResult,
+} from '@oraclelens/zk';
+import { EvaluateRequest, EvaluateResponse, ReferenceScalar, ReferenceValue, StoredZkProof } from './types';
+import { verifyOracleDataSource, verifyClientAttestation, checkClientProofReplay } from './zkTlsVerify';
 import { selectFormulaWithAI, generateAIAnalysis } from './aiProvider';
+import { getReputationPosterior, getReputationRegistry } from './reputation';
+import { getFormulaRegistry } from './formulas';
+import { getFeedUptime } from './liveness';
+import { getFeedTolerance } from './tolerance';
 import { storePendingVerification } from '@/app/api/oracle-data/[requestId]/route';
 
-// ============================================
-// Scoring Logic
-// ============================================
-
-interface BaseScores {
-  source: number;
-  time: number;
-  accuracy: number;
-  proof: number;
-}
-
-const ORACLE_REPUTATION: Record<string, number> = {
-  chainlink: 0.95,
-  pyth: 0.90,
-  api3: 0.85,
-  band: 0.80,
-  dia: 0.75,
-  weatherapi: 0.80,
-  unknown: 0.50,
-};
-
-function calculateSourceScore(oracleName: string): number {
-  const key = oracleName.toLowerCase();
-  return ORACLE_REPUTATION[key] ?? ORACLE_REPUTATION['unknown'];
-}
-
-function calculateTimeScore(reportedTimestamp: number, maxAgeSeconds: number = 300): number {
-  const now = Date.now();
-  const ageMs = now - reportedTimestamp;
-  const ageSeconds = ageMs / 1000;
-
-  if (ageSeconds < 0) return 0.5;
-  if (ageSeconds > maxAgeSeconds * 2) return 0.1;
-
-  const halfLife = maxAgeSeconds / 2;
-  return Math.exp(-ageSeconds / halfLife);
-}
-
-function calculateAccuracyScore(
-  primaryValue: number,
-  referenceValues: number[],
-  tolerancePercent: number = 1
-): number {
-  if (referenceValues.length === 0) return 0.7;
-
-  const sorted = [...referenceValues].sort((a, b) => a - b);
-  const median = sorted.length % 2 === 0
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-    : sorted[Math.floor(sorted.length / 2)];
-
-  const deviationPercent = Math.abs((primaryValue - median) / median) * 100;
-
-  if (deviationPercent <= tolerancePercent) {
-    return 1.0 - (deviationPercent / tolerancePercent) * 0.1;
-  }
-
-  const excessDeviation = deviationPercent - tolerancePercent;
-  return Math.max(0.1, 0.9 * Math.exp(-excessDeviation / tolerancePercent));
-}
-
-function calculateProofScore(hasProof: boolean, verified: boolean): number {
-  if (!hasProof) return 0.4;
-  if (!verified) return 0.1;
-  return 0.95;
-}
+// Freshness window for submitted data
+const MAX_ACCEPTABLE_AGE_SECONDS = 300;
 
 // ============================================
-// Formula Definitions
+// Reference Values
 // ============================================
 
-interface Formula {
-  id: string;
-  name: string;
-  weights: { source: number; time: number; accuracy: number; proof: number };
-  minAcceptableScore: number;
-}
-
-const FORMULAS: Record<string, Formula> = {
-  price_feed_v1: {
-    id: 'price_feed_v1',
-    name: 'Price Feed Formula',
-    weights: { source: 0.25, time: 0.30, accuracy: 0.30, proof: 0.15 },
-    minAcceptableScore: 70,
-  },
-  weather_v1: {
-    id: 'weather_v1',
-    name: 'Weather Data Formula',
-    weights: { source: 0.35, time: 0.25, accuracy: 0.20, proof: 0.20 },
-    minAcceptableScore: 60,
-  },
-  generic_v1: {
-    id: 'generic_v1',
-    name: 'Generic Formula',
-    weights: { source: 0.25, time: 0.25, accuracy: 0.25, proof: 0.25 },
-    minAcceptableScore: 65,
-  },
-};
-
-// ============================================
-// Trust Level
-// ============================================
-
-function getTrustLevel(score: number, minAcceptable: number): 'high' | 'medium' | 'low' | 'untrusted' {
-  if (score >= 90) return 'high';
-  if (score >= minAcceptable) return 'medium';
-  if (score >= minAcceptable - 15) return 'low';
-  return 'untrusted';
-}
-
-// ============================================
-// Explanation Generation
-// ============================================
-
-function generateExplanation(
-  baseScores: BaseScores,
-  formula: Formula,
-  finalScore: number,
-  trustLevel: string
-): string {
-  const parts: string[] = [];
-
-  parts.push(`Credibility Score: ${finalScore}/100 (${trustLevel.toUpperCase()})`);
-  parts.push(`Formula Used: ${formula.name}`);
-  parts.push('');
-  parts.push('Factor Breakdown:');
-
-  const sourcePercent = Math.round(baseScores.source * 100);
-  if (sourcePercent >= 80) {
-    parts.push(`• Source Reliability: ${sourcePercent}% - Highly trusted oracle`);
-  } else if (sourcePercent >= 60) {
-    parts.push(`• Source Reliability: ${sourcePercent}% - Moderately trusted`);
-  } else {
-    parts.push(`• Source Reliability: ${sourcePercent}% - Unknown or untrusted source`);
-  }
-
-  const timePercent = Math.round(baseScores.time * 100);
-  if (timePercent >= 80) {
-    parts.push(`• Time Freshness: ${timePercent}% - Data is fresh`);
-  } else if (timePercent >= 50) {
-    parts.push(`• Time Freshness: ${timePercent}% - Data is slightly stale`);
-  } else {
-    parts.push(`• Time Freshness: ${timePercent}% - Data is outdated`);
-  }
-
-  const accuracyPercent = Math.round(baseScores.accuracy * 100);
-  if (accuracyPercent >= 80) {
-    parts.push(`• Consistency: ${accuracyPercent}% - Aligns with other sources`);
-  } else if (accuracyPercent >= 60) {
-    parts.push(`• Consistency: ${accuracyPercent}% - Minor deviation`);
-  } else {
-    parts.push(`• Consistency: ${accuracyPercent}% - Significant deviation detected`);
-  }
-
-  const proofPercent = Math.round(baseScores.proof * 100);
-  if (proofPercent >= 90) {
-    parts.push(`• zkTLS Proof: ${proofPercent}% - Cryptographically verified`);
-  } else if (proofPercent >= 40) {
-    parts.push(`• zkTLS Proof: ${proofPercent}% - No proof provided`);
-  } else {
-    parts.push(`• zkTLS Proof: ${proofPercent}% - Verification failed`);
-  }
-
-  return parts.join('\n');
+/**
+ * Give every reference a source: sourced references pass through (with
+ * their timestamps in Unix ms), plain values become "reference-<n>" with
+ * no timestamp.
+ */
+function toSourcedReferences(references: ReferenceValue[]): SourcedReference<ReferenceScalar>[] {
+  return references.map((reference, index) => {
+    if (
+      typeof reference === 'object' && reference !== null
+      && typeof reference.source === 'string' && 'value' in reference
+    ) {
+      const sourced = reference as SourcedReference<ReferenceScalar>;
+      const normalized = normalizeTimestamp(sourced.timestamp);
+      return { ...sourced, timestamp: normalized?.timestamp };
+    }
+    return { source: `reference-${index + 1}`, value: reference as ReferenceScalar };
+  });
 }
 
 // ============================================
@@ -182,27 +85,237 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
   const requestId = `req_${timestamp}_${Math.random().toString(36).substring(7)}`;
 
   try {
-    // Extract price/value for accuracy check
     const dataValue = request.dataValue as Record<string, unknown>;
-    const primaryValue = typeof dataValue.price === 'number'
-      ? dataValue.price
-      : typeof dataValue.temperature === 'number'
-        ? dataValue.temperature
-        : 0;
-
-    const reportedTimestamp = typeof dataValue.timestamp === 'number'
-      ? dataValue.timestamp
-      : timestamp - 60000;
-
-    // Calculate base scores
-    const sourceScore = calculateSourceScore(request.oracleName);
-    const timeScore = calculateTimeScore(reportedTimestamp);
-    const accuracyScore = calculateAccuracyScore(
-      primaryValue,
-      request.referenceValues ?? [],
-      request.dataType.includes('weather') ? 5 : 1
+
+    // The requested formula (e.g. a team's derived formula), else AI-powered selection
+    // (uses Claude if credentials exist, otherwise rule-based). Its tolerance and
+    // freshness overrides apply to the base scores below.
+    const formulaRegistry = await getFormulaRegistry();
+    let formula = request.formulaId ? formulaRegistry.get(request.formulaId) : undefined;
+    if (request.formulaId && !formula) {
+      throw new Error(`Unknown formula "${request.formulaId}"`);
+    }
+    if (!formula) {
+      const formulaSelection = await selectFormulaWithAI(
+        request.oracleName,
+        request.dataType,
+        request.dataValue,
+        request.sourceUrl
+      );
+      formula = formulaRegistry.get(formulaSelection.formulaId);
+      if (!formula) {
+        console.warn(`[Formula] Selected formula "${formulaSelection.formulaId}" is not registered, selecting by data type`);
+        formula = selectFormula(request.dataType, formulaRegistry);
+      }
+    }
+
+    // Timestamp from any common field and unit, in Unix ms (null if the data has none)
+    const timestampCheck = resolveTimestamp(dataValue);
+    const reportedTimestamp = timestampCheck.timestamp;
+
+    // Calculate base scores (shared engine from @oraclelens/scoring, timestamps in seconds)
+    const reputationRegistry = await getReputationRegistry();
+    let reputation: ReputationPosterior | undefined;
+    try {
+      reputation = await getReputationPosterior(request.oracleName);
+    } catch (error) {
+      // History unavailable - score with the registry value
+      console.error('Reputation history unavailable:', error);
+    }
+
+    // Rolling uptime from earlier sightings of this feed (this one is recorded after storing)
+    const feedId = getFeedId(request.oracleName, request.dataType);
+    const freshness = { ...getFreshnessProfile(request.oracleName, request.dataType), ...formula.freshness };
+    let uptime: UptimeResult | null = null;
+    try {
+      uptime = await getFeedUptime(feedId, timestamp, freshness.heartbeatSeconds);
+    } catch (error) {
+      console.error('Liveness history unavailable:', error);
+    }
+
+    const sourceScore = calculateSourceScore({
+      oracleName: request.oracleName,
+      hasApiDocumentation: false,
+      isRegulated: false,
+      // Too few sightings cannot tell a quiet feed from a down one
+      historicalUptime: uptime?.sufficient ? uptime.uptimePercent : undefined,
+      reputation,
+    }, reputationRegistry);
+    const sourceNotes: string[] = [];
+    if (reputation && reputation.observations > 0) {
+      sourceNotes.push(
+        `Reputation ${Math.round(reputation.mean * 100)}% from ${reputation.observations} past outcomes `
+        + `(${Math.round(reputation.credibleLevel * 100)}% interval `
+        + `${Math.round(reputation.lower * 100)}-${Math.round(reputation.upper * 100)}%)`
+      );
+    }
+    if (uptime?.sufficient) {
+      sourceNotes.push(
+        `Uptime ${uptime.uptimePercent.toFixed(1)}% over the last ${Math.round((uptime.windowEnd - uptime.windowStart) / 3600000)}h`
+        + (uptime.gaps.length > 0 ? ` (${uptime.gaps.length} missed heartbeat${uptime.gaps.length === 1 ? '' : 's'})` : '')
+      );
+    } else if (uptime) {
+      sourceNotes.push(`Uptime not applied: only ${uptime.samples} sighting${uptime.samples === 1 ? '' : 's'} in the window`);
+    }
+    const sourceNote = sourceNotes.length > 0 ? sourceNotes.join('; ') : undefined;
+    // Decay model, heartbeat and clock skew come from the feed's freshness profile
+    const maxAcceptableAgeSeconds = freshness.maxAcceptableAgeSeconds ?? MAX_ACCEPTABLE_AGE_SECONDS;
+    const timeScore = calculateTimeScore({
+      reportedTimestamp: reportedTimestamp !== null ? Math.floor(reportedTimestamp / 1000) : null,
+      currentTimestamp: Math.floor(timestamp / 1000),
+      maxAcceptableAgeSeconds,
+      decay: freshness.decay,
+      heartbeatSeconds: freshness.heartbeatSeconds,
+      clockSkewSeconds: freshness.clockSkewSeconds,
+    });
+    const timeNotes: string[] = [];
+    if (reportedTimestamp === null) {
+      timeNotes.push(`${timestampCheck.reason} - age unknown`);
+    } else {
+      const ageSeconds = Math.max(0, Math.round((timestamp - reportedTimestamp) / 1000));
+      if (timestampCheck.field !== 'timestamp' || timestampCheck.unit !== 'milliseconds') {
+        timeNotes.push(`Timestamp read from ${timestampCheck.field} (${timestampCheck.unit})`);
+      }
+      if (freshness.decay === 'heartbeat' && freshness.heartbeatSeconds) {
+        timeNotes.push(`${ageSeconds}s old on a ${freshness.heartbeatSeconds}s heartbeat`
+          + (ageSeconds > freshness.heartbeatSeconds ? ' (heartbeat missed)' : ''));
+      } else if (freshness.decay !== 'exponential') {
+        timeNotes.push(`${ageSeconds}s old, ${freshness.decay} decay over ${maxAcceptableAgeSeconds}s`);
+      }
+    }
+    const timeNote = timeNotes.length > 0 ? timeNotes.join('; ') : undefined;
+
+    // Structured references are compared field by field, flat numbers against the
+    // primary value, and discrete outcomes (status, result, ...) by consensus.
+    // Plain references become anonymous sourced references. The tolerance comes
+    // from the feed's profile (e.g. tight for stablecoins, volatility-based for tokens).
+    let tolerance: ToleranceResolution;
+    if (formula.tolerancePercent !== undefined) {
+      tolerance = {
+        tolerancePercent: formula.tolerancePercent,
+        profileId: formula.id,
+        matchedBy: 'formula',
+        method: 'static',
+        samples: 0,
+      };
+    } else {
+      try {
+        tolerance = await getFeedTolerance(request.oracleName, request.dataType, dataValue, feedId, timestamp);
+      } catch (error) {
+        console.error('Value history unavailable:', error);
+        tolerance = resolveTolerance({ feedId, asset: resolveAssetSymbol(dataValue), dataType: request.dataType });
+      }
+    }
+    const tolerancePercent = tolerance.tolerancePercent;
+    const references = toSourcedReferences(request.referenceValues ?? []);
+    const structuredReferences = references.filter(
+      (reference): reference is SourcedReference<Record<string, unknown>> =>
+        typeof reference.value === 'object' && reference.value !== null
+    );
+    const numericReferences = references.filter(
+      (reference): reference is SourcedReference<number> => typeof reference.value === 'number'
     );
 
+    let numericScore: number | undefined;
+    let accuracyBreakdown: StructuredAccuracyResult | undefined;
+    let referenceCheck: ReferenceAccuracyResult | undefined;
+    const accuracyNotes: string[] = [];
+
+    if (structuredReferences.length > 0) {
+      accuracyBreakdown = calculateStructuredAccuracy({
+        value: dataValue,
+        references: structuredReferences,
+        tolerances: getFieldTolerances(request.dataType),
+        defaultTolerancePercent: tolerancePercent,
+        currentTimestamp: timestamp,
+        maxReferenceAgeSeconds: MAX_ACCEPTABLE_AGE_SECONDS,
+      }, reputationRegistry);
+      if (accuracyBreakdown.scoredFields > 0) {
+        numericScore = accuracyBreakdown.score;
+        accuracyNotes.push(accuracyBreakdown.outOfTolerance.length > 0
+          ? `Outside tolerance: ${accuracyBreakdown.outOfTolerance.join(', ')} `
+            + `(${accuracyBreakdown.scoredFields - accuracyBreakdown.outOfTolerance.length}/${accuracyBreakdown.scoredFields} fields agree)`
+          : `All ${accuracyBreakdown.scoredFields} fields within tolerance`);
+      }
+      const stale = accuracyBreakdown.references.filter(reference => reference.staleDiscount < 1);
+      if (stale.length > 0) {
+        accuracyNotes.push(`Stale references discounted: ${stale
+          .map(reference => `${reference.source} (${reference.ageSeconds}s old)`)
+          .join(', ')}`);
+      }
+    } else if (numericReferences.length > 0) {
+      const primary = resolvePrimaryValue(dataValue);
+      if (primary) {
+        referenceCheck = calculateReferenceAccuracy({
+          primaryValue: primary.value,
+          referenceValues: numericReferences,
+          tolerancePercent,
+          currentTimestamp: timestamp,
+          maxReferenceAgeSeconds: MAX_ACCEPTABLE_AGE_SECONDS,
+        }, reputationRegistry);
+        numericScore = referenceCheck.score;
+
+        if (referenceCheck.outliers.length > 0) {
+          accuracyNotes.push(`Outliers ignored: ${referenceCheck.outliers
+            .map(outlier => `${outlier.source} (${outlier.deviationPercent.toFixed(1)}% off)`)
+            .join(', ')}`);
+        }
+        const stale = referenceCheck.references.filter(reference => !reference.outlier && reference.staleDiscount < 1);
+        if (stale.length > 0) {
+          accuracyNotes.push(`Stale references discounted: ${stale
+            .map(reference => `${reference.source} (${reference.ageSeconds}s old)`)
+            .join(', ')}`);
+        }
+        if (referenceCheck.explanation) {
+          accuracyNotes.push(referenceCheck.explanation);
+        }
+        if (referenceCheck.deviationPercent !== null && referenceCheck.deviationPercent > tolerancePercent) {
+          accuracyNotes.push(
+            `${referenceCheck.deviationPercent.toFixed(2)}% from the weighted reference median ${referenceCheck.referenceMedian} `
+            + `(tolerance ${Number(tolerancePercent.toFixed(2))}%, ${tolerance.profileId} ${tolerance.matchedBy === 'formula' ? 'formula' : 'profile'}`
+            + (tolerance.method === 'volatility' ? ` from ${tolerance.samples} recent values)` : ')')
+          );
+        }
+      } else {
+        accuracyNotes.push('No single numeric value in the data to compare with the reference values');
+      }
+    }
+
+    const categorical = resolveCategoricalValue(dataValue);
+    const votes: ConsensusVote[] = categorical
+      ? references.flatMap(reference => {
+        const value = typeof reference.value === 'object' && reference.value !== null
+          ? reference.value[categorical.field]
+          : reference.value;
+        return typeof value === 'string' || typeof value === 'boolean'
+          ? [{
+            value,
+            source: reference.source,
+            weight: (reference.weight ?? 1) * reputationRegistry.getReputation(reference.source),
+          }]
+          : [];
+      })
+      : [];
+    let consensus: ConsensusResult | undefined;
+
+    if (categorical && votes.length > 0) {
+      consensus = calculateConsensusAccuracy({ value: categorical.value, votes });
+      const dissent = consensus.dissent
+        .map(bloc => `${bloc.value} (${bloc.sources.join(', ')})`)
+        .join('; ');
+      accuracyNotes.push(
+        `${Math.round(consensus.agreementRatio * 100)}% of ${consensus.votes} sources agree on ${categorical.field} "${consensus.value}"`
+        + (consensus.supermajority ? ' (supermajority)' : '')
+        + (dissent ? `, dissent: ${dissent}` : '')
+      );
+    }
+
+    // Numeric and categorical agreement count equally when both were checked
+    const accuracyScore = numericScore !== undefined && consensus
+      ? (numericScore + consensus.score) / 2
+      : numericScore ?? consensus?.score ?? NEUTRAL_ACCURACY;
+    const accuracyNote = accuracyNotes.length > 0 ? accuracyNotes.join('; ') : undefined;
+
     // Store pending verification data for zkTLS endpoint
     storePendingVerification(requestId, {
       oracleName: request.oracleName,
@@ -212,18 +325,49 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
       referenceValues: request.referenceValues,
     });
 
-    // zkTLS verification - prefer client-side result if available (real browser extension)
+    // zkTLS verification - prefer client-side attestation if available (real browser extension)
     let zkVerified: boolean;
     let proofHash: string;
     let zkMode: 'real' | 'mock' | 'client';
+    let zkReason: string | undefined;
+    let verifiedDomain: string | undefined;
+    let dataBinding: DataBindingResult | undefined;
+    let conditions: ConditionEvaluationResult | undefined;
+    let replayCheck: ReplayCheckResult | undefined;
+    let ledgerEntry: ProofLedgerEntry | undefined;
+    let attestation: Record<string, unknown> | undefined;
+    let verifiedEndpoint: string | undefined;
 
     if (request.clientZkTls && request.clientZkTls.mode === 'real') {
-      // Use frontend zkTLS result from browser extension
-      console.log('[zkTLS] Using client-side verification result from browser extension');
-      zkVerified = request.clientZkTls.verified;
-      proofHash = request.clientZkTls.proofHash;
+      // Re-verify the attestation from the browser extension - never trust the client's verdict
+      console.log('[zkTLS] Re-verifying client-side attestation from browser extension');
+      const clientCheck = verifyClientAttestation(request.clientZkTls, request.dataValue);
+      zkVerified = clientCheck.verified;
+      proofHash = clientCheck.proofHash;
       zkMode = 'client';
-      console.log(`[zkTLS] Client result: verified=${zkVerified}, proofHash=${proofHash}`);
+      zkReason = clientCheck.reason;
+      verifiedDomain = clientCheck.verifiedDomain;
+      dataBinding = clientCheck.dataBinding;
+      conditions = clientCheck.conditions;
+      attestation = request.clientZkTls.attestation;
+      verifiedEndpoint = request.clientZkTls.attestation?.request?.url;
+
+      // Replay protection - a proof may only back one set of data, and only while fresh
+      if (zkVerified) {
+        ({ replayCheck, ledgerEntry } = await checkClientProofReplay(
+          request.clientZkTls,
+          proofHash,
+          requestId,
+          request.dataValue
+        ));
+        if (!replayCheck.accepted) {
+          zkVerified = false;
+          zkReason = replayCheck.reason;
+        } else if (replayCheck.status === 'duplicate') {
+          zkReason = zkReason ?? replayCheck.reason;
+        }
+      }
+      console.log(`[zkTLS] Client attestation: verified=${zkVerified}, proofHash=${proofHash}${zkReason ? `, reason=${zkReason}` : ''}`);
     } else {
       // Fallback to server-side verification (will use mock since startAttestation needs browser)
       console.log('[zkTLS] No client zkTLS result, using server-side verification');
@@ -237,9 +381,56 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
       zkVerified = zkResult.verified;
       proofHash = zkResult.proofHash;
       zkMode = zkResult.mode;
+      verifiedDomain = zkResult.verifiedDomain;
+      verifiedEndpoint = zkResult.verifiedEndpoint;
+      attestation = zkResult.attestation;
     }
 
-    const proofScore = calculateProofScore(true, zkVerified);
+    // Keep the full attestation so the result can be re-verified later (mock proofs have none)
+    const zkProof: StoredZkProof | undefined = attestation
+      ? {
+        requestId,
+        proofHash,
+        zkMode,
+        attestation,
+        attestors: (attestation.attestors ?? []) as StoredZkProof['attestors'],
+        verified: zkVerified,
+        verificationTimestamp: Date.now(),
+        verifiedDomain,
+        verifiedEndpoint,
+      }
+      : undefined;
+
+    // Attested host must match the declared source and pass the domain policy
+    const domainCheck = checkDomainPolicy({
+      attested: verifiedDomain,
+      declared: request.sourceUrl,
+      dataType: request.dataType,
+    });
+
+    const proofScore = calculateProofScore({
+      hasZkProof: true,
+      proofVerified: zkVerified,
+      domainCheck,
+      // Failed attConditions mean the attestation does not vouch for the data
+      dataBound: conditions?.satisfied === false ? false : dataBinding?.bound,
+    });
+    const proofNote = !zkVerified
+      ? zkReason
+      : dataBinding && !dataBinding.bound
+        ? dataBinding.reason
+        : conditions && !conditions.satisfied
+          ? conditions.error
+        : domainCheck.reason;
+
+    // Only a fresh proof bound to the data shows the feed was live, and only
+    // when it was received - the data's own timestamp is the caller's claim
+    const livenessSample: LivenessSample | undefined = zkVerified
+      && ledgerEntry !== undefined
+      && dataBinding?.bound === true
+      && conditions?.satisfied !== false
+      ? { feedId, observedAt: timestamp, source: 'evaluation' }
+      : undefined;
 
     const baseScores: BaseScores = {
       source: sourceScore,
@@ -248,26 +439,21 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
       proof: proofScore,
     };
 
-    // AI-powered formula selection (uses Claude if credentials exist, otherwise rule-based)
-    const formulaSelection = await selectFormulaWithAI(
-      request.oracleName,
-      request.dataType,
-      request.dataValue,
-      request.sourceUrl
+    const { finalScore, trustLevel, breakdown, explanation, formulaVersion, formulaHash } = calculateCredibilityScore(
+      baseScores,
+      formula,
+      { source: sourceNote, time: timeNote, accuracy: accuracyNote, proof: proofNote }
     );
-    const formula = FORMULAS[formulaSelection.formulaId] ?? FORMULAS.generic_v1;
 
-    // Calculate weighted scores
-    const weightedSource = baseScores.source * formula.weights.source;
-    const weightedTime = baseScores.time * formula.weights.time;
-    const weightedAccuracy = baseScores.accuracy * formula.weights.accuracy;
-    const weightedProof = baseScores.proof * formula.weights.proof;
-
-    const normalizedScore = weightedSource + weightedTime + weightedAccuracy + weightedProof;
-    const finalScore = Math.round(normalizedScore * 100);
-
-    const trustLevel = getTrustLevel(finalScore, formula.minAcceptableScore);
-    const explanation = generateExplanation(baseScores, formula, finalScore, trustLevel);
+    // What single-factor change would move the verdict into the next trust band
+    const counterfactual = analyzeCounterfactuals(baseScores, formula, {
+      freshness: {
+        maxAcceptableAgeSeconds,
+        decay: freshness.decay,
+        heartbeatSeconds: freshness.heartbeatSeconds,
+        clockSkewSeconds: freshness.clockSkewSeconds,
+      },
+    });
 
     // AI-powered analysis reasoning (uses Claude if credentials exist, otherwise rule-based)
     const aiReasoning = await generateAIAnalysis({
@@ -277,6 +463,8 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
       sourceUrl: request.sourceUrl,
       baseScores,
       zkVerified,
+      formulaId: formula.id,
+      formulaName: formula.name,
       finalScore,
       trustLevel,
     });
@@ -286,19 +474,34 @@ export async function evaluateOracleData(request: EvaluateRequest): Promise<Eval
       requestId,
       score: finalScore,
       trustLevel,
-      breakdown: {
-        source: { raw: baseScores.source, weighted: weightedSource },
-        time: { raw: baseScores.time, weighted: weightedTime },
-        accuracy: { raw: baseScores.accuracy, weighted: weightedAccuracy },
-        proof: { raw: baseScores.proof, weighted: weightedProof },
-      },
+      breakdown,
       formulaId: formula.id,
       formulaName: formula.name,
+      formulaVersion,
+      formulaHash,
+      formula,
+      baseScores,
       explanation,
+      counterfactual,
       aiReasoning,
       zkVerified,
       proofHash,
       zkMode,
+      zkReason,
+      dataBinding,
+      conditions,
+      replayCheck,
+      ledgerEntry,
+      domainCheck,
+      zkProof,
+      reputation,
+      uptime: uptime ?? undefined,
+      accuracyBreakdown,
+      referenceCheck,
+      tolerance,
+      consensus,
+      livenessSample,
+      timestampCheck,
       timestamp,
     };
   } catch (error) {
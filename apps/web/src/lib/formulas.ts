@@ -0,0 +1,182 @@
+/**
+ * OracleLens Formula Store
+ *
+ * Persists formula versions registered at runtime in the formulas table
+ * (supabase/migrations/007_create_formulas.sql) and keeps the shared
+ * scoring registry in sync with it. Without Supabase the registry only
+ * holds the built-ins and formulas registered by this process.
+ */
+
+import {
+  BUILTIN_FORMULA_PROVENANCE,
+  DEFAULT_FORMULA_VERSIONS,
+  defaultFormulaRegistry,
+  hashFormula,
+  type Formula,
+  type FormulaRegistry,
+  type FormulaStore,
+  type FormulaVersion,
+} from '@oraclelens/scoring';
+import { supabaseAdmin, FormulaRecord } from './supabase';
+
+// How long a loaded registry is reused before re-reading the table
+const REGISTRY_TTL_MS = 60_000;
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function toRecord(entry: FormulaVersion): FormulaRecord {
+  return {
+    formula_id: entry.formula.id,
+    version: entry.version,
+    content_hash: entry.contentHash,
+    definition: entry.formula,
+    provenance: entry.provenance,
+    registered_at: new Date(entry.registeredAt).toISOString(),
+    deprecated_at: entry.deprecatedAt !== undefined ? new Date(entry.deprecatedAt).toISOString() : null,
+    deprecation_reason: entry.deprecationReason ?? null,
+  };
+}
+
+function fromRecord(row: FormulaRecord): FormulaVersion {
+  return {
+    formula: { ...row.definition, id: row.formula_id },
+    version: row.version,
+    contentHash: row.content_hash,
+    provenance: row.provenance,
+    registeredAt: new Date(row.registered_at).getTime(),
+    deprecatedAt: row.deprecated_at ? new Date(row.deprecated_at).getTime() : undefined,
+    deprecationReason: row.deprecation_reason ?? undefined,
+  };
+}
+
+// ============================================
+// Supabase Store
+// ============================================
+
+export class SupabaseFormulaStore implements FormulaStore {
+  async list(): Promise<FormulaVersion[]> {
+    const { data, error } = await supabaseAdmin
+      .from('formulas')
+      .select('*')
+      .order('registered_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load formulas: ${error.message}`);
+    }
+
+    return (data as FormulaRecord[]).map(fromRecord);
+  }
+
+  async insert(entry: FormulaVersion): Promise<void> {
+    const { error } = await supabaseAdmin.from('formulas').insert(toRecord(entry));
+
+    if (error) {
+      throw new Error(`Failed to store formula: ${error.message}`);
+    }
+  }
+
+  async deprecate(formulaId: string, version: number, deprecatedAt: number, reason: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('formulas')
+      .update({ deprecated_at: new Date(deprecatedAt).toISOString(), deprecation_reason: reason })
+      .eq('formula_id', formulaId)
+      .eq('version', version);
+
+    if (error) {
+      throw new Error(`Failed to deprecate formula: ${error.message}`);
+    }
+  }
+}
+
+// ============================================
+// Registry Sync
+// ============================================
+
+let store: FormulaStore | null | undefined;
+let loadedAt = 0;
+
+function getFormulaStore(): FormulaStore | null {
+  if (store === undefined) {
+    store = process.env.SUPABASE_SERVICE_ROLE_KEY ? new SupabaseFormulaStore() : null;
+  }
+  return store;
+}
+
+/**
+ * Shared registry with the stored versions loaded after the built-ins.
+ * Reloads at most once per REGISTRY_TTL_MS (or always with force). Stored
+ * versions whose definition no longer hashes to their content hash were
+ * edited after registration and are left out.
+ */
+export async function getFormulaRegistry(force = false): Promise<FormulaRegistry> {
+  const formulaStore = getFormulaStore();
+
+  if (formulaStore && (force || Date.now() - loadedAt > REGISTRY_TTL_MS)) {
+    const stored = (await formulaStore.list()).filter(entry => {
+      const contentHash = hashFormula(entry.formula);
+      if (contentHash === entry.contentHash) return true;
+      console.error(
+        `Formula ${entry.formula.id} v${entry.version} does not match its content hash `
+        + `(stored ${entry.contentHash}, computed ${contentHash}); ignoring it`
+      );
+      return false;
+    });
+    defaultFormulaRegistry.replaceAll([...DEFAULT_FORMULA_VERSIONS, ...stored]);
+    loadedAt = Date.now();
+  }
+
+  return defaultFormulaRegistry;
+}
+
+/**
+ * Register a formula (validated by the registry) and persist the new version.
+ * Returns the current version unchanged if the definition did not change.
+ */
+export async function registerFormula(formula: Formula, provenance: string): Promise<FormulaVersion> {
+  const registry = await getFormulaRegistry(true);
+  const before = registry.all().length;
+  const entry = registry.register(formula, provenance);
+
+  const formulaStore = getFormulaStore();
+  if (formulaStore && registry.all().length > before) {
+    try {
+      await formulaStore.insert(entry);
+    } catch (error) {
+      await getFormulaRegistry(true);
+      throw error;
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Deprecate a stored formula (one version or all). Built-in formulas cannot
+ * be deprecated. Returns the versions changed; empty if nothing was stored.
+ */
+export async function deprecateFormula(formulaId: string, reason: string, version?: number): Promise<FormulaVersion[]> {
+  const registry = await getFormulaRegistry(true);
+  const builtin = registry.listVersions(formulaId)
+    .some(entry => entry.provenance === BUILTIN_FORMULA_PROVENANCE && (version === undefined || entry.version === version));
+  if (builtin) {
+    throw new Error(`Built-in formula "${formulaId}" cannot be deprecated`);
+  }
+
+  const deprecated = registry.deprecate(formulaId, reason, version);
+
+  const formulaStore = getFormulaStore();
+  if (formulaStore) {
+    try {
+      for (const entry of deprecated) {
+        await formulaStore.deprecate(formulaId, entry.version, entry.deprecatedAt as number, reason);
+      }
+    } catch (error) {
+      await getFormulaRegistry(true);
+      throw error;
+    }
+  }
+
+  return deprecated;
+}
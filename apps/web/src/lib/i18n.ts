@@ -124,6 +124,7 @@ export const translations = {
         medium: 'MEDIUM',
         low: 'LOW',
         untrusted: 'UNTRUSTED',
+        critical: 'CRITICAL',
       },
 
       // Sections
@@ -147,6 +148,7 @@ export const translations = {
       zkVerified: 'Verified',
       zkNotVerified: 'Not Verified',
       proofHash: 'Proof Hash',
+      zkReason: 'Verification Note',
 
       // On-chain
       onChainTitle: 'On-Chain Record',
@@ -158,8 +160,32 @@ export const translations = {
       viewOnExplorer: 'View on Etherscan',
 
       explanation: 'Explanation',
+
+      // Counterfactuals
+      counterfactualTitle: 'What Would Change the Verdict',
+      counterfactualTarget: 'Smallest change to reach',
+      counterfactualTopBand: 'Already in the most trusted band.',
+      counterfactualMaxAge: 'Data must be under',
+      counterfactualUnreachable: 'Cannot reach it alone',
+      counterfactualNone: 'No single factor can reach the next band on its own.',
+      counterfactualProof: {
+        outside_policy: 'A verified proof from a domain outside the policy',
+        verified: 'A verified proof',
+        trusted: 'A verified proof from a trusted domain',
+      },
+      counterfactualWouldRaise: 'would raise this to',
+
       aiAnalysis: 'AI Analysis',
 
+      // Proof bundle
+      bundleTitle: 'Proof Bundle',
+      bundleDescription: 'Download a portable, manifest-hashed file with the request, result, formula and raw attestation, or upload one to re-verify it.',
+      downloadBundle: 'Download Bundle',
+      verifyBundle: 'Verify Bundle File',
+      bundleValid: 'Bundle verified - score and proof hash reproduced',
+      bundleInvalid: 'Bundle failed verification',
+      bundleError: 'Could not process the bundle',
+
       // Actions
       evaluateAnother: 'Evaluate Another',
       copyJson: 'Copy JSON',
@@ -292,6 +318,7 @@ export const translations = {
         medium: '中等可信',
         low: '低可信',
         untrusted: '不可信',
+        critical: '严重风险',
       },
 
       // Sections
@@ -315,6 +342,7 @@ export const translations = {
       zkVerified: '已验证',
       zkNotVerified: '未验证',
       proofHash: '证明哈希',
+      zkReason: '验证说明',
 
       // On-chain
       onChainTitle: '链上记录',
@@ -326,8 +354,32 @@ export const translations = {
       viewOnExplorer: '在 Etherscan 查看',
 
       explanation: '说明',
+
+      // Counterfactuals
+      counterfactualTitle: '怎样改变结论',
+      counterfactualTarget: '达到以下等级的最小改动',
+      counterfactualTopBand: '已处于最高可信等级。',
+      counterfactualMaxAge: '数据须新于',
+      counterfactualUnreachable: '单独无法达到',
+      counterfactualNone: '没有任何单一因素能单独达到下一等级。',
+      counterfactualProof: {
+        outside_policy: '来自策略外域名的已验证证明',
+        verified: '已验证的证明',
+        trusted: '来自可信域名的已验证证明',
+      },
+      counterfactualWouldRaise: '可将结果提升至',
+
       aiAnalysis: 'AI 分析',
 
+      // Proof bundle
+      bundleTitle: '证明包',
+      bundleDescription: '下载包含请求、结果、公式和原始证明的可移植文件（带清单哈希），或上传证明包重新验证。',
+      downloadBundle: '下载证明包',
+      verifyBundle: '验证证明包文件',
+      bundleValid: '证明包验证通过 - 评分与证明哈希一致',
+      bundleInvalid: '证明包验证失败',
+      bundleError: '无法处理该证明包',
+
       // Actions
       evaluateAnother: '再次评估',
       copyJson: '复制JSON',
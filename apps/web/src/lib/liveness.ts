@@ -0,0 +1,93 @@
+/**
+ * OracleLens Liveness Store
+ *
+ * Records when each feed was evaluated or polled in the oracle_liveness
+ * table (supabase/migrations/006_create_oracle_liveness.sql) and measures
+ * rolling uptime from it. Falls back to an in-memory store when Supabase
+ * is not configured.
+ */
+
+import {
+  InMemoryLivenessStore,
+  measureUptime,
+  recordLivenessSample,
+  type LivenessSample,
+  type LivenessStore,
+  type UptimeResult,
+} from '@oraclelens/scoring';
+import { supabaseAdmin, OracleLivenessRecord } from './supabase';
+
+// ============================================
+// Supabase Store
+// ============================================
+
+export class SupabaseLivenessStore implements LivenessStore {
+  async record(sample: LivenessSample): Promise<void> {
+    const record: OracleLivenessRecord = {
+      feed_id: sample.feedId,
+      observed_at: new Date(sample.observedAt).toISOString(),
+      source: sample.source,
+    };
+    const { error } = await supabaseAdmin.from('oracle_liveness').insert(record);
+
+    if (error) {
+      throw new Error(`Failed to record liveness: ${error.message}`);
+    }
+  }
+
+  async list(feedId: string, since: number): Promise<LivenessSample[]> {
+    const { data, error } = await supabaseAdmin
+      .from('oracle_liveness')
+      .select('feed_id, observed_at, source')
+      .eq('feed_id', feedId)
+      .gte('observed_at', new Date(since).toISOString())
+      .order('observed_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load liveness: ${error.message}`);
+    }
+
+    return (data as OracleLivenessRecord[]).map(row => ({
+      feedId: row.feed_id,
+      observedAt: new Date(row.observed_at).getTime(),
+      source: row.source,
+    }));
+  }
+}
+
+// ============================================
+// Store Selection
+// ============================================
+
+let store: LivenessStore | null = null;
+
+/**
+ * Shared store: Supabase when the service role key is set, otherwise in-memory.
+ */
+export function getLivenessStore(): LivenessStore {
+  if (!store) {
+    store = process.env.SUPABASE_SERVICE_ROLE_KEY
+      ? new SupabaseLivenessStore()
+      : new InMemoryLivenessStore();
+  }
+  return store;
+}
+
+/**
+ * Record a sighting of a feed, at most two per heartbeat. Returns whether
+ * it was recorded.
+ */
+export async function recordFeedSighting(sample: LivenessSample, heartbeatSeconds?: number): Promise<boolean> {
+  return recordLivenessSample(getLivenessStore(), sample, { heartbeatSeconds });
+}
+
+/**
+ * Rolling uptime of a feed, or null if it has no history yet.
+ */
+export async function getFeedUptime(
+  feedId: string,
+  now?: number,
+  heartbeatSeconds?: number
+): Promise<UptimeResult | null> {
+  return measureUptime(getLivenessStore(), feedId, { now, heartbeatSeconds });
+}
@@ -0,0 +1,99 @@
+/**
+ * OracleLens Proof Ledger
+ *
+ * Persistent replay protection backed by the proof_ledger table
+ * (supabase/migrations/002_add_proof_ledger.sql). Falls back to an
+ * in-memory ledger when Supabase is not configured.
+ */
+
+import {
+  InMemoryProofLedger,
+  type ProofLedger,
+  type ProofLedgerEntry,
+} from '@oraclelens/zk';
+import { supabaseAdmin, ProofLedgerRecord } from './supabase';
+
+// Max age of a client attestation when it reaches /api/evaluate
+export const MAX_ATTESTATION_AGE_SECONDS = 300;
+
+// Postgres unique_violation: the proof hash is already held
+const UNIQUE_VIOLATION = '23505';
+
+// ============================================
+// Supabase Ledger
+// ============================================
+
+function toEntry(row: ProofLedgerRecord): ProofLedgerEntry {
+  return {
+    proofHash: row.proof_hash,
+    requestId: row.request_id,
+    recipient: row.recipient ?? '',
+    attestationTimestamp: Number(row.attestation_timestamp ?? 0),
+    dataHash: row.data_hash,
+    recordedAt: new Date(row.recorded_at).getTime(),
+  };
+}
+
+/**
+ * Ledger with one row per proof hash (its primary key). claim() is a plain
+ * insert, so of two concurrent claims the database lets exactly one win;
+ * the conflict is the replay. The claim happens while the evaluation is
+ * scored, before its row is stored.
+ */
+export class SupabaseProofLedger implements ProofLedger {
+  async find(proofHash: string): Promise<ProofLedgerEntry | null> {
+    const { data, error } = await supabaseAdmin
+      .from('proof_ledger')
+      .select('*')
+      .eq('proof_hash', proofHash.toLowerCase())
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Proof ledger lookup failed: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? toEntry(data[0] as ProofLedgerRecord) : null;
+  }
+
+  async claim(entry: ProofLedgerEntry): Promise<ProofLedgerEntry | null> {
+    const { error } = await supabaseAdmin.from('proof_ledger').insert({
+      proof_hash: entry.proofHash.toLowerCase(),
+      request_id: entry.requestId,
+      recipient: entry.recipient,
+      attestation_timestamp: entry.attestationTimestamp,
+      data_hash: entry.dataHash,
+      recorded_at: new Date(entry.recordedAt).toISOString(),
+    });
+
+    if (!error) {
+      return null;
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Proof ledger write failed: ${error.message}`);
+    }
+
+    const existing = await this.find(entry.proofHash);
+    if (!existing) {
+      throw new Error('Proof ledger conflict without a holder');
+    }
+    return existing;
+  }
+}
+
+// ============================================
+// Ledger Selection
+// ============================================
+
+let ledger: ProofLedger | null = null;
+
+/**
+ * Shared ledger: Supabase when the service role key is set, otherwise in-memory.
+ */
+export function getProofLedger(): ProofLedger {
+  if (!ledger) {
+    ledger = process.env.SUPABASE_SERVICE_ROLE_KEY
+      ? new SupabaseProofLedger()
+      : new InMemoryProofLedger();
+  }
+  return ledger;
+}
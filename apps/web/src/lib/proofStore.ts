@@ -0,0 +1,198 @@
+/**
+ * OracleLens Proof Store
+ *
+ * Persists the full zkTLS attestation behind each evaluation in the
+ * zk_proofs table (supabase/migrations/003_create_zk_proofs.sql), so the
+ * result can be re-verified later from the stored proof bundle.
+ */
+
+import type { BaseScores, TrustLevel } from '@oraclelens/scoring';
+import { exportBundle, type AttestationResult, type AttestorInfo, type ProofBundle } from '@oraclelens/zk';
+import { supabaseAdmin, EvaluationRecord, ZkProofRecord } from './supabase';
+import { getFormulaRegistry } from './formulas';
+import { EvaluateResponse, ReferenceValue, StoredZkProof } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ProofBundleResponse {
+  requestId: string;
+  evaluation: {
+    oracleName: string;
+    dataType: string;
+    dataValue: Record<string, unknown>;
+    sourceUrl: string | null;
+    referenceValues: ReferenceValue[] | null;
+    score: number;
+    trustLevel: string;
+    breakdown: Record<string, unknown>;
+    formulaId: string;
+    formulaName: string;
+    formulaVersion: number | null;
+    formulaHash: string | null;
+    explanation: string;
+    aiReasoning: string;
+    zkVerified: boolean;
+    proofHash: string;
+    createdAt: string | null;
+  };
+  proof: StoredZkProof | null;
+}
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function toRecord(proof: StoredZkProof): ZkProofRecord {
+  return {
+    request_id: proof.requestId,
+    proof_hash: proof.proofHash,
+    zk_mode: proof.zkMode,
+    proof_data: proof.attestation,
+    attestors: proof.attestors as unknown as Record<string, unknown>[],
+    verified: proof.verified,
+    verification_timestamp: new Date(proof.verificationTimestamp).toISOString(),
+    verified_domain: proof.verifiedDomain ?? null,
+    verified_endpoint: proof.verifiedEndpoint ?? null,
+  };
+}
+
+function fromRecord(row: ZkProofRecord): StoredZkProof {
+  return {
+    requestId: row.request_id,
+    proofHash: row.proof_hash,
+    zkMode: row.zk_mode,
+    attestation: row.proof_data,
+    attestors: row.attestors as unknown as AttestorInfo[],
+    verified: row.verified,
+    verificationTimestamp: row.verification_timestamp ? new Date(row.verification_timestamp).getTime() : 0,
+    verifiedDomain: row.verified_domain ?? undefined,
+    verifiedEndpoint: row.verified_endpoint ?? undefined,
+  };
+}
+
+// ============================================
+// Store Operations
+// ============================================
+
+/**
+ * Store the attestation of an evaluation (after the evaluation row exists).
+ */
+export async function storeZkProof(proof: StoredZkProof): Promise<void> {
+  const { error } = await supabaseAdmin.from('zk_proofs').insert(toRecord(proof));
+
+  if (error) {
+    throw new Error(`Failed to store zk proof: ${error.message}`);
+  }
+}
+
+/**
+ * Load the stored evaluation and its proof. Returns null if the evaluation does not exist.
+ */
+export async function getProofBundle(requestId: string): Promise<ProofBundleResponse | null> {
+  const { data: evaluation, error } = await supabaseAdmin
+    .from('evaluations')
+    .select('*')
+    .eq('request_id', requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load evaluation: ${error.message}`);
+  }
+  if (!evaluation) return null;
+
+  const { data: proofRow, error: proofError } = await supabaseAdmin
+    .from('zk_proofs')
+    .select('*')
+    .eq('request_id', requestId)
+    .maybeSingle();
+
+  if (proofError) {
+    throw new Error(`Failed to load zk proof: ${proofError.message}`);
+  }
+
+  const record = evaluation as EvaluationRecord;
+
+  return {
+    requestId,
+    evaluation: {
+      oracleName: record.oracle_name,
+      dataType: record.data_type,
+      dataValue: record.data_value,
+      sourceUrl: record.source_url ?? null,
+      referenceValues: record.reference_values ?? null,
+      score: record.score,
+      trustLevel: record.trust_level,
+      breakdown: record.breakdown,
+      formulaId: record.formula_id,
+      formulaName: record.formula_name,
+      formulaVersion: record.formula_version ?? null,
+      formulaHash: record.formula_hash ?? null,
+      explanation: record.explanation,
+      aiReasoning: record.ai_reasoning,
+      zkVerified: record.zk_verified,
+      proofHash: record.proof_hash,
+      createdAt: record.created_at ?? null,
+    },
+    proof: proofRow ? fromRecord(proofRow as ZkProofRecord) : null,
+  };
+}
+
+/**
+ * Proof bundle of a stored evaluation, built only from what the server
+ * recorded: the evaluation row, its stored attestation and the registered
+ * formula version it was scored with. Returns null if the evaluation does
+ * not exist; throws if its formula is no longer registered.
+ */
+export async function exportStoredBundle(requestId: string): Promise<ProofBundle | null> {
+  const stored = await getProofBundle(requestId);
+  if (!stored) return null;
+
+  const { evaluation, proof } = stored;
+  const registry = await getFormulaRegistry();
+  const formula = evaluation.formulaHash
+    ? registry.findByHash(evaluation.formulaHash)?.formula
+    : registry.get(evaluation.formulaId, evaluation.formulaVersion ?? undefined);
+  if (!formula) {
+    throw new Error(`Formula "${evaluation.formulaId}" of evaluation ${requestId} is not registered`);
+  }
+
+  // The breakdown keeps the raw factor scores fed into the formula
+  const breakdown = evaluation.breakdown as EvaluateResponse['breakdown'];
+  const baseScores: BaseScores = {
+    source: breakdown.source.raw,
+    time: breakdown.time.raw,
+    accuracy: breakdown.accuracy.raw,
+    proof: breakdown.proof.raw,
+  };
+
+  return exportBundle({
+    request: {
+      oracleName: evaluation.oracleName,
+      dataType: evaluation.dataType,
+      dataValue: evaluation.dataValue,
+      sourceUrl: evaluation.sourceUrl ?? undefined,
+      referenceValues: evaluation.referenceValues ?? undefined,
+    },
+    response: {
+      requestId,
+      score: evaluation.score,
+      trustLevel: evaluation.trustLevel as TrustLevel,
+      breakdown,
+      formulaId: evaluation.formulaId,
+      formulaName: evaluation.formulaName,
+      formulaVersion: evaluation.formulaVersion,
+      formulaHash: evaluation.formulaHash,
+      explanation: evaluation.explanation,
+      aiReasoning: evaluation.aiReasoning,
+      zkVerified: evaluation.zkVerified,
+      zkMode: proof?.zkMode,
+      proofHash: evaluation.proofHash,
+      timestamp: evaluation.createdAt ? new Date(evaluation.createdAt).getTime() : 0,
+    },
+    baseScores,
+    formula,
+    attestation: (proof?.attestation as AttestationResult | undefined) ?? null,
+  });
+}
@@ -0,0 +1,296 @@
+/**
+ * OracleLens Reputation Store
+ *
+ * Persists oracle reputation versions in the oracle_reputation table
+ * (supabase/migrations/004_create_oracle_reputation.sql) and keeps the
+ * shared scoring registry in sync with it. Without Supabase the registry
+ * only holds the seed values and changes made by this process.
+ *
+ * Also derives each oracle's Bayesian reputation from its stored
+ * evaluations and confirmed disputes (oracle_disputes).
+ */
+
+import {
+  DEFAULT_REPUTATION_ENTRIES,
+  defaultReputationRegistry,
+  getBayesianReputation,
+  outcomeFromAccuracy,
+  type ReputationEntry,
+  type ReputationObservation,
+  type ReputationPosterior,
+  type ReputationInput,
+  type ReputationRegistry,
+  type ReputationStore,
+} from '@oraclelens/scoring';
+import { supabaseAdmin, EvaluationRecord, OracleDisputeRecord, OracleReputationRecord, ProofLedgerRecord } from './supabase';
+import type { EvaluateResponse } from './types';
+
+// How long a loaded registry or posterior is reused before re-reading the tables
+const REGISTRY_TTL_MS = 60_000;
+
+// Evaluations older than this no longer move reputation (decay has made them negligible)
+const REPUTATION_LOOKBACK_DAYS = 180;
+
+// Lowest proof score of a verified proof bound to the scored data (see calculateProofScore)
+const MIN_BOUND_PROOF_SCORE = 0.5;
+
+// ============================================
+// Row Mapping
+// ============================================
+
+function toRecord(entry: ReputationEntry): OracleReputationRecord {
+  return {
+    oracle_id: entry.oracleId,
+    display_name: entry.displayName,
+    reputation: entry.reputation,
+    provenance: entry.provenance,
+    effective_from: new Date(entry.effectiveFrom).toISOString(),
+    recorded_at: new Date(entry.recordedAt).toISOString(),
+    aliases: entry.aliases ?? [],
+  };
+}
+
+function fromRecord(row: OracleReputationRecord): ReputationEntry {
+  return {
+    oracleId: row.oracle_id,
+    displayName: row.display_name,
+    reputation: Number(row.reputation),
+    provenance: row.provenance,
+    effectiveFrom: new Date(row.effective_from).getTime(),
+    recordedAt: new Date(row.recorded_at).getTime(),
+    aliases: row.aliases?.length ? row.aliases : undefined,
+  };
+}
+
+// ============================================
+// Supabase Store
+// ============================================
+
+export class SupabaseReputationStore implements ReputationStore {
+  async list(): Promise<ReputationEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('oracle_reputation')
+      .select('*')
+      .order('effective_from', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load oracle reputation: ${error.message}`);
+    }
+
+    return (data as OracleReputationRecord[]).map(fromRecord);
+  }
+
+  async insert(entry: ReputationEntry): Promise<void> {
+    const { error } = await supabaseAdmin.from('oracle_reputation').insert(toRecord(entry));
+
+    if (error) {
+      throw new Error(`Failed to store oracle reputation: ${error.message}`);
+    }
+  }
+
+  async remove(oracleId: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('oracle_reputation').delete().eq('oracle_id', oracleId);
+
+    if (error) {
+      throw new Error(`Failed to delete oracle reputation: ${error.message}`);
+    }
+  }
+}
+
+// ============================================
+// Registry Sync
+// ============================================
+
+let store: ReputationStore | null | undefined;
+let loadedAt = 0;
+
+function getReputationStore(): ReputationStore | null {
+  if (store === undefined) {
+    store = process.env.SUPABASE_SERVICE_ROLE_KEY ? new SupabaseReputationStore() : null;
+  }
+  return store;
+}
+
+/**
+ * Shared registry with the stored versions loaded on top of the seed values.
+ * Reloads at most once per REGISTRY_TTL_MS (or always with force).
+ */
+export async function getReputationRegistry(force = false): Promise<ReputationRegistry> {
+  const reputationStore = getReputationStore();
+
+  if (reputationStore && (force || Date.now() - loadedAt > REGISTRY_TTL_MS)) {
+    const stored = await reputationStore.list();
+    defaultReputationRegistry.replaceAll([...DEFAULT_REPUTATION_ENTRIES, ...stored]);
+    loadedAt = Date.now();
+  }
+
+  return defaultReputationRegistry;
+}
+
+/**
+ * Record a new reputation version (validated by the registry) and persist it.
+ */
+export async function recordReputation(input: ReputationInput): Promise<ReputationEntry> {
+  const registry = await getReputationRegistry(true);
+  const entry = registry.upsert(input);
+
+  const reputationStore = getReputationStore();
+  if (reputationStore) {
+    try {
+      await reputationStore.insert(entry);
+    } catch (error) {
+      registry.remove(entry.oracleId);
+      await getReputationRegistry(true);
+      throw error;
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Delete every stored version of an oracle. Seed values cannot be deleted
+ * and apply again afterwards. Returns false if nothing was stored.
+ */
+export async function deleteReputation(name: string): Promise<boolean> {
+  const registry = await getReputationRegistry(true);
+  const oracleId = registry.resolveId(name);
+  if (!oracleId) return false;
+
+  const storedVersions = registry.history(oracleId).filter(entry => entry.provenance !== 'seed');
+  if (storedVersions.length === 0) return false;
+
+  const reputationStore = getReputationStore();
+  if (reputationStore) {
+    await reputationStore.remove(oracleId);
+    await getReputationRegistry(true);
+  } else {
+    registry.remove(oracleId);
+    registry.replaceAll([
+      ...registry.all(),
+      ...DEFAULT_REPUTATION_ENTRIES.filter(entry => entry.oracleId === oracleId),
+    ]);
+  }
+
+  return true;
+}
+
+// ============================================
+// Bayesian Reputation
+// ============================================
+
+/**
+ * Escape LIKE wildcards, so ilike() is a case-insensitive exact match.
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[%_\\]/g, char => `\\${char}`);
+}
+
+const posteriors = new Map<string, { posterior: ReputationPosterior; loadedAt: number }>();
+
+/**
+ * Evaluation outcomes of an oracle within the lookback window. Anyone can
+ * post evaluations, so only those backed by a verified proof bound to the
+ * data and holding its proof ledger claim count (one per proof), and only
+ * if they had references to agree with. Their outcome is that agreement
+ * (see outcomeFromAccuracy), not the trust level the reputation feeds into.
+ * An evaluation with a confirmed dispute counts once as a dispute instead.
+ */
+export async function loadReputationObservations(oracleName: string): Promise<ReputationObservation[]> {
+  const since = new Date(Date.now() - REPUTATION_LOOKBACK_DAYS * 24 * 3600 * 1000).toISOString();
+  const namePattern = escapeLikePattern(oracleName);
+
+  const { data: evaluations, error } = await supabaseAdmin
+    .from('evaluations')
+    .select('request_id, proof_hash, breakdown, reference_values, created_at')
+    .ilike('oracle_name', namePattern)
+    .eq('zk_verified', true)
+    .gte('created_at', since);
+
+  if (error) {
+    throw new Error(`Failed to load evaluation history: ${error.message}`);
+  }
+
+  const rows = (evaluations as EvaluationRecord[]).filter(row => {
+    const proof = (row.breakdown as EvaluateResponse['breakdown']).proof;
+    return proof.raw >= MIN_BOUND_PROOF_SCORE && row.reference_values && row.reference_values.length > 0;
+  });
+
+  // The ledger holds one claim per proof hash, so a proof counts at most once
+  const claimed = new Set<string>();
+  if (rows.length > 0) {
+    const { data: claims, error: ledgerError } = await supabaseAdmin
+      .from('proof_ledger')
+      .select('proof_hash, request_id')
+      .in('request_id', rows.map(row => row.request_id));
+
+    if (ledgerError) {
+      throw new Error(`Failed to load proof ledger: ${ledgerError.message}`);
+    }
+    for (const claim of claims as ProofLedgerRecord[]) {
+      claimed.add(`${claim.request_id}:${claim.proof_hash.toLowerCase()}`);
+    }
+  }
+
+  const { data: disputes, error: disputeError } = await supabaseAdmin
+    .from('oracle_disputes')
+    .select('request_id, created_at, resolved_at')
+    .ilike('oracle_name', namePattern)
+    .eq('status', 'confirmed');
+
+  if (disputeError) {
+    throw new Error(`Failed to load disputes: ${disputeError.message}`);
+  }
+
+  // One dispute per evaluation, however often it was confirmed
+  const disputed = new Map<string, OracleDisputeRecord>();
+  for (const dispute of disputes as OracleDisputeRecord[]) {
+    if (!disputed.has(dispute.request_id)) {
+      disputed.set(dispute.request_id, dispute);
+    }
+  }
+
+  const outcomes: ReputationObservation[] = rows
+    .filter(row => !disputed.has(row.request_id) && claimed.has(`${row.request_id}:${row.proof_hash.toLowerCase()}`))
+    .map(row => ({
+      outcome: outcomeFromAccuracy((row.breakdown as EvaluateResponse['breakdown']).accuracy.raw),
+      timestamp: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+    }));
+
+  for (const dispute of disputed.values()) {
+    const confirmedAt = dispute.resolved_at ?? dispute.created_at;
+    outcomes.push({
+      outcome: 'dispute',
+      timestamp: confirmedAt ? new Date(confirmedAt).getTime() : Date.now(),
+    });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Evidence-based reputation of an oracle, with its registry value as prior.
+ * Undefined without Supabase (scoring then uses the registry value).
+ */
+export async function getReputationPosterior(oracleName: string): Promise<ReputationPosterior | undefined> {
+  if (!getReputationStore()) return undefined;
+
+  const registry = await getReputationRegistry();
+  const key = registry.resolveId(oracleName) ?? oracleName.trim().toLowerCase();
+  const cached = posteriors.get(key);
+  if (cached && Date.now() - cached.loadedAt <= REGISTRY_TTL_MS) {
+    return cached.posterior;
+  }
+
+  const observations = await loadReputationObservations(oracleName);
+  const posterior = getBayesianReputation(oracleName, observations, {}, registry);
+  posteriors.set(key, { posterior, loadedAt: Date.now() });
+  return posterior;
+}
+
+/**
+ * Forget cached posteriors (e.g. after a dispute is resolved).
+ */
+export function invalidateReputationPosteriors(): void {
+  posteriors.clear();
+}
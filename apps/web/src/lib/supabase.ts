@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Formula } from '@oraclelens/scoring';
+import type { ReferenceValue } from './types';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
@@ -18,15 +20,81 @@ export interface EvaluationRecord {
   data_type: string;
   data_value: Record<string, unknown>;
   source_url?: string;
-  reference_values?: number[];
+  reference_values?: ReferenceValue[];
   score: number;
   trust_level: string;
   breakdown: Record<string, unknown>;
   formula_id: string;
   formula_name: string;
+  formula_version?: number | null;
+  formula_hash?: string | null;
   explanation: string;
   ai_reasoning: string;
   zk_verified: boolean;
   proof_hash: string;
   created_at?: string;
 }
+
+export interface ZkProofRecord {
+  id?: string;
+  request_id: string;
+  proof_hash: string;
+  zk_mode: 'real' | 'mock' | 'client';
+  proof_data: Record<string, unknown>;
+  attestors: Record<string, unknown>[];
+  verified: boolean;
+  verification_timestamp?: string | null;
+  verified_domain?: string | null;
+  verified_endpoint?: string | null;
+  created_at?: string;
+}
+
+export interface ProofLedgerRecord {
+  proof_hash: string;
+  request_id: string;
+  recipient?: string | null;
+  attestation_timestamp?: number | null;
+  data_hash: string;
+  recorded_at: string;
+}
+
+export interface OracleReputationRecord {
+  id?: string;
+  oracle_id: string;
+  display_name: string;
+  reputation: number;
+  provenance: string;
+  effective_from: string;
+  recorded_at: string;
+  aliases: string[];
+}
+
+export interface FormulaRecord {
+  id?: string;
+  formula_id: string;
+  version: number;
+  content_hash: string;
+  definition: Formula;
+  provenance: string;
+  registered_at: string;
+  deprecated_at?: string | null;
+  deprecation_reason?: string | null;
+}
+
+export interface OracleDisputeRecord {
+  id?: string;
+  request_id: string;
+  oracle_name: string;
+  reason: string;
+  status: 'open' | 'confirmed' | 'rejected';
+  created_at?: string;
+  resolved_at?: string | null;
+}
+
+export interface OracleLivenessRecord {
+  id?: string;
+  feed_id: string;
+  observed_at: string;
+  source: 'evaluation' | 'poll';
+  created_at?: string;
+}
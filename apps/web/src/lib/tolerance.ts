@@ -0,0 +1,72 @@
+/**
+ * OracleLens Tolerance Resolution
+ *
+ * Picks the accuracy tolerance for a feed from the scoring tolerance
+ * profiles. Volatility profiles measure realized volatility from the values
+ * this feed reported in earlier evaluations; without Supabase there is no
+ * history and the profile's static tolerance applies.
+ */
+
+import {
+  findToleranceProfile,
+  resolveAssetSymbol,
+  resolvePrimaryValue,
+  resolveTolerance,
+  type ToleranceContext,
+  type ToleranceResolution,
+  type ValueSample,
+} from '@oraclelens/scoring';
+import { supabaseAdmin, EvaluationRecord } from './supabase';
+import { escapeLikePattern } from './reputation';
+
+// Volatility window when a profile does not set one
+const DEFAULT_HISTORY_SECONDS = 24 * 3600;
+
+/**
+ * Values this oracle reported for the data type (and asset, if known) since `since`.
+ */
+export async function loadValueHistory(
+  oracleName: string,
+  dataType: string,
+  asset: string | undefined,
+  since: number
+): Promise<ValueSample[]> {
+  const { data, error } = await supabaseAdmin
+    .from('evaluations')
+    .select('data_value, created_at')
+    .ilike('oracle_name', escapeLikePattern(oracleName))
+    .eq('data_type', dataType)
+    .gte('created_at', new Date(since).toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load value history: ${error.message}`);
+  }
+
+  return (data as Pick<EvaluationRecord, 'data_value' | 'created_at'>[]).flatMap(row => {
+    if (!row.created_at || (asset && resolveAssetSymbol(row.data_value) !== asset)) return [];
+    const primary = resolvePrimaryValue(row.data_value);
+    return primary ? [{ value: primary.value, timestamp: new Date(row.created_at).getTime() }] : [];
+  });
+}
+
+/**
+ * Tolerance for an evaluation, from the profile matching its feed, asset or data type.
+ */
+export async function getFeedTolerance(
+  oracleName: string,
+  dataType: string,
+  dataValue: Record<string, unknown>,
+  feedId: string,
+  now: number
+): Promise<ToleranceResolution> {
+  const context: ToleranceContext = { feedId, asset: resolveAssetSymbol(dataValue), dataType, now };
+  const { profile } = findToleranceProfile(context);
+
+  if (profile.volatility && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    const since = now - (profile.volatility.windowSeconds ?? DEFAULT_HISTORY_SECONDS) * 1000;
+    context.history = await loadValueHistory(oracleName, dataType, context.asset, since);
+  }
+
+  return resolveTolerance(context);
+}
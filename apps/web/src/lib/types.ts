@@ -3,30 +3,93 @@
  * Types used across frontend and API
  */
 
+import type {
+  BaseScores,
+  ConsensusResult,
+  CounterfactualResult,
+  DomainCheckResult,
+  Formula,
+  LivenessSample,
+  ReferenceAccuracyResult,
+  ReputationPosterior,
+  SourcedReference,
+  StructuredAccuracyResult,
+  TimestampResolution,
+  ToleranceResolution,
+  TrustLevel,
+  UptimeResult,
+} from '@oraclelens/scoring';
+import type {
+  AttestorInfo,
+  ConditionEvaluationResult,
+  DataBindingResult,
+  ProofLedgerEntry,
+  ReplayCheckResult,
+} from '@oraclelens/zk';
+
 // ============================================
 // API Request/Response Types
 // ============================================
 
-// Client-side zkTLS verification result from browser extension
+// Raw Primus attestation as returned by the browser extension.
+// Note: the SDK spells the response field `reponseResolve`.
+export interface ClientAttestation {
+  recipient: string;
+  request: {
+    url: string;
+    header: string;
+    method: string;
+    body: string;
+  };
+  reponseResolve?: Array<{
+    keyName: string;
+    parseType: string;
+    parsePath: string;
+  }>;
+  data: string;
+  attConditions: string;
+  timestamp: number;
+  additionParams: string;
+  attestors?: unknown[];
+  signatures: string[];
+  [key: string]: unknown;
+}
+
+// Client-side zkTLS verification result from browser extension.
+// `verified` and `proofHash` are only claims - the server re-verifies the attestation.
 export interface ClientZkTlsResult {
   verified: boolean;
   proofHash: string;
   mode: 'real' | 'extension_not_found';
-  attestation?: {
-    recipient: string;
-    data: string;
-    timestamp: number;
-    signatures: string[];
-    [key: string]: unknown;
-  };
+  attestation?: ClientAttestation;
 }
 
+// Full attestation behind an evaluation, persisted in zk_proofs
+export interface StoredZkProof {
+  requestId: string;
+  proofHash: string;
+  zkMode: 'real' | 'mock' | 'client';
+  attestation: Record<string, unknown>;
+  attestors: AttestorInfo[];
+  verified: boolean;
+  verificationTimestamp: number; // ms
+  verifiedDomain?: string;
+  verifiedEndpoint?: string;
+}
+
+// A reference from another source: a number, a discrete outcome, or an object shaped like dataValue
+export type ReferenceScalar = number | string | boolean | Record<string, unknown>;
+
+// Either a bare reference, or one with its provenance ({ source, value, timestamp, weight?, proofHash? })
+export type ReferenceValue = ReferenceScalar | SourcedReference<ReferenceScalar>;
+
 export interface EvaluateRequest {
   oracleName: string;
   dataType: string;
   dataValue: Record<string, unknown>;
   sourceUrl?: string;
-  referenceValues?: number[];
+  referenceValues?: ReferenceValue[];
+  formulaId?: string; // Registered formula to score with (e.g. a team's derived formula) instead of selecting one
   // Optional: Frontend zkTLS verification result (from browser extension)
   clientZkTls?: ClientZkTlsResult;
 }
@@ -37,28 +100,48 @@ export interface EvaluateResponse {
 
   // Scoring results
   score: number;
-  trustLevel: 'high' | 'medium' | 'low' | 'untrusted';
+  trustLevel: TrustLevel; // From the formula's trust bands
 
   // Score breakdown
   breakdown: {
-    source: { raw: number; weighted: number };
-    time: { raw: number; weighted: number };
-    accuracy: { raw: number; weighted: number };
-    proof: { raw: number; weighted: number };
+    source: { raw: number; weighted: number; note?: string };
+    time: { raw: number; weighted: number; note?: string };
+    accuracy: { raw: number; weighted: number; note?: string };
+    proof: { raw: number; weighted: number; note?: string };
   };
 
   // Formula info
   formulaId: string;
   formulaName: string;
+  formulaVersion?: number; // Registry version of the formula
+  formulaHash?: string; // Content hash of the formula definition, stored with the evaluation
+  formula?: Formula; // Definition and weights used, for proof bundles
+  baseScores?: BaseScores; // S, T, A, P fed into the formula
 
   // Explanations
   explanation: string;
+  counterfactual?: CounterfactualResult; // Smallest single-factor changes that reach the next trust band
   aiReasoning: string;
 
   // zkTLS info
   zkVerified: boolean;
   proofHash: string;
   zkMode?: 'real' | 'mock' | 'client'; // client = browser extension verified
+  zkReason?: string; // Why a client-submitted proof was rejected or downgraded
+  dataBinding?: DataBindingResult; // Attested fields vs submitted dataValue
+  conditions?: ConditionEvaluationResult; // attConditions evaluated against the attested data
+  replayCheck?: ReplayCheckResult; // Proof ledger verdict for client proofs
+  ledgerEntry?: ProofLedgerEntry; // Proof ledger claim held by this evaluation
+  domainCheck?: DomainCheckResult; // Attested host vs declared source and domain policy
+  zkProof?: StoredZkProof; // Full attestation, stored in zk_proofs with the evaluation
+  reputation?: ReputationPosterior; // Evidence-based oracle reputation behind the source score
+  uptime?: UptimeResult; // Rolling feed uptime behind the source score
+  accuracyBreakdown?: StructuredAccuracyResult; // Per-field accuracy for structured reference values
+  referenceCheck?: ReferenceAccuracyResult; // Per-reference weights, staleness and outliers for numeric references
+  tolerance?: ToleranceResolution; // Tolerance profile (static or volatility-based) behind the accuracy score
+  consensus?: ConsensusResult; // Agreement of other sources on a discrete outcome (status, result, ...)
+  timestampCheck?: TimestampResolution; // Where the data's timestamp was found and its unit, or why there is none
+  livenessSample?: LivenessSample; // Proof-backed sighting, recorded in the liveness store once the evaluation is stored
 
   // On-chain submission result
   onChain?: {
@@ -90,7 +173,11 @@ export const MOCK_ORACLE_DATA = {
       timestamp: Date.now() - 30000, // 30 seconds ago
     },
     sourceUrl: 'https://data.chain.link/ethereum/mainnet/crypto-usd/eth-usd',
-    referenceValues: [2532.50, 2535.20, 2534.10],
+    referenceValues: [
+      { source: 'Pyth', value: 2532.50, timestamp: Date.now() - 20000 },
+      { source: 'API3', value: 2535.20, timestamp: Date.now() - 45000 },
+      { source: 'DIA', value: 2534.10, timestamp: Date.now() - 90000 },
+    ],
   },
 
   pyth_btc_usd: {
@@ -104,7 +191,11 @@ export const MOCK_ORACLE_DATA = {
       timestamp: Date.now() - 60000,
     },
     sourceUrl: 'https://www.chiangmai.go.th/subsidy',
-    referenceValues: [5000, 5000, 5000],
+    referenceValues: [
+      { status: 'approved', amount: 5000 },
+      { status: 'approved', amount: 5000 },
+      { status: 'pending', amount: 5000 },
+    ],
   },
 
   weather_nyc: {
@@ -113,11 +204,18 @@ export const MOCK_ORACLE_DATA = {
     dataValue: {
       location: 'New York, NY',
       temperature: 42,
+      humidity: 65,
+      windSpeed: 12,
+      pressure: 1016,
       unit: 'fahrenheit',
       condition: 'cloudy',
     },
     sourceUrl: 'https://api.weatherapi.com/v1/current.json',
-    referenceValues: [41, 43, 42],
+    referenceValues: [
+      { temperature: 41, humidity: 63, windSpeed: 11, pressure: 1015 },
+      { temperature: 43, humidity: 66, windSpeed: 13, pressure: 1017 },
+      { temperature: 42, humidity: 64, windSpeed: 12, pressure: 1016 },
+    ],
   },
 
   suspicious_unknown: {
@@ -11,6 +11,8 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+// Browser-safe entry: only depends on ethers
+import { computeProofHash } from '@oraclelens/zk/src/proofHash';
 
 // Primus SDK types
 interface Attestation {
@@ -179,20 +181,8 @@ export function useZkTls(): UseZkTlsReturn {
       const verified = sdk.verifyAttestation(attestation);
       console.log('[zkTLS Client] Verification result:', verified);
 
-      // Generate proof hash
-      const proofData = JSON.stringify({
-        recipient: attestation.recipient,
-        data: attestation.data,
-        timestamp: attestation.timestamp,
-        signatures: attestation.signatures,
-      });
-
-      // Use Web Crypto API for hashing
-      const encoder = new TextEncoder();
-      const data = encoder.encode(proofData);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const proofHash = '0x' + hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+      // Canonical proof hash - the server and the contract compute the same bytes32
+      const proofHash = computeProofHash(attestation);
 
       setIsLoading(false);
 
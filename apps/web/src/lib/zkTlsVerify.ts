@@ -8,9 +8,28 @@
  * - PRIMUS_APP_ID: Application ID from Primus Developer Hub
  * - PRIMUS_APP_SECRET: Application secret
  * - PRIMUS_TEMPLATE_ID: Default template ID for attestations
+ * - PRIMUS_ATTESTOR_ADDRESSES: Comma-separated allowlist of attestor signer addresses
+ *   (defaults to the Primus production attestor)
  */
 
 import { createHash } from 'crypto';
+import {
+  bindAttestedData,
+  checkProofReplay,
+  createLedgerEntry,
+  evaluateAttConditions,
+  generateProofHash,
+  verifyAttestationSignatures,
+  PRIMUS_ATTESTOR_ADDRESSES,
+  type AttestationResult,
+  type AttestorInfo,
+  type ConditionEvaluationResult,
+  type DataBindingResult,
+  type ProofLedgerEntry,
+  type ReplayCheckResult,
+} from '@oraclelens/zk';
+import { ClientAttestation, ClientZkTlsResult } from './types';
+import { getProofLedger, MAX_ATTESTATION_AGE_SECONDS } from './proofLedger';
 
 // ============================================
 // Types
@@ -21,6 +40,7 @@ interface ZkVerificationResult {
   verified: boolean;
   proofHash: string;
   verifiedDomain?: string;
+  verifiedEndpoint?: string;
   timestamp: number;
   mode: 'real' | 'mock';
   error?: string;
@@ -35,6 +55,16 @@ interface OracleDataForVerification {
   dataValue: Record<string, unknown>;
 }
 
+interface ClientAttestationCheck {
+  verified: boolean;
+  proofHash: string;
+  verifiedDomain?: string;
+  signer?: string;
+  dataBinding?: DataBindingResult;
+  conditions?: ConditionEvaluationResult;
+  reason?: string;
+}
+
 // ============================================
 // Primus SDK Integration
 // ============================================
@@ -120,14 +150,7 @@ async function realPrimusVerification(
     console.log('[zkTLS] Verification result:', verifyResult);
 
     // Generate proof hash from attestation data
-    const proofHash = '0x' + createHash('sha256')
-      .update(JSON.stringify({
-        recipient: attestation.recipient,
-        data: attestation.data,
-        timestamp: attestation.timestamp,
-        signatures: attestation.signatures,
-      }))
-      .digest('hex');
+    const proofHash = generateProofHash(attestation);
 
     // Extract domain from attestation
     let verifiedDomain: string | undefined;
@@ -145,6 +168,7 @@ async function realPrimusVerification(
       verified: verifyResult === true,
       proofHash,
       verifiedDomain,
+      verifiedEndpoint: attestation.request?.url,
       timestamp,
       mode: 'real',
       attestation: attestation as Record<string, unknown>,
@@ -170,6 +194,140 @@ async function realPrimusVerification(
   }
 }
 
+// ============================================
+// Client Attestation Re-verification
+// ============================================
+
+/**
+ * Attestor signer addresses accepted for client and bundled attestations.
+ */
+export function getTrustedAttestors(): string[] {
+  const configured = process.env.PRIMUS_ATTESTOR_ADDRESSES;
+  const addresses = configured
+    ? configured.split(',').map(a => a.trim()).filter(Boolean)
+    : [PRIMUS_ATTESTOR_ADDRESSES.production];
+  return addresses.map(a => a.toLowerCase());
+}
+
+/**
+ * Map the browser attestation onto the @oraclelens/zk shape (same wire format).
+ */
+function toAttestationResult(attestation: ClientAttestation): AttestationResult {
+  return {
+    ...attestation,
+    responseResolve: attestation.reponseResolve ?? [],
+    attestors: (attestation.attestors ?? []) as AttestorInfo[],
+  };
+}
+
+/**
+ * Re-verify a zkTLS result submitted by the browser.
+ * The client's `verified` flag and `proofHash` are never trusted: the proof hash is
+ * recomputed from the attestation and the signature must recover to an allowlisted attestor.
+ * The attConditions are then evaluated (hashed fields and threshold outcomes
+ * checked against the claimed values) and the attested fields bound to the
+ * claimed data value, fields covered by a satisfied condition through it.
+ */
+export function verifyClientAttestation(
+  clientZkTls: ClientZkTlsResult,
+  claimedData: Record<string, unknown>
+): ClientAttestationCheck {
+  const attestation = clientZkTls.attestation;
+
+  if (!attestation) {
+    return {
+      verified: false,
+      proofHash: '',
+      reason: 'Client reported a zkTLS result without the attestation - nothing to verify',
+    };
+  }
+
+  let proofHash: string;
+  try {
+    proofHash = generateProofHash(toAttestationResult(attestation));
+  } catch (error) {
+    return {
+      verified: false,
+      proofHash: '',
+      reason: `Malformed attestation: ${error instanceof Error ? error.message : 'cannot encode proof hash'}`,
+    };
+  }
+
+  let verifiedDomain: string | undefined;
+  try {
+    verifiedDomain = new URL(attestation.request.url).hostname;
+  } catch { /* ignore */ }
+
+  if (clientZkTls.proofHash && clientZkTls.proofHash.toLowerCase() !== proofHash.toLowerCase()) {
+    return {
+      verified: false,
+      proofHash,
+      verifiedDomain,
+      reason: `Proof hash mismatch: client sent ${clientZkTls.proofHash}, attestation hashes to ${proofHash}`,
+    };
+  }
+
+  const signatureCheck = verifyAttestationSignatures(toAttestationResult(attestation), {
+    trustedAttestors: getTrustedAttestors(),
+    requireListedAttestor: false,
+  });
+
+  if (!signatureCheck.valid) {
+    const recovered = signatureCheck.signatures
+      .map(check => check.recoveredAddress ?? 'invalid signature')
+      .join(', ');
+    return {
+      verified: false,
+      proofHash,
+      verifiedDomain,
+      reason: signatureCheck.signatures.length > 0
+        ? `${signatureCheck.error} (recovered: ${recovered})`
+        : signatureCheck.error,
+    };
+  }
+
+  const signer = signatureCheck.signatures.find(check => check.valid)?.recoveredAddress ?? undefined;
+  const conditions = evaluateAttConditions(toAttestationResult(attestation), { revealedValues: claimedData });
+  const dataBinding = bindAttestedData(toAttestationResult(attestation), claimedData, { conditions });
+
+  let reason: string | undefined;
+  if (!dataBinding.bound) {
+    reason = `Attested data does not match the submitted value: ${dataBinding.reason}`;
+  } else if (!conditions.satisfied) {
+    reason = `Attestation conditions do not hold: ${conditions.error}`;
+  }
+
+  return {
+    verified: true,
+    proofHash,
+    verifiedDomain,
+    signer,
+    dataBinding,
+    conditions,
+    reason,
+  };
+}
+
+/**
+ * Check a verified client proof against the proof ledger, claiming it for
+ * this evaluation if it is new. Returns the ledger entry this evaluation holds.
+ */
+export async function checkClientProofReplay(
+  clientZkTls: ClientZkTlsResult,
+  proofHash: string,
+  requestId: string,
+  claimedData: Record<string, unknown>
+): Promise<{ replayCheck: ReplayCheckResult; ledgerEntry?: ProofLedgerEntry }> {
+  const attestation = toAttestationResult(clientZkTls.attestation!);
+  const ledgerEntry = createLedgerEntry(proofHash, requestId, attestation, claimedData);
+
+  const replayCheck = await checkProofReplay(getProofLedger(), ledgerEntry, attestation, {
+    maxAttestationAgeSeconds: MAX_ATTESTATION_AGE_SECONDS,
+  });
+
+  return { replayCheck, ledgerEntry: replayCheck.status === 'new' ? ledgerEntry : undefined };
+}
+
 // ============================================
 // Mock Verification (used when no credentials or browser not available)
 // ============================================
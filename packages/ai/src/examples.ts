@@ -12,6 +12,7 @@ import {
   applyWeightAdjustments,
   OracleDataContext,
 } from './index';
+import { getFormulaById } from '@oraclelens/scoring';
 
 // ============================================
 // Test Helpers
@@ -211,6 +212,8 @@ async function testCustomFormulaGeneration() {
   const fSum = financialFormula.weights.source + financialFormula.weights.time +
                financialFormula.weights.accuracy + financialFormula.weights.proof;
   assert(Math.abs(fSum - 1.0) < 0.01, `Weights should sum to 1.0 (got ${fSum})`);
+  assert(getFormulaById(financialFormula.id)?.version === financialFormula.version, 'Generated formulas should be registered');
+  assert(/^[0-9a-f]{64}$/.test(financialFormula.contentHash), 'Generated formulas should carry a content hash');
 
   console.log('Financial Formula Generated:');
   console.log(`  ID: ${financialFormula.id}`);
@@ -6,8 +6,12 @@
  *
  * IMPORTANT: Generated formulas still use the same S, T, A, P factors.
  * AI only determines the WEIGHTS, not the scoring logic itself.
+ *
+ * Generated formulas are registered in the formula registry, so they can be
+ * looked up by ID and scored like the built-ins.
  */
 
+import { defaultFormulaRegistry, FormulaRegistry } from '@oraclelens/scoring';
 import { OracleDataContext, GeneratedFormula } from './types';
 
 // ============================================
@@ -136,11 +140,13 @@ function analyzeContext(context: OracleDataContext, reason: string): {
 // ============================================
 
 /**
- * Generate a custom formula based on context and user-provided reason.
+ * Generate a custom formula based on context and user-provided reason,
+ * and register it (provenance "ai-generated").
  */
 export async function generateCustomFormula(
   context: OracleDataContext,
-  reason: string
+  reason: string,
+  registry: FormulaRegistry = defaultFormulaRegistry
 ): Promise<GeneratedFormula> {
   // Analyze context
   const { template, adjustments, analysisNotes } = analyzeContext(context, reason);
@@ -204,6 +210,15 @@ export async function generateCustomFormula(
     reason
   );
 
+  const registered = registry.register({
+    id,
+    name,
+    description,
+    weights,
+    minAcceptableScore,
+    applicableDataTypes: [context.dataType.toLowerCase()],
+  }, 'ai-generated');
+
   return {
     id,
     name,
@@ -212,6 +227,8 @@ export async function generateCustomFormula(
     minAcceptableScore,
     reasoning,
     applicableDataTypes: [context.dataType],
+    version: registered.version,
+    contentHash: registered.contentHash,
   };
 }
 
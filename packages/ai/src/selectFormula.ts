@@ -17,6 +17,7 @@ import {
   AIProvider,
 } from './types';
 import { generateCustomFormula } from './generateFormula';
+import { defaultReputationRegistry, ReputationRegistry } from '@oraclelens/scoring';
 
 // ============================================
 // Formula Selection Logic
@@ -64,17 +65,6 @@ const DATA_TYPE_PATTERNS: Array<{
   },
 ];
 
-/**
- * Oracle reputation database for trust adjustments.
- */
-const ORACLE_TRUST_LEVELS: Record<string, 'high' | 'medium' | 'low'> = {
-  chainlink: 'high',
-  pyth: 'high',
-  api3: 'medium',
-  band: 'medium',
-  dia: 'medium',
-};
-
 // ============================================
 // Mock AI Provider
 // ============================================
@@ -87,6 +77,9 @@ const ORACLE_TRUST_LEVELS: Record<string, 'high' | 'medium' | 'low'> = {
 export class MockAIProvider implements AIProvider {
   name = 'MockAI';
 
+  // Oracle trust tiers come from the shared reputation registry
+  constructor(private registry: ReputationRegistry = defaultReputationRegistry) {}
+
   async selectFormula(context: OracleDataContext): Promise<FormulaSelectionResult> {
     // Step 1: Find matching formula based on data type
     const match = this.findMatchingFormula(context.dataType);
@@ -152,7 +145,7 @@ export class MockAIProvider implements AIProvider {
     let confidenceScore = match.baseConfidence === 'high' ? 3 : 2;
 
     // Boost confidence if oracle is known and trusted
-    const oracleTrust = ORACLE_TRUST_LEVELS[context.oracleName.toLowerCase()];
+    const oracleTrust = this.registry.getTier(context.oracleName);
     if (oracleTrust === 'high') confidenceScore += 1;
     if (oracleTrust === 'low') confidenceScore -= 1;
 
@@ -199,7 +192,7 @@ export class MockAIProvider implements AIProvider {
     }
 
     // If oracle is unknown, increase source weight for more scrutiny
-    if (!ORACLE_TRUST_LEVELS[context.oracleName.toLowerCase()]) {
+    if (!this.registry.getTier(context.oracleName)) {
       adjustments.source = 0.05;
       reasons.push('Unknown oracle - increased source weight for scrutiny');
     }
@@ -241,7 +234,7 @@ export class MockAIProvider implements AIProvider {
     parts.push(`Reason: ${match.description}`);
 
     // Explain oracle context
-    const oracleTrust = ORACLE_TRUST_LEVELS[context.oracleName.toLowerCase()];
+    const oracleTrust = this.registry.getTier(context.oracleName);
     if (oracleTrust) {
       parts.push(`Oracle "${context.oracleName}" has ${oracleTrust} trust level in our database.`);
     } else {
@@ -288,38 +281,6 @@ export async function selectFormulaWithAI(
 // Utility: Apply Weight Adjustments
 // ============================================
 
-/**
- * Apply AI-suggested weight adjustments to base weights.
- * Ensures weights still sum to 1.0 after adjustments.
- */
-export function applyWeightAdjustments(
-  baseWeights: { source: number; time: number; accuracy: number; proof: number },
-  adjustments?: { source?: number; time?: number; accuracy?: number; proof?: number }
-): { source: number; time: number; accuracy: number; proof: number } {
-  if (!adjustments) return baseWeights;
-
-  // Apply adjustments
-  let adjusted = {
-    source: baseWeights.source + (adjustments.source ?? 0),
-    time: baseWeights.time + (adjustments.time ?? 0),
-    accuracy: baseWeights.accuracy + (adjustments.accuracy ?? 0),
-    proof: baseWeights.proof + (adjustments.proof ?? 0),
-  };
-
-  // Clamp individual weights to [0.05, 0.7]
-  adjusted = {
-    source: Math.max(0.05, Math.min(0.7, adjusted.source)),
-    time: Math.max(0.05, Math.min(0.7, adjusted.time)),
-    accuracy: Math.max(0.05, Math.min(0.7, adjusted.accuracy)),
-    proof: Math.max(0.05, Math.min(0.7, adjusted.proof)),
-  };
-
-  // Normalize to sum to 1.0
-  const sum = adjusted.source + adjusted.time + adjusted.accuracy + adjusted.proof;
-  return {
-    source: adjusted.source / sum,
-    time: adjusted.time / sum,
-    accuracy: adjusted.accuracy / sum,
-    proof: adjusted.proof / sum,
-  };
-}
+// Applies AI-suggested adjustments and renormalizes to 1.0; lives in
+// @oraclelens/scoring, where formula composition uses it too
+export { applyWeightAdjustments } from '@oraclelens/scoring';
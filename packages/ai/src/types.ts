@@ -90,6 +90,10 @@ export interface GeneratedFormula {
 
   // Applicable types
   applicableDataTypes: string[];
+
+  // Registration in the formula registry
+  version: number;
+  contentHash: string;
 }
 
 // ============================================
@@ -10,6 +10,12 @@
  * All scores are normalized to [0, 1]
  */
 
+import { checkDomainPolicy, DomainCheckResult } from './domainPolicy';
+import { defaultReputationRegistry, ReputationRegistry } from './reputation';
+import type { ReputationPosterior } from './bayesianReputation';
+import { calculateReferenceAccuracy, ReferenceAccuracyInput } from './referenceAccuracy';
+import { DecayCurve, DecayModel, scoreFreshness, UNKNOWN_TIMESTAMP_SCORE } from './freshness';
+
 // ============================================
 // Types
 // ============================================
@@ -19,53 +25,45 @@ export interface SourceInput {
   hasApiDocumentation: boolean;
   isRegulated: boolean;
   historicalUptime?: number; // 0-100 percentage
+  reputation?: Pick<ReputationPosterior, 'mean'>; // Evidence-based reputation (replaces the registry value)
 }
 
 export interface TimeInput {
-  reportedTimestamp: number; // Unix timestamp (seconds)
+  reportedTimestamp: number | null; // Unix timestamp (seconds), null if the data has none (see resolveTimestamp)
   currentTimestamp: number;  // Unix timestamp (seconds)
   maxAcceptableAgeSeconds: number;
+  decay?: DecayModel | DecayCurve; // Default 'exponential'
+  heartbeatSeconds?: number;       // Feed update interval, for the 'heartbeat' model
+  clockSkewSeconds?: number;       // Future timestamps tolerated as clock drift (default 5)
 }
 
-export interface AccuracyInput {
-  primaryValue: number;
-  referenceValues: number[]; // Values from other sources
-  tolerancePercent: number;  // e.g., 1 means 1% tolerance
-}
+export type AccuracyInput = ReferenceAccuracyInput;
 
 export interface ProofInput {
   hasZkProof: boolean;
   proofVerified: boolean;
   proofDomain?: string;
+  domainCheck?: DomainCheckResult; // Domain policy result (computed from proofDomain if omitted)
+  dataBound?: boolean; // Attested data matches the scored value (undefined = not checked)
 }
 
-// ============================================
-// Known Oracle Reputation Database (Mocked)
-// ============================================
-
-const ORACLE_REPUTATION: Record<string, number> = {
-  'chainlink': 0.95,
-  'pyth': 0.90,
-  'api3': 0.85,
-  'band': 0.80,
-  'dia': 0.75,
-  'unknown': 0.50,
-};
-
 // ============================================
 // S - Source Reliability Score
 // ============================================
 
 /**
  * Calculates source reliability based on:
- * - Known oracle reputation
+ * - Oracle reputation: the Bayesian posterior mean if given, else the registry
+ *   value (unknown oracles get UNKNOWN_REPUTATION)
  * - API documentation availability
  * - Regulatory compliance
  * - Historical uptime
  */
-export function calculateSourceScore(input: SourceInput): number {
-  const oracleKey = input.oracleName.toLowerCase();
-  const baseReputation = ORACLE_REPUTATION[oracleKey] ?? ORACLE_REPUTATION['unknown'];
+export function calculateSourceScore(
+  input: SourceInput,
+  registry: ReputationRegistry = defaultReputationRegistry
+): number {
+  const baseReputation = input.reputation?.mean ?? registry.getReputation(input.oracleName);
 
   let score = baseReputation;
 
@@ -94,32 +92,26 @@ export function calculateSourceScore(input: SourceInput): number {
 // ============================================
 
 /**
- * Calculates time freshness using exponential decay.
+ * Calculates time freshness with a decay model (see freshness.ts).
  * Score = 1.0 when data is fresh, decays towards 0 as it ages.
  *
- * Formula: e^(-age / halfLife)
- * where halfLife = maxAcceptableAge / 2
+ * Default (exponential): e^(-age / halfLife) where halfLife = maxAcceptableAge / 2,
+ * with a linear tail beyond maxAcceptableAge.
  */
 export function calculateTimeScore(input: TimeInput): number {
-  const ageSeconds = input.currentTimestamp - input.reportedTimestamp;
-
-  // Future timestamps are suspicious
-  if (ageSeconds < 0) {
-    return 0.5; // Penalize but don't fully reject
+  // Without a timestamp the data could be any age
+  if (input.reportedTimestamp === null) {
+    return UNKNOWN_TIMESTAMP_SCORE;
   }
 
-  // Data older than max acceptable age
-  if (ageSeconds > input.maxAcceptableAgeSeconds) {
-    // Gradual decay instead of cliff
-    const overageRatio = ageSeconds / input.maxAcceptableAgeSeconds;
-    return Math.max(0, 1 - (overageRatio - 1) * 0.5);
-  }
-
-  // Exponential decay within acceptable range
-  const halfLife = input.maxAcceptableAgeSeconds / 2;
-  const score = Math.exp(-ageSeconds / halfLife);
+  const ageSeconds = input.currentTimestamp - input.reportedTimestamp;
 
-  return Math.max(0, Math.min(1, score));
+  return scoreFreshness(
+    ageSeconds,
+    { maxAcceptableAgeSeconds: input.maxAcceptableAgeSeconds, heartbeatSeconds: input.heartbeatSeconds },
+    input.decay,
+    input.clockSkewSeconds
+  );
 }
 
 // ============================================
@@ -128,36 +120,15 @@ export function calculateTimeScore(input: TimeInput): number {
 
 /**
  * Calculates how consistent the primary value is with reference values.
- * Uses median absolute deviation for robustness against outliers.
+ * References are weighted by source reputation, their own weight and age,
+ * and outliers are left out of the (weighted) median.
+ * See calculateReferenceAccuracy for the per-reference breakdown.
  */
-export function calculateAccuracyScore(input: AccuracyInput): number {
-  if (input.referenceValues.length === 0) {
-    // No references to compare - neutral score
-    return 0.7;
-  }
-
-  const { primaryValue, referenceValues, tolerancePercent } = input;
-
-  // Calculate median of reference values
-  const sorted = [...referenceValues].sort((a, b) => a - b);
-  const median = sorted.length % 2 === 0
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-    : sorted[Math.floor(sorted.length / 2)];
-
-  // Calculate deviation from median as percentage
-  const deviationPercent = Math.abs((primaryValue - median) / median) * 100;
-
-  // Score based on how within tolerance the value is
-  if (deviationPercent <= tolerancePercent) {
-    // Within tolerance - high score
-    return 1.0 - (deviationPercent / tolerancePercent) * 0.1;
-  }
-
-  // Outside tolerance - score drops rapidly
-  const excessDeviation = deviationPercent - tolerancePercent;
-  const score = 0.9 * Math.exp(-excessDeviation / tolerancePercent);
-
-  return Math.max(0, Math.min(1, score));
+export function calculateAccuracyScore(
+  input: AccuracyInput,
+  registry: ReputationRegistry = defaultReputationRegistry
+): number {
+  return calculateReferenceAccuracy(input, registry).score;
 }
 
 // ============================================
@@ -179,21 +150,26 @@ export function calculateProofScore(input: ProofInput): number {
     return 0.1;
   }
 
-  // Proof verified successfully
-  // Bonus if domain is a known trusted source
-  const trustedDomains = [
-    'api.coingecko.com',
-    'api.coinmarketcap.com',
-    'api.binance.com',
-    'api.kraken.com',
-    'pro-api.coinmarketcap.com',
-  ];
-
-  if (input.proofDomain && trustedDomains.some(d => input.proofDomain!.includes(d))) {
-    return 1.0;
+  if (input.dataBound === false) {
+    // Valid proof, but of different data - it vouches for nothing we are scoring
+    return 0.2;
   }
 
-  return 0.9;
+  // Proof verified successfully - now check which host it was made against
+  const domainCheck = input.domainCheck ?? checkDomainPolicy({ attested: input.proofDomain });
+
+  switch (domainCheck.status) {
+    case 'denied':
+    case 'mismatch':
+      // Proof of a different or forbidden source - like proving different data
+      return 0.2;
+    case 'not_allowed':
+      return 0.5;
+    case 'trusted':
+      return 1.0;
+    default:
+      return 0.9;
+  }
 }
 
 // ============================================
@@ -211,12 +187,13 @@ export function calculateAllBaseScores(
   sourceInput: SourceInput,
   timeInput: TimeInput,
   accuracyInput: AccuracyInput,
-  proofInput: ProofInput
+  proofInput: ProofInput,
+  registry: ReputationRegistry = defaultReputationRegistry
 ): BaseScores {
   return {
-    source: calculateSourceScore(sourceInput),
+    source: calculateSourceScore(sourceInput, registry),
     time: calculateTimeScore(timeInput),
-    accuracy: calculateAccuracyScore(accuracyInput),
+    accuracy: calculateAccuracyScore(accuracyInput, registry),
     proof: calculateProofScore(proofInput),
   };
 }
@@ -0,0 +1,260 @@
+/**
+ * OracleLens Bayesian Reputation
+ *
+ * Moves an oracle's reputation with evidence. Each oracle has a
+ * Beta(alpha, beta) posterior over "this oracle's data can be trusted":
+ * - the prior is the registry reputation, worth `priorStrength` observations
+ * - trusted evaluations add to alpha, untrusted evaluations add to beta
+ * - confirmed disputes add `disputeWeight` to beta
+ * Every observation is discounted by its age (half-life decay), so old
+ * behaviour counts less and the posterior drifts back to the prior.
+ */
+
+import { defaultReputationRegistry, ReputationRegistry } from './reputation';
+import type { ScoringResult } from './formulas';
+import { isTrustedLevel } from './trustBands';
+
+// ============================================
+// Types
+// ============================================
+
+export type ReputationOutcome = 'trusted' | 'untrusted' | 'dispute';
+
+export interface ReputationObservation {
+  outcome: ReputationOutcome;
+  timestamp: number; // Unix ms
+}
+
+export interface BayesianReputationOptions {
+  priorMean?: number;       // Default 0.5 (getBayesianReputation uses the registry value)
+  priorStrength?: number;   // Pseudo-observations behind the prior (default 10)
+  halfLifeDays?: number;    // Age at which an observation counts half (default 30)
+  disputeWeight?: number;   // Weight of a confirmed dispute (default 3)
+  credibleLevel?: number;   // Mass of the credible interval (default 0.9)
+  now?: number;             // Unix ms (default Date.now())
+}
+
+export interface ReputationPosterior {
+  mean: number;             // Posterior mean, 0-1
+  lower: number;            // Lower bound of the credible interval
+  upper: number;            // Upper bound of the credible interval
+  credibleLevel: number;
+  alpha: number;
+  beta: number;
+  priorMean: number;
+  effectiveObservations: number; // Decayed evidence on top of the prior
+  observations: number;          // Raw observation count
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const DEFAULT_PRIOR_STRENGTH = 10;
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DEFAULT_DISPUTE_WEIGHT = 3;
+const DEFAULT_CREDIBLE_LEVEL = 0.9;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Lowest accuracy score of data within tolerance of its references (see scoreToleranceRatio)
+export const AGREEMENT_ACCURACY = 0.9;
+
+// ============================================
+// Outcomes
+// ============================================
+
+/**
+ * Outcome of an evaluation for reputation purposes.
+ */
+export function outcomeFromTrustLevel(trustLevel: ScoringResult['trustLevel']): ReputationOutcome {
+  return isTrustedLevel(trustLevel) ? 'trusted' : 'untrusted';
+}
+
+/**
+ * Outcome of an evaluation from its accuracy alone: whether the data agreed
+ * with its references. Unlike the trust level, it does not depend on the
+ * source score, which the reputation itself feeds.
+ */
+export function outcomeFromAccuracy(accuracy: number): ReputationOutcome {
+  return accuracy >= AGREEMENT_ACCURACY ? 'trusted' : 'untrusted';
+}
+
+/**
+ * Weight of an observation of the given age: 1 now, 0.5 after one half-life.
+ * Future timestamps count fully.
+ */
+export function decayWeight(ageMs: number, halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS): number {
+  if (ageMs <= 0) return 1;
+  return Math.pow(0.5, ageMs / (halfLifeDays * DAY_MS));
+}
+
+// ============================================
+// Posterior
+// ============================================
+
+/**
+ * Beta posterior from decayed observations.
+ */
+export function calculateBayesianReputation(
+  observations: ReputationObservation[],
+  options: BayesianReputationOptions = {}
+): ReputationPosterior {
+  const priorMean = Math.max(0, Math.min(1, options.priorMean ?? 0.5));
+  const priorStrength = options.priorStrength ?? DEFAULT_PRIOR_STRENGTH;
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const disputeWeight = options.disputeWeight ?? DEFAULT_DISPUTE_WEIGHT;
+  const credibleLevel = options.credibleLevel ?? DEFAULT_CREDIBLE_LEVEL;
+  const now = options.now ?? Date.now();
+
+  // Keep both parameters positive so the interval is defined for 0 and 1 priors
+  let alpha = Math.max(priorMean * priorStrength, 1e-3);
+  let beta = Math.max((1 - priorMean) * priorStrength, 1e-3);
+  let effectiveObservations = 0;
+
+  for (const observation of observations) {
+    const weight = decayWeight(now - observation.timestamp, halfLifeDays);
+    switch (observation.outcome) {
+      case 'trusted':
+        alpha += weight;
+        effectiveObservations += weight;
+        break;
+      case 'untrusted':
+        beta += weight;
+        effectiveObservations += weight;
+        break;
+      case 'dispute':
+        beta += weight * disputeWeight;
+        effectiveObservations += weight * disputeWeight;
+        break;
+    }
+  }
+
+  const tail = (1 - credibleLevel) / 2;
+
+  return {
+    mean: alpha / (alpha + beta),
+    lower: betaQuantile(tail, alpha, beta),
+    upper: betaQuantile(1 - tail, alpha, beta),
+    credibleLevel,
+    alpha,
+    beta,
+    priorMean,
+    effectiveObservations,
+    observations: observations.length,
+  };
+}
+
+/**
+ * Posterior for a named oracle, with the registry reputation as prior.
+ */
+export function getBayesianReputation(
+  oracleName: string,
+  observations: ReputationObservation[],
+  options: Omit<BayesianReputationOptions, 'priorMean'> = {},
+  registry: ReputationRegistry = defaultReputationRegistry
+): ReputationPosterior {
+  return calculateBayesianReputation(observations, {
+    ...options,
+    priorMean: registry.getReputation(oracleName, options.now),
+  });
+}
+
+// ============================================
+// Beta Distribution
+// ============================================
+
+/**
+ * Natural log of the gamma function (Lanczos approximation).
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    y += 1;
+    series += c / y;
+  }
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-12;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let numerator = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return result;
+}
+
+/**
+ * Regularized incomplete beta I_x(a, b), the Beta(a, b) CDF at x.
+ */
+export function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest on this side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Inverse Beta(a, b) CDF by bisection.
+ */
+export function betaQuantile(p: number, a: number, b: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return 1;
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (betaCdf(mid, a, b) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,169 @@
+/**
+ * OracleLens Consensus Accuracy
+ *
+ * A (Accuracy) for discrete data - event outcomes, governance results,
+ * statuses - where "close enough" does not exist. Other sources vote on the
+ * value; the score follows how much of the (weighted) vote agrees with the
+ * reported value, with full credit reserved for a supermajority.
+ */
+
+import { NEUTRAL_ACCURACY } from './referenceAccuracy';
+
+// ============================================
+// Types
+// ============================================
+
+export type CategoricalValue = string | boolean | number;
+
+export interface ConsensusVote {
+  value: CategoricalValue;
+  source?: string;
+  weight?: number;   // Default 1
+}
+
+export interface ConsensusInput {
+  value: CategoricalValue;                        // Reported outcome
+  votes: Array<CategoricalValue | ConsensusVote>; // Outcomes from other sources
+  supermajority?: number;                         // Share for a supermajority (default 2/3)
+}
+
+export interface ConsensusBloc {
+  value: string;       // Normalized outcome
+  ratio: number;       // Share of the vote weight
+  votes: number;
+  sources: string[];
+}
+
+export interface ConsensusResult {
+  score: number;              // A score, 0-1
+  value: string;              // Normalized reported outcome
+  agreementRatio: number;     // Vote weight agreeing with the reported outcome
+  majorityValue: string | null;
+  majorityRatio: number;
+  supermajority: boolean;     // Reported outcome has a supermajority
+  supermajorityThreshold: number;
+  dissent: ConsensusBloc[];   // Blocs voting for other outcomes, largest first
+  votes: number;
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const DEFAULT_SUPERMAJORITY = 2 / 3;
+
+// Fields that carry the outcome of discrete feeds, in order of preference
+const CATEGORICAL_VALUE_FIELDS = ['outcome', 'result', 'winner', 'decision', 'status', 'approved', 'passed'];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Normalize an outcome so "Approved", " approved" and "APPROVED" agree.
+ */
+export function normalizeCategoricalValue(value: CategoricalValue): string {
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return String(value);
+  return value.trim().toLowerCase();
+}
+
+function isCategoricalValue(value: unknown): value is CategoricalValue {
+  return typeof value === 'string' || typeof value === 'boolean' || typeof value === 'number';
+}
+
+/**
+ * The discrete outcome in a data value (outcome, result, status, ...), or null.
+ */
+export function resolveCategoricalValue(
+  value: Record<string, unknown>
+): { field: string; value: string | boolean } | null {
+  for (const field of CATEGORICAL_VALUE_FIELDS) {
+    const candidate = value[field];
+    if (typeof candidate === 'string' || typeof candidate === 'boolean') {
+      return { field, value: candidate };
+    }
+  }
+  return null;
+}
+
+// ============================================
+// Consensus
+// ============================================
+
+/**
+ * Score a discrete value by the share of votes agreeing with it:
+ * - supermajority agrees: 0.9-1.0 (1.0 when unanimous)
+ * - simple majority agrees: 0.6-0.9
+ * - no majority for the value: 0-0.6 (0 when nobody agrees)
+ */
+export function calculateConsensusAccuracy(input: ConsensusInput): ConsensusResult {
+  const threshold = input.supermajority ?? DEFAULT_SUPERMAJORITY;
+  const value = normalizeCategoricalValue(input.value);
+
+  const votes = input.votes
+    .map(vote => (isCategoricalValue(vote) ? { value: vote } : vote) as ConsensusVote)
+    .filter(vote => isCategoricalValue(vote.value) && (vote.weight ?? 1) > 0);
+
+  const totalWeight = votes.reduce((sum, vote) => sum + (vote.weight ?? 1), 0);
+
+  if (votes.length === 0 || totalWeight === 0) {
+    return {
+      score: NEUTRAL_ACCURACY,
+      value,
+      agreementRatio: 0,
+      majorityValue: null,
+      majorityRatio: 0,
+      supermajority: false,
+      supermajorityThreshold: threshold,
+      dissent: [],
+      votes: 0,
+    };
+  }
+
+  // Tally blocs by normalized outcome
+  const blocs = new Map<string, { weight: number; votes: number; sources: string[] }>();
+  for (const vote of votes) {
+    const key = normalizeCategoricalValue(vote.value);
+    const bloc = blocs.get(key) ?? { weight: 0, votes: 0, sources: [] };
+    bloc.weight += vote.weight ?? 1;
+    bloc.votes += 1;
+    if (vote.source) bloc.sources.push(vote.source);
+    blocs.set(key, bloc);
+  }
+
+  const ranked: ConsensusBloc[] = [...blocs.entries()]
+    .map(([blocValue, bloc]) => ({
+      value: blocValue,
+      ratio: bloc.weight / totalWeight,
+      votes: bloc.votes,
+      sources: bloc.sources,
+    }))
+    .sort((a, b) => b.ratio - a.ratio);
+
+  const agreementRatio = blocs.has(value) ? (blocs.get(value) as { weight: number }).weight / totalWeight : 0;
+  // A tie for first place is no majority
+  const majority = ranked.length > 1 && ranked[0].ratio === ranked[1].ratio ? null : ranked[0];
+  const supermajority = agreementRatio >= threshold;
+
+  let score: number;
+  if (supermajority) {
+    score = threshold >= 1 ? 1 : 0.9 + 0.1 * (agreementRatio - threshold) / (1 - threshold);
+  } else if (agreementRatio > 0.5) {
+    score = 0.6 + 0.3 * (agreementRatio - 0.5) / (threshold - 0.5);
+  } else {
+    score = 0.6 * agreementRatio / 0.5;
+  }
+
+  return {
+    score: Math.max(0, Math.min(1, score)),
+    value,
+    agreementRatio,
+    majorityValue: majority?.value ?? null,
+    majorityRatio: majority?.ratio ?? 0,
+    supermajority,
+    supermajorityThreshold: threshold,
+    dissent: ranked.filter(bloc => bloc.value !== value),
+    votes: votes.length,
+  };
+}
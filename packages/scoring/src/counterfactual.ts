@@ -0,0 +1,194 @@
+/**
+ * OracleLens Counterfactuals
+ *
+ * Answers "what would it take for this to be trusted?": for each factor,
+ * the smallest raw score that - with the other factors unchanged - moves
+ * the final score into the next trust band. Scores are recomputed with
+ * calculateCredibilityScore, so formula expressions, caps and floors are
+ * respected. Where the factor maps back to something concrete, the change
+ * is phrased that way: a maximum data age for T, a kind of proof for P.
+ */
+
+import type { BaseScores, TimeInput } from './baseScores';
+import { calculateCredibilityScore, Formula } from './formulas';
+import { scoreFreshness } from './freshness';
+import { getTrustBands, TrustLevel, TRUST_LEVELS } from './trustBands';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CounterfactualOptions {
+  // Decay settings behind the time score, to express time changes as a data age
+  freshness?: Pick<TimeInput, 'maxAcceptableAgeSeconds' | 'decay' | 'heartbeatSeconds' | 'clockSkewSeconds'>;
+}
+
+export type ProofOutcome = 'outside_policy' | 'verified' | 'trusted';
+
+export interface FactorChange {
+  factor: keyof BaseScores;
+  from: number;              // Current raw score (0-1)
+  to: number;                // Lowest raw score reaching the target band
+  finalScore: number;        // Final score with only this factor changed
+  trustLevel: TrustLevel;
+  maxAgeSeconds?: number;    // time: data at most this old reaches the target
+  proof?: string;            // proof: kind of proof that reaches the target
+  proofOutcome?: ProofOutcome; // proof: the same, as a key (e.g. for translated labels)
+  suggestion: string;        // e.g. "Data must be under 95s old"
+}
+
+export interface CounterfactualResult {
+  formulaId: string;
+  finalScore: number;
+  trustLevel: TrustLevel;
+  target?: { level: TrustLevel; minScore: number }; // Next band up; undefined in the top band
+  changes: FactorChange[];                   // One per factor that can reach the target alone, smallest change first
+  unreachable: Array<keyof BaseScores>;      // Factors that cannot reach the target alone
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const FACTORS: Array<keyof BaseScores> = ['source', 'time', 'accuracy', 'proof'];
+
+const FACTOR_LABELS: Record<keyof BaseScores, string> = {
+  source: 'Source reliability',
+  time: 'Time freshness',
+  accuracy: 'Agreement with references',
+  proof: 'Proof score',
+};
+
+// Proof scores a verified proof can earn (see calculateProofScore), weakest first
+const PROOF_OUTCOMES: Array<{ outcome: ProofOutcome; score: number; description: string }> = [
+  { outcome: 'outside_policy', score: 0.5, description: 'A verified proof from a domain outside the policy' },
+  { outcome: 'verified', score: 0.9, description: 'A verified proof' },
+  { outcome: 'trusted', score: 1.0, description: 'A verified proof from a trusted domain' },
+];
+
+// Bisection steps: 2^-20 is far below a single point of final score
+const SEARCH_STEPS = 20;
+
+// ============================================
+// Helpers
+// ============================================
+
+function rank(level: TrustLevel): number {
+  return TRUST_LEVELS.indexOf(level);
+}
+
+function rescore(baseScores: BaseScores, formula: Formula, factor: keyof BaseScores, value: number) {
+  return calculateCredibilityScore({ ...baseScores, [factor]: value }, formula);
+}
+
+/**
+ * Oldest age (seconds) whose time score still reaches `timeScore`.
+ */
+export function maxAgeForTimeScore(
+  timeScore: number,
+  freshness: NonNullable<CounterfactualOptions['freshness']>
+): number | null {
+  const window = { maxAcceptableAgeSeconds: freshness.maxAcceptableAgeSeconds, heartbeatSeconds: freshness.heartbeatSeconds };
+  const score = (age: number) => scoreFreshness(age, window, freshness.decay, freshness.clockSkewSeconds);
+  if (score(0) < timeScore) return null;
+
+  // Every decay curve is 0 (or flat) well before 10x its window
+  let low = 0;
+  let high = 10 * Math.max(freshness.maxAcceptableAgeSeconds, freshness.heartbeatSeconds ?? 0);
+  if (score(high) >= timeScore) return high;
+
+  for (let i = 0; i < SEARCH_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (score(mid) >= timeScore) low = mid;
+    else high = mid;
+  }
+  return Math.floor(low);
+}
+
+function describeChange(change: Omit<FactorChange, 'suggestion'>): string {
+  const outcome = `${change.finalScore} (${change.trustLevel.toUpperCase()})`;
+  if (change.maxAgeSeconds !== undefined) {
+    return `Data must be under ${change.maxAgeSeconds}s old, which would raise this to ${outcome}`;
+  }
+  if (change.proof) {
+    return `${change.proof} would raise this to ${outcome}`;
+  }
+  return `${FACTOR_LABELS[change.factor]} must reach ${Math.round(change.to * 100)}% `
+    + `(now ${Math.round(change.from * 100)}%), which would raise this to ${outcome}`;
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Minimal single-factor changes that move a score into the next trust band.
+ * Assumes the formula never lowers the score when a factor improves.
+ */
+export function analyzeCounterfactuals(
+  baseScores: BaseScores,
+  formula: Formula,
+  options: CounterfactualOptions = {}
+): CounterfactualResult {
+  const current = calculateCredibilityScore(baseScores, formula);
+  const bands = getTrustBands(formula);
+  const currentIndex = bands.findIndex(band => band.level === current.trustLevel);
+  const targetBand = currentIndex > 0 ? bands[currentIndex - 1] : undefined;
+
+  const result: CounterfactualResult = {
+    formulaId: formula.id,
+    finalScore: current.finalScore,
+    trustLevel: current.trustLevel,
+    changes: [],
+    unreachable: [],
+  };
+  if (!targetBand) return result;
+
+  result.target = { level: targetBand.level, minScore: targetBand.minScore };
+  const reaches = (level: TrustLevel) => rank(level) <= rank(targetBand.level);
+
+  for (const factor of FACTORS) {
+    const from = baseScores[factor];
+    if (from >= 1 || !reaches(rescore(baseScores, formula, factor, 1).trustLevel)) {
+      result.unreachable.push(factor);
+      continue;
+    }
+
+    let low = from;
+    let high = 1;
+    for (let i = 0; i < SEARCH_STEPS; i++) {
+      const mid = (low + high) / 2;
+      if (reaches(rescore(baseScores, formula, factor, mid).trustLevel)) high = mid;
+      else low = mid;
+    }
+    let to = Math.min(1, Math.ceil(high * 1000) / 1000);
+
+    let proof: (typeof PROOF_OUTCOMES)[number] | undefined;
+    if (factor === 'proof') {
+      proof = PROOF_OUTCOMES.find(candidate => candidate.score >= to && candidate.score > from);
+      if (proof) {
+        to = proof.score;
+      }
+    }
+
+    let maxAgeSeconds: number | undefined;
+    if (factor === 'time' && options.freshness) {
+      maxAgeSeconds = maxAgeForTimeScore(to, options.freshness) ?? undefined;
+    }
+
+    const rescored = rescore(baseScores, formula, factor, to);
+    const change = {
+      factor,
+      from,
+      to,
+      finalScore: rescored.finalScore,
+      trustLevel: rescored.trustLevel,
+      ...(maxAgeSeconds !== undefined ? { maxAgeSeconds } : {}),
+      ...(proof ? { proof: proof.description, proofOutcome: proof.outcome } : {}),
+    };
+    result.changes.push({ ...change, suggestion: describeChange(change) });
+  }
+
+  result.changes.sort((a, b) => (a.to - a.from) - (b.to - b.from));
+  return result;
+}
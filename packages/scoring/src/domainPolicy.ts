@@ -0,0 +1,159 @@
+/**
+ * OracleLens Domain Policy
+ *
+ * Decides whether the host a zkTLS proof was made against is acceptable:
+ * - Exact host rules ("api.coingecko.com") and suffix rules ("*.coingecko.com")
+ * - Trusted hosts earn the full proof score
+ * - Per-dataType allowlists restrict which hosts may back a data type
+ * - Deny list always wins
+ * - The attested host must equal the sourceUrl host the user declared
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface DomainPolicy {
+  trustedHosts: string[];                 // Host rules that earn the trusted bonus
+  allowlists: Record<string, string[]>;   // dataType -> permitted host rules
+  denyHosts: string[];                    // Host rules that are always rejected
+}
+
+export type DomainCheckStatus =
+  | 'trusted'      // Host matches a trusted rule
+  | 'allowed'      // Host is acceptable but not specially trusted
+  | 'not_allowed'  // dataType has an allowlist and the host is not on it
+  | 'mismatch'     // Attested host differs from the declared sourceUrl host
+  | 'denied'       // Host is on the deny list
+  | 'unknown';     // No attested host to check
+
+export interface DomainCheckInput {
+  attested?: string;   // Attested request URL or host
+  declared?: string;   // User-declared sourceUrl or host
+  dataType?: string;
+}
+
+export interface DomainCheckResult {
+  status: DomainCheckStatus;
+  attestedHost: string | null;
+  declaredHost: string | null;
+  matchedRule?: string;
+  reason?: string;
+}
+
+// ============================================
+// Default Policy
+// ============================================
+
+export const DEFAULT_DOMAIN_POLICY: DomainPolicy = {
+  trustedHosts: [
+    'api.coingecko.com',
+    'api.coinmarketcap.com',
+    'pro-api.coinmarketcap.com',
+    'api.binance.com',
+    'api.kraken.com',
+  ],
+  allowlists: {},
+  denyHosts: [
+    'localhost',
+    '127.0.0.1',
+    '0.0.0.0',
+    '*.local',
+  ],
+};
+
+// ============================================
+// Host Matching
+// ============================================
+
+/**
+ * Normalize a URL or bare host to a lowercase hostname.
+ */
+export function normalizeHost(urlOrHost?: string): string | null {
+  if (!urlOrHost) return null;
+  const value = urlOrHost.trim();
+  if (!value) return null;
+
+  try {
+    const host = new URL(value.includes('://') ? value : `https://${value}`).hostname;
+    return host.toLowerCase().replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Match a host against a rule. "*.example.com" matches any subdomain
+ * of example.com; anything else must match exactly.
+ */
+export function matchesHostRule(host: string, rule: string): boolean {
+  const normalizedRule = rule.trim().toLowerCase();
+
+  if (normalizedRule.startsWith('*.')) {
+    const suffix = normalizedRule.slice(1); // ".example.com"
+    return host.endsWith(suffix) && host.length > suffix.length;
+  }
+
+  return host === normalizedRule;
+}
+
+function findRule(host: string, rules: string[]): string | undefined {
+  return rules.find(rule => matchesHostRule(host, rule));
+}
+
+// ============================================
+// Policy Check
+// ============================================
+
+/**
+ * Check an attested host against the declared source and the domain policy.
+ */
+export function checkDomainPolicy(
+  input: DomainCheckInput,
+  policy: DomainPolicy = DEFAULT_DOMAIN_POLICY
+): DomainCheckResult {
+  const attestedHost = normalizeHost(input.attested);
+  const declaredHost = normalizeHost(input.declared);
+
+  if (!attestedHost) {
+    return { status: 'unknown', attestedHost, declaredHost, reason: 'No attested host to check' };
+  }
+
+  const deniedBy = findRule(attestedHost, policy.denyHosts);
+  if (deniedBy) {
+    return {
+      status: 'denied',
+      attestedHost,
+      declaredHost,
+      matchedRule: deniedBy,
+      reason: `Attested host ${attestedHost} is denied by rule "${deniedBy}"`,
+    };
+  }
+
+  if (declaredHost && declaredHost !== attestedHost) {
+    return {
+      status: 'mismatch',
+      attestedHost,
+      declaredHost,
+      reason: `Proof was made against ${attestedHost}, but the declared source is ${declaredHost}`,
+    };
+  }
+
+  const allowlist = input.dataType ? policy.allowlists[input.dataType.toLowerCase()] : undefined;
+  const allowedBy = allowlist ? findRule(attestedHost, allowlist) : undefined;
+  if (allowlist && !allowedBy) {
+    return {
+      status: 'not_allowed',
+      attestedHost,
+      declaredHost,
+      reason: `Host ${attestedHost} is not on the allowlist for ${input.dataType}`,
+    };
+  }
+
+  const trustedBy = findRule(attestedHost, policy.trustedHosts);
+  if (trustedBy) {
+    return { status: 'trusted', attestedHost, declaredHost, matchedRule: trustedBy };
+  }
+
+  return { status: 'allowed', attestedHost, declaredHost, matchedRule: allowedBy };
+}
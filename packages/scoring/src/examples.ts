@@ -10,11 +10,56 @@
 import {
   calculateSourceScore,
   calculateTimeScore,
+  getFreshnessProfile,
+  scoreFreshness,
+  analyzeCounterfactuals,
+  maxAgeForTimeScore,
+  normalizeTimestamp,
+  resolveTimestamp,
+  UNKNOWN_TIMESTAMP_SCORE,
   calculateAccuracyScore,
   calculateProofScore,
   calculateAllBaseScores,
   evaluateCredibility,
+  calculateCredibilityScore,
+  parseFormulaExpression,
+  validateFormulaExpression,
+  evaluateFormulaProgram,
+  checkDomainPolicy,
+  ReputationRegistry,
+  UNKNOWN_REPUTATION,
+  validateReputationInput,
+  calculateBayesianReputation,
+  getBayesianReputation,
+  outcomeFromAccuracy,
+  betaCdf,
+  calculateUptime,
+  recordLivenessSample,
+  InMemoryLivenessStore,
+  calculateStructuredAccuracy,
+  calculateReferenceAccuracy,
+  hampelFilter,
+  iqrFences,
+  calculateDispersion,
+  resolveTolerance,
+  resolveAssetSymbol,
+  realizedVolatility,
+  getFieldTolerances,
+  resolvePrimaryValue,
+  calculateConsensusAccuracy,
+  resolveCategoricalValue,
+  getFeedId,
   FORMULAS,
+  FormulaRegistry,
+  DEFAULT_FORMULA_VERSIONS,
+  hashFormula,
+  validateFormula,
+  resolveFormula,
+  applyWeightAdjustments,
+  classifyTrustLevel,
+  defaultTrustBands,
+  getTrustBands,
+  validateTrustBands,
 } from './index';
 
 // ============================================
@@ -63,6 +108,158 @@ const sourcePyth = calculateSourceScore({
 });
 assertRange(sourcePyth, 0.90, 0.98, 'Pyth with docs should have high score');
 
+// ============================================
+// Test: Reputation Registry
+// ============================================
+
+console.log('\n=== Reputation Registry Tests ===\n');
+
+const registry = new ReputationRegistry();
+assert(registry.getReputation('Chainlink') === 0.95, 'Seeded Chainlink reputation should be 0.95');
+assert(registry.getReputation('RedStone') === UNKNOWN_REPUTATION, 'Unlisted oracle should get the unknown reputation');
+assert(registry.getTier('Pyth') === 'high' && registry.getTier('DIA') === 'medium', 'Tiers should follow reputation');
+assert(registry.getTier('RedStone') === undefined, 'Unknown oracle should have no tier');
+
+// Adding an oracle is a data change
+const redstone = registry.upsert({ name: 'RedStone', reputation: 0.85, provenance: 'admin:test', aliases: ['RedStone Oracles'] });
+assert(redstone.oracleId === 'redstone', 'Oracle id should be normalized');
+assert(registry.getReputation('redstone oracles') === 0.85, 'Aliases should resolve to the oracle');
+const redstoneScore = calculateSourceScore(
+  { oracleName: 'RedStone', hasApiDocumentation: false, isRegulated: false },
+  registry
+);
+assert(redstoneScore === 0.85, 'Source score should read from the given registry');
+
+// Versions take effect on their effective date
+const nextWeek = Date.now() + 7 * 24 * 3600 * 1000;
+registry.upsert({ name: 'RedStone', reputation: 0.6, provenance: 'incident-review', effectiveFrom: nextWeek });
+assert(registry.getReputation('RedStone') === 0.85, 'Future version should not apply yet');
+assert(registry.getReputation('RedStone', nextWeek) === 0.6, 'Future version should apply from its effective date');
+assert(registry.history('RedStone').length === 2, 'History should keep every version');
+
+let rejected = false;
+try {
+  registry.upsert({ name: 'Chronicle', reputation: 1.2, provenance: 'admin:test' });
+} catch {
+  rejected = true;
+}
+assert(rejected, 'Reputation outside [0, 1] should be rejected');
+assert(
+  validateReputationInput({ name: 'Chronicle', reputation: 0.7, provenance: ' ' }) !== null,
+  'Blank provenance should be invalid'
+);
+
+assert(registry.remove('RedStone'), 'Remove should delete a known oracle');
+assert(registry.getReputation('RedStone') === UNKNOWN_REPUTATION, 'Removed oracle should fall back to unknown');
+
+// ============================================
+// Test: Bayesian Reputation
+// ============================================
+
+console.log('\n=== Bayesian Reputation Tests ===\n');
+
+const dayMs = 24 * 3600 * 1000;
+const evalNow = Date.UTC(2025, 0, 31);
+
+const noEvidence = getBayesianReputation('Chainlink', [], { now: evalNow });
+assert(Math.abs(noEvidence.mean - 0.95) < 1e-9, 'Without evidence the posterior mean should equal the registry prior');
+assert(noEvidence.lower < noEvidence.mean && noEvidence.mean < noEvidence.upper, 'Credible interval should contain the mean');
+
+const recentFailures = Array.from({ length: 20 }, (_, i) => ({
+  outcome: 'untrusted' as const,
+  timestamp: evalNow - i * dayMs,
+}));
+const degraded = getBayesianReputation('Chainlink', recentFailures, { now: evalNow });
+assert(degraded.mean < 0.6, `Recent untrusted outcomes should pull reputation down (got ${degraded.mean.toFixed(3)})`);
+
+const oldFailures = recentFailures.map(o => ({ ...o, timestamp: o.timestamp - 365 * dayMs }));
+const recovered = getBayesianReputation('Chainlink', oldFailures, { now: evalNow });
+assert(recovered.mean > 0.9, `Year-old failures should have decayed (got ${recovered.mean.toFixed(3)})`);
+
+const disputed = calculateBayesianReputation(
+  [{ outcome: 'dispute', timestamp: evalNow }],
+  { priorMean: 0.8, now: evalNow }
+);
+const singleFailure = calculateBayesianReputation(
+  [{ outcome: 'untrusted', timestamp: evalNow }],
+  { priorMean: 0.8, now: evalNow }
+);
+assert(disputed.mean < singleFailure.mean, 'A confirmed dispute should weigh more than one untrusted outcome');
+
+const manySuccesses = calculateBayesianReputation(
+  Array.from({ length: 200 }, () => ({ outcome: 'trusted' as const, timestamp: evalNow })),
+  { priorMean: 0.8, now: evalNow }
+);
+assert(
+  manySuccesses.upper - manySuccesses.lower < noEvidence.upper - noEvidence.lower,
+  'More evidence should narrow the credible interval'
+);
+assert(Math.abs(betaCdf(0.5, 2, 2) - 0.5) < 1e-9, 'Symmetric beta CDF should be 0.5 at the midpoint');
+assert(outcomeFromAccuracy(0.9) === 'trusted', 'Data at the tolerance limit agrees with its references');
+assert(outcomeFromAccuracy(0.6) === 'untrusted', 'Data beyond tolerance does not');
+
+const posteriorScore = calculateSourceScore(
+  { oracleName: 'Chainlink', hasApiDocumentation: false, isRegulated: false, reputation: degraded },
+  registry
+);
+assert(posteriorScore === degraded.mean, 'Source score should use the posterior mean when given');
+
+// ============================================
+// Test: Uptime
+// ============================================
+
+console.log('\n=== Uptime Tests ===\n');
+
+const hourMs = 3600 * 1000;
+const uptimeNow = Date.UTC(2025, 0, 31);
+const hourly = Array.from({ length: 24 }, (_, i) => uptimeNow - i * hourMs);
+
+const steady = calculateUptime(hourly, { heartbeatSeconds: 3600, windowSeconds: 24 * 3600, now: uptimeNow });
+assert(steady !== null && steady.uptimePercent === 100, 'Hourly updates with an hourly heartbeat should be 100% up');
+
+// No updates for eight hours in the middle of the day
+const withOutage = hourly.filter(t => t > uptimeNow - 8 * hourMs || t < uptimeNow - 14 * hourMs);
+const outage = calculateUptime(withOutage, { heartbeatSeconds: 3600, windowSeconds: 24 * 3600, now: uptimeNow });
+assert(outage !== null && outage.gaps.length === 1, 'An outage should show up as one gap');
+assert(
+  outage !== null && outage.uptimePercent > 65 && outage.uptimePercent < 80,
+  `Downtime should run from the missed heartbeat to the next update (got ${outage?.uptimePercent.toFixed(1)}%)`
+);
+
+const silentSince = calculateUptime([uptimeNow - 12 * hourMs], { heartbeatSeconds: 3600, windowSeconds: 24 * 3600, now: uptimeNow });
+assert(silentSince !== null && silentSince.uptimePercent < 20, 'A feed silent since its first sighting should be mostly down');
+assert(calculateUptime([], { now: uptimeNow }) === null, 'A feed never seen should have no uptime');
+assert(steady !== null && steady.sufficient, 'Hourly sightings should be enough to rely on uptime');
+assert(outage !== null && outage.sufficient, 'An outage between regular sightings should still count');
+
+// Two evaluations a day apart say nothing about the hours in between
+const sparse = calculateUptime([uptimeNow - 24 * hourMs, uptimeNow], { heartbeatSeconds: 3600, windowSeconds: 7 * 24 * 3600, now: uptimeNow });
+assert(sparse !== null && !sparse.sufficient, 'Sparse sightings should not be enough to rely on uptime');
+const sparseAllowed = calculateUptime([uptimeNow - 24 * hourMs, uptimeNow], { heartbeatSeconds: 3600, minSamples: 2, now: uptimeNow });
+assert(sparseAllowed !== null && sparseAllowed.sufficient, 'minSamples should override the default');
+assert(getFeedId('Chain Link', 'Price Feed') === 'chainlink:price_feed', 'Feed ids should be normalized');
+
+// Bursts of sightings are rate-limited to two per heartbeat
+async function testLivenessRecording() {
+  const livenessStore = new InMemoryLivenessStore();
+  const feedId = getFeedId('Chainlink', 'Price Feed');
+  const sighting = (minutes: number) => ({ feedId, observedAt: uptimeNow + minutes * 60 * 1000, source: 'poll' as const });
+
+  assert(await recordLivenessSample(livenessStore, sighting(0), { heartbeatSeconds: 3600 }), 'The first sighting should be recorded');
+  assert(!(await recordLivenessSample(livenessStore, sighting(10), { heartbeatSeconds: 3600 })), 'A sighting within half a heartbeat should be skipped');
+  assert(!(await recordLivenessSample(livenessStore, sighting(-10), { heartbeatSeconds: 3600 })), 'An earlier sighting within half a heartbeat should be skipped');
+  assert(await recordLivenessSample(livenessStore, sighting(30), { heartbeatSeconds: 3600 }), 'A sighting half a heartbeat later should be recorded');
+  assert((await livenessStore.list(feedId, 0)).length === 2, 'Only the recorded sightings should be stored');
+}
+
+const uptimeScore = calculateSourceScore({
+  oracleName: 'Chainlink',
+  hasApiDocumentation: false,
+  isRegulated: false,
+  historicalUptime: outage?.uptimePercent,
+});
+assert(uptimeScore < 0.95, 'Measured downtime should lower the source score');
+
 // ============================================
 // Test: Time Score
 // ============================================
@@ -103,6 +300,73 @@ const timeFuture = calculateTimeScore({
 });
 assert(timeFuture === 0.5, 'Future timestamp should be penalized');
 
+// Test 5: Slightly future timestamp (clock drift)
+const timeSkewed = calculateTimeScore({
+  reportedTimestamp: now + 3,
+  currentTimestamp: now,
+  maxAcceptableAgeSeconds: 300,
+});
+assert(timeSkewed === 1, 'Timestamps within the clock skew should count as fresh');
+
+// Test 6: Stale data never beats fresher data
+const justStale = calculateTimeScore({ reportedTimestamp: now - 301, currentTimestamp: now, maxAcceptableAgeSeconds: 300 });
+const atLimit = calculateTimeScore({ reportedTimestamp: now - 300, currentTimestamp: now, maxAcceptableAgeSeconds: 300 });
+assert(justStale <= atLimit, 'Exponential decay should not jump back up past the acceptable age');
+
+// Test 7: Heartbeat feeds - 50 minutes old on a 1-hour heartbeat is fine
+const chainlinkFreshness = getFreshnessProfile('Chainlink', 'price_feed');
+assert(chainlinkFreshness.decay === 'heartbeat' && chainlinkFreshness.heartbeatSeconds === 3600, 'Chainlink should use its heartbeat');
+const heartbeatOk = calculateTimeScore({
+  reportedTimestamp: now - 3000,
+  currentTimestamp: now,
+  maxAcceptableAgeSeconds: 300,
+  decay: 'heartbeat',
+  heartbeatSeconds: 3600,
+});
+assertRange(heartbeatOk, 0.9, 1.0, '50 minutes on a 1-hour heartbeat should score high');
+const heartbeatMissed = calculateTimeScore({
+  reportedTimestamp: now - 7200,
+  currentTimestamp: now,
+  maxAcceptableAgeSeconds: 300,
+  decay: 'heartbeat',
+  heartbeatSeconds: 3600,
+});
+assertRange(heartbeatMissed, 0.0, 0.1, 'A missed heartbeat should score low');
+
+// Test 8: Other decay models at the acceptable age
+const window = { maxAcceptableAgeSeconds: 300 };
+assert(scoreFreshness(300, window, 'linear') === 0.5, 'Linear decay should give half credit at the acceptable age');
+assert(scoreFreshness(300, window, 'step') === 1 && scoreFreshness(301, window, 'step') === 0.5, 'Step decay should drop at the acceptable age');
+assertRange(scoreFreshness(150, window, 'logistic'), 0.9, 1.0, 'Logistic decay should stay high early on');
+assertRange(scoreFreshness(300, window, 'logistic'), 0.45, 0.55, 'Logistic decay should be ~0.5 at the acceptable age');
+assert(scoreFreshness(100, window, () => 0.42) === 0.42, 'Custom curves should be pluggable');
+
+// ============================================
+// Test: Timestamp Normalization
+// ============================================
+
+console.log('\n=== Timestamp Normalization Tests ===\n');
+
+const isoMs = Date.UTC(2024, 0, 31, 12, 0, 0);
+assert(normalizeTimestamp(1706702400)?.unit === 'seconds' && normalizeTimestamp(1706702400)?.timestamp === isoMs, 'Unix seconds should be detected');
+assert(normalizeTimestamp(isoMs)?.unit === 'milliseconds', 'Unix milliseconds should be detected');
+assert(normalizeTimestamp(isoMs * 1000)?.timestamp === isoMs, 'Microseconds should be scaled down');
+assert(normalizeTimestamp('2024-01-31T12:00:00Z')?.timestamp === isoMs, 'ISO-8601 strings should be parsed');
+assert(normalizeTimestamp('1706702400')?.timestamp === isoMs, 'Numeric strings should be detected by magnitude');
+assert(normalizeTimestamp('yesterday') === null, 'Free text is not a timestamp');
+
+const pythPayload = resolveTimestamp({ price: { price: 2534, publishTime: 1706702400 } });
+assert(pythPayload.field === 'price.publishTime' && pythPayload.timestamp === isoMs, 'Nested publishTime should be found');
+assert(resolveTimestamp({ value: 1, updated_at: '2024-01-31T12:00:00Z' }).unit === 'iso8601', 'Snake case field names should match');
+const noTimestamp = resolveTimestamp({ price: 2534 });
+assert(noTimestamp.timestamp === null && noTimestamp.reason !== undefined, 'A missing timestamp should be reported');
+assert(resolveTimestamp({ timestamp: 'soon' }).reason?.includes('Unrecognized') === true, 'An unusable timestamp should be reported');
+
+assert(
+  calculateTimeScore({ reportedTimestamp: null, currentTimestamp: now, maxAcceptableAgeSeconds: 300 }) === UNKNOWN_TIMESTAMP_SCORE,
+  'Unknown age should score as uncertain'
+);
+
 // ============================================
 // Test: Accuracy Score
 // ============================================
@@ -141,6 +405,215 @@ const accuracyNoRef = calculateAccuracyScore({
 });
 assert(accuracyNoRef === 0.7, 'No references should give neutral 0.7');
 
+// ============================================
+// Test: Sourced Reference Accuracy
+// ============================================
+
+console.log('\n=== Sourced Reference Accuracy Tests ===\n');
+
+const refNow = Date.UTC(2025, 0, 31);
+const sourcedAccuracy = calculateReferenceAccuracy({
+  primaryValue: 2500,
+  referenceValues: [
+    { source: 'Chainlink', value: 2501, timestamp: refNow - 10_000 },
+    { source: 'Pyth', value: 2499, timestamp: refNow - 20_000, proofHash: '0xabc' },
+    { source: 'DIA', value: 2502, timestamp: refNow - 3600_000 },
+    { source: 'sketchy-api', value: 2900, timestamp: refNow - 5_000 },
+  ],
+  tolerancePercent: 1,
+  currentTimestamp: refNow,
+});
+assert(sourcedAccuracy.outliers.length === 1 && sourcedAccuracy.outliers[0].source === 'sketchy-api', 'Far-off reference should be listed as the outlier');
+assert(sourcedAccuracy.score > 0.95, `Outlier should not drag the score down (got ${sourcedAccuracy.score.toFixed(3)})`);
+const dia = sourcedAccuracy.references.find(r => r.source === 'DIA');
+assert(dia !== undefined && dia.staleDiscount < 0.01, 'Hour-old reference should be discounted by its age');
+assert(sourcedAccuracy.references.find(r => r.source === 'Pyth')?.proofHash === '0xabc', 'Proof hashes should be kept');
+
+// The reputable source outweighs two unknown ones
+const reputationWeighted = calculateReferenceAccuracy({
+  primaryValue: 100,
+  referenceValues: [
+    { source: 'Chainlink', value: 100, weight: 3 },
+    { source: 'unknown-a', value: 101 },
+    { source: 'unknown-b', value: 101 },
+  ],
+  tolerancePercent: 5,
+});
+assert(reputationWeighted.referenceMedian === 100, 'Weighted median should follow reputation and weight');
+
+assert(
+  calculateReferenceAccuracy({ primaryValue: 10, referenceValues: [8, 10, 12, 14], tolerancePercent: 50 }).referenceMedian === 11,
+  'Plain numbers should keep the ordinary median'
+);
+
+// ============================================
+// Test: Robust Statistics
+// ============================================
+
+console.log('\n=== Robust Statistics Tests ===\n');
+
+const hampel = hampelFilter([100, 101, 99, 100.5, 140]);
+assert(hampel.center === 100.5 && hampel.outliers.length === 1 && hampel.outliers[0] === 4, 'Hampel filter should flag the far-off value');
+
+const fences = iqrFences([10, 11, 12, 13, 14, 40]);
+assert(fences.outliers.length === 1 && fences.outliers[0] === 5, 'IQR fences should flag the value above the upper fence');
+assert(fences.q1 === 11.25 && fences.q3 === 13.75, 'Quartiles should interpolate between ranks');
+
+const tight = calculateDispersion([2500, 2501, 2499]);
+assert(tight.robustSpreadPercent < 0.1, 'Agreeing values should have a small spread');
+assert(calculateDispersion([42]).robustSpreadPercent === 0, 'A single value has no spread');
+
+// References that disagree with each other cannot confirm the value
+const agreeing = calculateReferenceAccuracy({ primaryValue: 100, referenceValues: [99.8, 100, 100.2], tolerancePercent: 1 });
+const disagreeing = calculateReferenceAccuracy({ primaryValue: 100, referenceValues: [92, 100, 108], tolerancePercent: 1 });
+assert(agreeing.confidence === 1 && agreeing.explanation === undefined, 'Agreeing references should keep full confidence');
+assert(disagreeing.referenceMedian === 100 && disagreeing.outliers.length === 0, 'Evenly spread references are not outliers');
+assert(disagreeing.confidence < 0.1, `Wide disagreement should remove confidence (got ${disagreeing.confidence.toFixed(2)})`);
+assert(disagreeing.score < 0.7, `Disputed consensus should score below neutral (got ${disagreeing.score.toFixed(3)})`);
+assert(disagreeing.explanation?.includes('disagree') === true, 'Lowered confidence should be explained');
+console.log(`Dispersed references: confidence ${disagreeing.confidence.toFixed(2)}, A = ${disagreeing.score.toFixed(3)}`);
+
+// ============================================
+// Test: Tolerance Profiles
+// ============================================
+
+console.log('\n=== Tolerance Profile Tests ===\n');
+
+assert(resolveAssetSymbol({ pair: 'usdc/usd', price: 1 }) === 'USDC', 'Asset should be the base of a pair');
+
+const stablecoinTolerance = resolveTolerance({ asset: 'USDC', dataType: 'price_feed' });
+assert(stablecoinTolerance.profileId === 'stablecoin' && stablecoinTolerance.tolerancePercent === 0.1, 'Stablecoins should get a 0.1% tolerance');
+assert(resolveTolerance({ dataType: 'weather' }).tolerancePercent === 5, 'Weather should keep its 5% tolerance');
+
+// A depeg that a flat 1% tolerance would wave through
+const depeg = calculateReferenceAccuracy({
+  primaryValue: 0.99,
+  referenceValues: [1.0, 1.0, 0.9999],
+  toleranceContext: { asset: 'USDC' },
+});
+assert(depeg.tolerancePercent === 0.1 && depeg.tolerance?.profileId === 'stablecoin', 'Tolerance should be resolved from the profile');
+assert(depeg.score < 0.01, `1% off peg should fail accuracy (got ${depeg.score.toFixed(3)})`);
+
+// Rolling realized volatility: a token swinging ~2% every 5 minutes
+const volNow = Date.UTC(2025, 0, 31);
+const choppy = Array.from({ length: 48 }, (_, i) => ({
+  value: 100 * (i % 2 === 0 ? 1 : 1.02),
+  timestamp: volNow - (48 - i) * 300_000,
+}));
+const choppyVol = realizedVolatility(choppy) as number;
+assert(choppyVol > 1.9 && choppyVol < 2.1, `5-minute volatility should be ~2% (got ${choppyVol.toFixed(2)})`);
+const smallCap = resolveTolerance({ asset: 'PEPE', history: choppy, now: volNow });
+assert(smallCap.method === 'volatility' && smallCap.tolerancePercent > 5, `Volatile token should get a wide tolerance (got ${smallCap.tolerancePercent.toFixed(2)}%)`);
+const capped = resolveTolerance({ asset: 'ETH', history: choppy, now: volNow });
+assert(capped.tolerancePercent === 3, 'Volatility tolerance should be capped by the profile');
+assert(resolveTolerance({ asset: 'PEPE', history: choppy.slice(0, 3), now: volNow }).method === 'static', 'Short history should fall back to the static tolerance');
+
+// ============================================
+// Test: Structured Accuracy
+// ============================================
+
+console.log('\n=== Structured Accuracy Tests ===\n');
+
+const weatherReading = { location: 'New York, NY', temperature: 42, humidity: 65, windSpeed: 12, pressure: 1016, timestamp: 1706700000 };
+const weatherReferences = [
+  { temperature: 41, humidity: 63, windSpeed: 11, pressure: 1015 },
+  { temperature: 43, humidity: 66, windSpeed: 13, pressure: 1017 },
+  { temperature: 42, humidity: 64, windSpeed: 12, pressure: 1016 },
+];
+
+const weatherAccuracy = calculateStructuredAccuracy({
+  value: weatherReading,
+  references: weatherReferences,
+  tolerances: getFieldTolerances('weather'),
+});
+assert(weatherAccuracy.scoredFields === 4, `All four measurements should be scored (got ${weatherAccuracy.scoredFields})`);
+assert(!weatherAccuracy.fields.some(f => f.field === 'timestamp'), 'Timestamps should not be scored as measurements');
+assert(weatherAccuracy.score > 0.9, `Consistent reading should score high (got ${weatherAccuracy.score.toFixed(3)})`);
+
+const badHumidity = calculateStructuredAccuracy({
+  value: { ...weatherReading, humidity: 95 },
+  references: weatherReferences,
+  tolerances: getFieldTolerances('weather'),
+});
+assert(badHumidity.outOfTolerance.includes('humidity'), 'Off humidity should be reported per field');
+assert(badHumidity.score < weatherAccuracy.score, 'One bad field should lower the combined score');
+assert(
+  badHumidity.fields.find(f => f.field === 'temperature')?.withinTolerance === true,
+  'Other fields should keep their own verdict'
+);
+
+const candle = calculateStructuredAccuracy({
+  value: { candle: { open: 2500, high: 2550, low: 2490, close: 2530 } },
+  references: [{ candle: { open: 2501, high: 2549, low: 2491, close: 2600 } }],
+  tolerances: { 'candle.close': { percent: 1, weight: 2 } },
+});
+assert(candle.outOfTolerance.join() === 'candle.close', 'Nested fields should be scored by path');
+
+// Sourced references are weighted by reputation and age, like numeric ones
+const weightedWeather = calculateStructuredAccuracy({
+  value: { humidity: 64 },
+  references: [
+    { source: 'Chainlink', value: { humidity: 64 }, timestamp: uptimeNow },
+    { source: 'RandomFeed', value: { humidity: 90 }, timestamp: uptimeNow },
+  ],
+  tolerances: getFieldTolerances('weather'),
+  currentTimestamp: uptimeNow,
+}, registry);
+assert(weightedWeather.outOfTolerance.length === 0, 'The more reputable source should carry the field median');
+const unweightedWeather = calculateStructuredAccuracy({
+  value: { humidity: 64 },
+  references: [{ humidity: 64 }, { humidity: 90 }],
+  tolerances: getFieldTolerances('weather'),
+});
+assert(unweightedWeather.outOfTolerance.includes('humidity'), 'Unsourced references should count equally');
+const staleWeather = calculateStructuredAccuracy({
+  value: { humidity: 64 },
+  references: [
+    { source: 'Chainlink', value: { humidity: 64 }, timestamp: uptimeNow - 3600 * 1000 },
+    { source: 'Pyth', value: { humidity: 90 }, timestamp: uptimeNow },
+  ],
+  tolerances: getFieldTolerances('weather'),
+  currentTimestamp: uptimeNow,
+}, registry);
+assert(staleWeather.outOfTolerance.includes('humidity'), 'A stale reference should lose weight to a fresh one');
+assert(staleWeather.references[0].staleDiscount < 1, 'Reference weights should be reported');
+
+assert(resolvePrimaryValue({ asset: 'X', status: 'approved', amount: 5000 })?.field === 'amount', 'Amount should be a primary value');
+assert(resolvePrimaryValue({ humidity: 60, windSpeed: 3 }) === null, 'Several candidate fields should be ambiguous');
+
+// ============================================
+// Test: Consensus Accuracy
+// ============================================
+
+console.log('\n=== Consensus Accuracy Tests ===\n');
+
+const unanimous = calculateConsensusAccuracy({ value: 'approved', votes: ['Approved', 'approved ', 'APPROVED'] });
+assert(unanimous.score === 1 && unanimous.supermajority, 'Unanimous agreement should score 1 with a supermajority');
+
+const contested = calculateConsensusAccuracy({
+  value: 'YES',
+  votes: [
+    { value: 'yes', source: 'polymarket' },
+    { value: 'yes', source: 'kalshi' },
+    { value: 'no', source: 'uma' },
+  ],
+});
+assert(contested.supermajority, '2 of 3 should reach the default two-thirds supermajority');
+assert(contested.dissent.length === 1 && contested.dissent[0].sources[0] === 'uma', 'Dissent should name the dissenting source');
+
+const outvoted = calculateConsensusAccuracy({ value: true, votes: [false, false, true, false] });
+assert(outvoted.majorityValue === 'false', 'Majority should be the other outcome');
+assert(outvoted.score < 0.5, `Outvoted outcome should score low (got ${outvoted.score.toFixed(3)})`);
+
+const weighted = calculateConsensusAccuracy({
+  value: 'passed',
+  votes: [{ value: 'passed', weight: 3 }, { value: 'failed', weight: 1 }],
+});
+assert(weighted.agreementRatio === 0.75, 'Vote weights should count towards agreement');
+assert(calculateConsensusAccuracy({ value: 'approved', votes: [] }).score === 0.7, 'No votes should be neutral');
+
+assert(resolveCategoricalValue({ status: 'approved', amount: 5000 })?.value === 'approved', 'Status should be the categorical value');
+
 // ============================================
 // Test: Proof Score
 // ============================================
@@ -177,6 +650,63 @@ const proofFailed = calculateProofScore({
 });
 assert(proofFailed === 0.1, 'Failed verification should be 0.1');
 
+// Test 5: Verified proof of unrelated data
+const proofUnbound = calculateProofScore({
+  hasZkProof: true,
+  proofVerified: true,
+  proofDomain: 'api.coingecko.com',
+  dataBound: false,
+});
+assert(proofUnbound === 0.2, 'Verified proof not bound to the data should be 0.2');
+
+// Test 6: Domain that merely contains a trusted domain is not trusted
+const proofLookalike = calculateProofScore({
+  hasZkProof: true,
+  proofVerified: true,
+  proofDomain: 'api.coingecko.com.evil.io',
+});
+assert(proofLookalike === 0.9, 'Lookalike domain should not earn the trusted bonus');
+
+// ============================================
+// Test: Domain Policy
+// ============================================
+
+console.log('\n=== Domain Policy Tests ===\n');
+
+const domainMatch = checkDomainPolicy({
+  attested: 'https://api.coingecko.com/api/v3/simple/price',
+  declared: 'https://api.coingecko.com/api/v3/coins',
+});
+assert(domainMatch.status === 'trusted', 'Same trusted host should be trusted');
+
+const domainMismatch = checkDomainPolicy({
+  attested: 'https://api.coingecko.com/api/v3/simple/price',
+  declared: 'https://data.chain.link/eth-usd',
+});
+assert(domainMismatch.status === 'mismatch', 'Different declared host should be a mismatch');
+assert(domainMismatch.reason !== undefined, 'Mismatch should carry a reason');
+assert(
+  calculateProofScore({ hasZkProof: true, proofVerified: true, domainCheck: domainMismatch }) === 0.2,
+  'Domain mismatch should drop proof score to 0.2'
+);
+
+const domainDenied = checkDomainPolicy({ attested: 'http://localhost:3000/api' });
+assert(domainDenied.status === 'denied', 'Localhost should be denied');
+
+const allowlistPolicy = {
+  trustedHosts: [],
+  allowlists: { weather: ['*.weatherapi.com'] },
+  denyHosts: [],
+};
+assert(
+  checkDomainPolicy({ attested: 'api.weatherapi.com', dataType: 'weather' }, allowlistPolicy).status === 'allowed',
+  'Suffix rule should allow subdomain'
+);
+assert(
+  checkDomainPolicy({ attested: 'weatherapi.com.example', dataType: 'weather' }, allowlistPolicy).status === 'not_allowed',
+  'Host outside the dataType allowlist should not be allowed'
+);
+
 // ============================================
 // Test: Full Evaluation
 // ============================================
@@ -241,17 +771,270 @@ const genericResult = evaluateCredibility('random_type', baseScoresGood);
 assert(genericResult.formulaId === 'generic_v1', 'unknown type should use generic_v1');
 
 // ============================================
-// Summary
+// Test: Formula Expressions
+// ============================================
+
+console.log('\n=== Formula Expression Tests ===\n');
+
+// Strong source, time and accuracy with a failed proof
+const failedProofScores = { source: 0.95, time: 0.95, accuracy: 0.95, proof: 0.1 };
+const linearVerdict = evaluateCredibility('price_feed', failedProofScores);
+const strictVerdict = evaluateCredibility('price_feed', failedProofScores, 'price_feed_strict_v1');
+assert(linearVerdict.finalScore >= 70, `Weighted sum lets a failed proof through (got ${linearVerdict.finalScore})`);
+assert(strictVerdict.finalScore === 40 && strictVerdict.trustLevel === 'critical', `Proof veto should cap the score at 40 (got ${strictVerdict.finalScore})`);
+assert(strictVerdict.appliedRules?.[0].rule === 'if proof < 0.2 then score <= 40', 'Applied rules should be reported');
+assert(strictVerdict.explanation.includes('Rule: if proof < 0.2'), 'Applied rules should be explained');
+
+const weights = { source: 0.25, time: 0.25, accuracy: 0.25, proof: 0.25 };
+const mixed = { source: 1, time: 0.25, accuracy: 1, proof: 1 };
+const evaluateSource = (source: string, scores = mixed) =>
+  evaluateFormulaProgram(parseFormulaExpression(source), scores, weights).normalizedScore;
+
+assert(Math.abs(evaluateSource('score = weighted') - 0.8125) < 1e-9, 'weighted should be the weighted sum');
+assert(Math.abs(evaluateSource('score = geomean(source, time, accuracy, proof)') - Math.pow(0.25, 0.25)) < 1e-9, 'Geometric mean');
+assert(Math.abs(evaluateSource('score = harmean(source, time, accuracy, proof)') - 4 / 7) < 1e-9, 'Harmonic mean');
+assert(evaluateSource('score = min(weighted, time * 2)') === 0.5, 'min should gate the score');
+assert(evaluateSource('score = geomean(source, time)', { ...mixed, time: 0 }) === 0, 'A zero factor zeroes a geometric mean');
+assert(Math.abs(evaluateSource('floor time = 0.25; score = geomean(source, time)', { ...mixed, time: 0 }) - 0.5) < 1e-9, 'Factor floors apply before aggregation');
+assert(Math.abs(evaluateSource('if time < 0.5 then score >= 90') - 0.9) < 1e-9, 'Score floors raise the score');
+assert(evaluateSource('if time < 0.5 then score >= 90\nif time < 0.5 then score <= 30') === 0.3, 'Caps win over floors');
+
+assert(validateFormulaExpression('score = wgeomean(source, 1, proof)')?.includes('pairs') === true, 'Weighted means need pairs');
+assert(validateFormulaExpression('score = source +')?.includes('1:17') === true, 'Errors should carry their position');
+assert(validateFormulaExpression('score = process.exit(1)')?.includes('unknown function') === true, 'Only known functions may be called');
+assert(validateFormulaExpression('score = score * 2')?.includes('only be used in rules') === true, 'score cannot define itself');
+assert(validateFormulaExpression('score = proof; score = time') !== null, 'score is assigned once');
+assert(validateFormulaExpression(FORMULAS.price_feed_strict_v1.expression as string) === null, 'Built-in expressions should be valid');
+assert(
+  calculateCredibilityScore(baseScoresGood, { ...FORMULAS.price_feed_v1, expression: 'score = weighted' }).finalScore
+    === calculateCredibilityScore(baseScoresGood, FORMULAS.price_feed_v1).finalScore,
+  'An explicit weighted sum should match the default'
+);
+
+// ============================================
+// Test: Formula Registry
+// ============================================
+
+console.log('\n=== Formula Registry Tests ===\n');
+
+const formulaRegistry = new FormulaRegistry(DEFAULT_FORMULA_VERSIONS);
+const customFormula = {
+  id: 'custom_rwa_v1',
+  name: 'RWA Formula',
+  description: 'Real-world asset attestations',
+  weights: { source: 0.4, time: 0.1, accuracy: 0.2, proof: 0.3 },
+  applicableDataTypes: ['rwa_attestation'],
+  minAcceptableScore: 75,
+};
+
+assert(formulaRegistry.get('price_feed_v1')?.version === 1, 'Built-ins should be version 1');
+assert(formulaRegistry.getVersion('price_feed_v1')?.provenance === 'builtin', 'Built-ins should carry their provenance');
+assert(formulaRegistry.get('custom_rwa_v1') === undefined, 'Unregistered formulas are unknown');
+
+// Built-ins change by adding a version; hashes recorded under version 1 still resolve
+const privateV1Hash = '42e1ff07d937f5ea3c8b61d0083776a2350825484e870207e355f0c523e1109b';
+const strictV1Hash = 'f9c275cb1c2c866332a6c10b47907048bfa26582482f47696f2f6a91afb95ef7';
+assert(formulaRegistry.findByHash(privateV1Hash)?.version === 1, 'private_v1 version 1 should resolve by its original hash');
+assert(formulaRegistry.findByHash(strictV1Hash)?.formula.id === 'price_feed_strict_v1', 'price_feed_strict_v1 version 1 should resolve by its original hash');
+assert(formulaRegistry.getVersion('private_v1', 1)?.contentHash === privateV1Hash, 'Version 1 of a built-in should keep its definition');
+assert(formulaRegistry.get('private_v1')?.version === 2 && formulaRegistry.get('private_v1')?.trustBands !== undefined, 'The banded definition should be version 2');
+
+const rwaV1 = formulaRegistry.register(customFormula, 'ai-generated', 1000);
+assert(rwaV1.version === 1 && rwaV1.contentHash === hashFormula(customFormula), 'Registration should hash the formula');
+assert(formulaRegistry.register({ ...customFormula, name: 'Renamed' }) === rwaV1, 'Re-registering the same content keeps the version');
+assert(Object.isFrozen(rwaV1.formula) && Object.isFrozen(rwaV1.formula.weights), 'Registered versions are immutable');
+assert(formulaRegistry.select('rwa_attestation')?.id === 'custom_rwa_v1', 'Registered formulas should be selectable');
+assert(formulaRegistry.select('price_feed')?.id === 'price_feed_v1', 'Registration should not change built-in selection');
+
+const rwaV2 = formulaRegistry.register({ ...customFormula, minAcceptableScore: 80 }, 'admin:ops');
+assert(rwaV2.version === 2 && rwaV2.contentHash !== rwaV1.contentHash, 'Changed content should become the next version');
+assert(formulaRegistry.get('custom_rwa_v1')?.minAcceptableScore === 80, 'Lookups should return the newest version');
+assert(formulaRegistry.get('custom_rwa_v1', 1)?.minAcceptableScore === 75, 'Older versions stay resolvable');
+assert(formulaRegistry.listVersions('custom_rwa_v1').map(v => v.version).join() === '2,1', 'Versions should be listed newest first');
+assert(formulaRegistry.findByHash(rwaV1.contentHash)?.version === 1, 'Versions should be found by content hash');
+
+const rwaScored = calculateCredibilityScore(baseScoresGood, rwaV2.formula);
+assert(rwaScored.formulaVersion === 2 && rwaScored.formulaHash === rwaV2.contentHash, 'Scores should record the formula version and hash');
+assert(calculateCredibilityScore(baseScoresGood, FORMULAS.price_feed_v1).formulaHash === hashFormula(FORMULAS.price_feed_v1), 'Unregistered formulas are hashed too');
+
+assert(formulaRegistry.deprecate('custom_rwa_v1', 'Threshold too strict', 2).length === 1, 'A single version can be deprecated');
+assert(formulaRegistry.get('custom_rwa_v1')?.version === 1, 'Deprecating the newest version falls back to the previous one');
+formulaRegistry.deprecate('custom_rwa_v1', 'Superseded');
+assert(formulaRegistry.get('custom_rwa_v1') === undefined, 'Fully deprecated formulas are not used');
+assert(formulaRegistry.list().every(v => v.formula.id !== 'custom_rwa_v1'), 'Deprecated formulas are not listed');
+assert(formulaRegistry.list(true).some(v => v.formula.id === 'custom_rwa_v1'), 'Deprecated formulas can be listed');
+assert(formulaRegistry.select('rwa_attestation')?.id === 'generic_v1', 'Deprecated formulas are not selected');
+
+let fallbackDeprecated = true;
+try { formulaRegistry.deprecate('generic_v1', 'No'); } catch { fallbackDeprecated = false; }
+assert(!fallbackDeprecated, 'The fallback formula cannot be deprecated');
+
+let unknownRejected = false;
+try { evaluateCredibility('price_feed', baseScoresGood, 'no_such_formula'); } catch (error) {
+  unknownRejected = (error as Error).message === 'Unknown formula "no_such_formula"';
+}
+assert(unknownRejected, 'Unknown override IDs should be rejected, not silently replaced');
+
+assert(validateFormula({ ...customFormula, weights: { ...customFormula.weights, proof: 1.5 } }) !== null, 'Out-of-range weights are invalid');
+assert(validateFormula({ ...customFormula, expression: 'score = nope(1)' }) !== null, 'Invalid expressions are rejected');
+assert(validateFormula(customFormula) === null, 'Valid formulas pass validation');
+
+// ============================================
+// Test: Formula Composition
+// ============================================
+
+console.log('\n=== Formula Composition Tests ===\n');
+
+const stablecoinFormula = resolveFormula({
+  id: 'price_feed_stablecoin_v1',
+  extends: 'price_feed_v1',
+  tolerancePercent: 0.1,
+  minAcceptableScore: 85,
+}, FORMULAS.price_feed_v1);
+assert(stablecoinFormula.weights.time === FORMULAS.price_feed_v1.weights.time, 'Derived formulas inherit weights');
+assert(stablecoinFormula.minAcceptableScore === 85 && stablecoinFormula.tolerancePercent === 0.1, 'Overrides replace thresholds and tolerances');
+assert(stablecoinFormula.extends === 'price_feed_v1' && stablecoinFormula.version === undefined, 'Derived formulas record their parent, not its version');
+assert(hashFormula(stablecoinFormula) !== hashFormula({ ...stablecoinFormula, tolerancePercent: 0.2 }), 'Tolerance overrides change the content hash');
+
+const strictDerived = resolveFormula({ id: 'strict_no_veto', extends: 'price_feed_strict_v1', expression: null }, FORMULAS.price_feed_strict_v1);
+assert(strictDerived.expression === undefined, 'null drops the parent expression');
+
+let unbalancedRejected = false;
+try {
+  resolveFormula({ id: 'unbalanced', extends: 'price_feed_v1', weights: { proof: 0.3 } }, FORMULAS.price_feed_v1);
+} catch (error) {
+  unbalancedRejected = (error as Error).message.startsWith('Weights must sum to 1, got 1.15');
+}
+assert(unbalancedRejected, 'Replaced weights must still sum to 1');
+assert(validateFormula({ ...FORMULAS.generic_v1, weights: { source: 0.5, time: 0.5, accuracy: 0.5, proof: 0.5 } }) !== null, 'Registered formulas must sum to 1');
+
+const proofHeavy = resolveFormula({ id: 'proof_heavy', extends: 'price_feed_v1', weightAdjustments: { proof: 0.15 } }, FORMULAS.price_feed_v1);
+const proofHeavySum = proofHeavy.weights.source + proofHeavy.weights.time + proofHeavy.weights.accuracy + proofHeavy.weights.proof;
+assert(Math.abs(proofHeavySum - 1) < 1e-9 && proofHeavy.weights.proof > FORMULAS.price_feed_v1.weights.proof, 'Weight adjustments are renormalized');
+assert(
+  JSON.stringify(proofHeavy.weights) === JSON.stringify(applyWeightAdjustments(FORMULAS.price_feed_v1.weights, { proof: 0.15 })),
+  'Weight adjustments match applyWeightAdjustments'
+);
+
+const tenantRegistry = new FormulaRegistry(DEFAULT_FORMULA_VERSIONS);
+const heartbeatOverride = tenantRegistry.extend({
+  id: 'chainlink_price_relaxed_v1',
+  extends: 'price_feed_v1',
+  freshness: { decay: 'heartbeat', heartbeatSeconds: 7200 },
+}, 'admin:ops');
+assert(heartbeatOverride.version === 1 && heartbeatOverride.formula.freshness?.heartbeatSeconds === 7200, 'Extensions are registered with decay overrides');
+const chained = tenantRegistry.extend({ id: 'chainlink_price_relaxed_v2', extends: 'chainlink_price_relaxed_v1', minAcceptableScore: 80 });
+assert(chained.formula.freshness?.decay === 'heartbeat' && chained.formula.minAcceptableScore === 80, 'Extensions can be chained');
+assert(validateFormula({ ...FORMULAS.price_feed_v1, freshness: { decay: 'sudden' as never } }) !== null, 'Unknown decay models are rejected');
+
+let unknownParent = false;
+try { tenantRegistry.extend({ id: 'orphan', extends: 'nope_v1' }); } catch { unknownParent = true; }
+assert(unknownParent, 'Extending an unknown formula fails');
+
+// ============================================
+// Test: Trust Bands
+// ============================================
+
+console.log('\n=== Trust Band Tests ===\n');
+
+const priceBands = defaultTrustBands(70);
+assert(classifyTrustLevel(90, priceBands) === 'high', 'Default bands: high from 90');
+assert(classifyTrustLevel(70, priceBands) === 'medium' && classifyTrustLevel(89, priceBands) === 'medium', 'Default bands: medium from the threshold');
+assert(classifyTrustLevel(55, priceBands) === 'low' && classifyTrustLevel(54, priceBands) === 'untrusted', 'Default bands: low down to 15 below the threshold');
+
+const privateScores = { source: 0.9, time: 0.9, accuracy: 0.9, proof: 0.9 };
+const privateVerdict = evaluateCredibility('kyc', privateScores);
+assert(privateVerdict.formulaId === 'private_v1' && privateVerdict.trustLevel === 'medium', `private_v1 has a 10-point medium band (got ${privateVerdict.trustLevel} at ${privateVerdict.finalScore})`);
+assert(evaluateCredibility('kyc', { source: 0.2, time: 0.2, accuracy: 0.2, proof: 0.2 }).trustLevel === 'critical', 'private_v1 flags very low scores as critical');
+assert(evaluateCredibility('kyc', { source: 0.2, time: 0.2, accuracy: 0.2, proof: 0.2 }).explanation.includes('must not be used'), 'Critical scores are explained');
+
+assert(validateTrustBands([{ level: 'high', minScore: 80 }, { level: 'untrusted', minScore: 0 }]) === null, 'Bands may skip levels');
+assert(validateTrustBands([{ level: 'high', minScore: 80 }, { level: 'low', minScore: 10 }]) !== null, 'The last band must start at 0');
+assert(validateTrustBands([{ level: 'low', minScore: 80 }, { level: 'high', minScore: 0 }]) !== null, 'Bands go from most to least trusted');
+assert(validateTrustBands([{ level: 'high', minScore: 50 }, { level: 'medium', minScore: 60 }, { level: 'untrusted', minScore: 0 }]) !== null, 'Band boundaries must fall');
+assert(validateFormula({ ...FORMULAS.generic_v1, trustBands: [{ level: 'trusted' as never, minScore: 0 }, { level: 'low', minScore: 0 }] }) !== null, 'Formulas with invalid bands are rejected');
+
+const criticalBands = [{ level: 'high' as const, minScore: 85 }, { level: 'medium' as const, minScore: 70 }, { level: 'critical' as const, minScore: 0 }];
+const banded = resolveFormula({ id: 'price_feed_banded', extends: 'price_feed_v1', trustBands: criticalBands }, FORMULAS.price_feed_v1);
+assert(calculateCredibilityScore(baseScoresGood, banded).trustLevel === classifyTrustLevel(calculateCredibilityScore(baseScoresGood, banded).finalScore, criticalBands), 'Derived formulas use their own bands');
+assert(hashFormula(banded) !== hashFormula({ ...banded, trustBands: undefined }), 'Trust bands change the content hash');
+assert(resolveFormula({ id: 'private_defaults', extends: 'private_v1', trustBands: null }, FORMULAS.private_v1).trustBands === undefined, 'null restores the default bands');
+
+// The threshold and the lowest trusted band must agree
+assert(validateTrustBands(getTrustBands(FORMULAS.private_v1), 85) === null, 'Medium may start at the threshold');
+assert(validateTrustBands(getTrustBands(FORMULAS.private_v1), 70) !== null, 'Medium must start at the threshold');
+assert(validateFormula({ ...FORMULAS.private_v1, minAcceptableScore: 70 }) !== null, 'Formulas whose bands miss the threshold are rejected');
+let inheritedBandsRejected = false;
+try {
+  resolveFormula({ id: 'private_lenient', extends: 'private_v1', minAcceptableScore: 70 }, FORMULAS.private_v1);
+} catch {
+  inheritedBandsRejected = true;
+}
+assert(inheritedBandsRejected, 'A new threshold cannot keep the parent bands');
+const lenient = resolveFormula({ id: 'private_lenient', extends: 'private_v1', minAcceptableScore: 70, trustBands: null }, FORMULAS.private_v1);
+assert(validateFormula(lenient) === null && classifyTrustLevel(70, getTrustBands(lenient)) === 'medium', 'A new threshold with default bands is valid');
+
+// ============================================
+// Test: Counterfactuals
 // ============================================
 
-console.log('\n========================================');
-console.log('All tests passed! ✅');
-console.log('========================================\n');
+console.log('\n=== Counterfactual Tests ===\n');
+
+const unprovenScores = { source: 0.75, time: 0.5, accuracy: 0.8, proof: 0.4 };
+const counterfactualFreshness = { maxAcceptableAgeSeconds: 300, decay: 'exponential' as const };
+const counterfactual = analyzeCounterfactuals(unprovenScores, FORMULAS.price_feed_v1, { freshness: counterfactualFreshness });
+console.log(`${counterfactual.finalScore} (${counterfactual.trustLevel}) -> ${counterfactual.target?.level}`);
+for (const change of counterfactual.changes) {
+  console.log(`  ${change.factor}: ${change.suggestion}`);
+}
+
+assert(counterfactual.target !== undefined && counterfactual.target.minScore > counterfactual.finalScore, 'The target is the next band up');
+for (const change of counterfactual.changes) {
+  assert(change.trustLevel === counterfactual.target?.level, `Changing ${change.factor} reaches ${counterfactual.target?.level}`);
+  if (change.factor !== 'proof' && change.to - 0.002 > change.from) {
+    const lower = calculateCredibilityScore({ ...unprovenScores, [change.factor]: change.to - 0.002 }, FORMULAS.price_feed_v1);
+    assert(lower.trustLevel === counterfactual.trustLevel, `${change.factor} change is minimal`);
+  }
+}
+assert(counterfactual.changes.every((change, i, all) => i === 0 || all[i - 1].to - all[i - 1].from <= change.to - change.from), 'Changes are ordered smallest first');
+
+const proofChange = counterfactual.changes.find(change => change.factor === 'proof');
+assert(proofChange !== undefined && [0.5, 0.9, 1].includes(proofChange.to) && proofChange.suggestion.includes('verified proof'), 'Proof changes name a kind of proof');
+assert(
+  proofChange !== undefined && proofChange.proofOutcome === ({ 0.5: 'outside_policy', 0.9: 'verified', 1: 'trusted' } as const)[proofChange.to as 0.5 | 0.9 | 1],
+  'Proof changes carry an outcome key matching the proof score'
+);
 
-// Print formula weights for reference
-console.log('Formula Weights Reference:');
-for (const [id, formula] of Object.entries(FORMULAS)) {
-  console.log(`\n${formula.name} (${id}):`);
-  console.log(`  S=${formula.weights.source} T=${formula.weights.time} A=${formula.weights.accuracy} P=${formula.weights.proof}`);
-  console.log(`  Min acceptable: ${formula.minAcceptableScore}`);
+const timeChange = counterfactual.changes.find(change => change.factor === 'time');
+if (timeChange?.maxAgeSeconds !== undefined) {
+  assert(scoreFreshness(timeChange.maxAgeSeconds, counterfactualFreshness) >= timeChange.to, 'Data at the max age reaches the required time score');
+  assert(scoreFreshness(timeChange.maxAgeSeconds + 2, counterfactualFreshness) < timeChange.to, 'Older data does not');
+  assert(timeChange.suggestion.startsWith(`Data must be under ${timeChange.maxAgeSeconds}s old`), 'Time changes are phrased as a data age');
+} else {
+  assert(counterfactual.unreachable.includes('time'), 'Time is either reachable with a max age or unreachable');
 }
+assert(maxAgeForTimeScore(1.1, counterfactualFreshness) === null, 'Unreachable time scores have no max age');
+
+const topBand = analyzeCounterfactuals({ source: 1, time: 1, accuracy: 1, proof: 1 }, FORMULAS.price_feed_v1);
+assert(topBand.target === undefined && topBand.changes.length === 0, 'Nothing to change in the top band');
+
+const hopeless = analyzeCounterfactuals({ source: 0.1, time: 0.1, accuracy: 0.1, proof: 0.1 }, FORMULAS.price_feed_v1);
+assert(hopeless.changes.length + hopeless.unreachable.length === 4, 'Every factor is either a change or unreachable');
+
+// ============================================
+// Summary
+// ============================================
+
+testLivenessRecording().then(() => {
+  console.log('\n========================================');
+  console.log('All tests passed! ✅');
+  console.log('========================================\n');
+
+  // Print formula weights for reference
+  console.log('Formula Weights Reference:');
+  for (const [id, formula] of Object.entries(FORMULAS)) {
+    console.log(`\n${formula.name} (${id}):`);
+    console.log(`  S=${formula.weights.source} T=${formula.weights.time} A=${formula.weights.accuracy} P=${formula.weights.proof}`);
+    console.log(`  Min acceptable: ${formula.minAcceptableScore}`);
+  }
+});
@@ -0,0 +1,147 @@
+/**
+ * OracleLens Formula Composition
+ *
+ * A formula can extend another and override only what differs - e.g.
+ * "price_feed_v1 but tolerance 0.1% and min score 85" - instead of copying
+ * its weights. Resolution produces the effective formula, which is what
+ * gets registered and hashed, so a derived version does not change when
+ * its parent gets a new version later.
+ */
+
+import type { FreshnessProfile } from './freshness';
+import type { Formula, FormulaWeights } from './formulas';
+import type { TrustBand } from './trustBands';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FormulaOverride {
+  id: string;
+  extends: string;                              // Parent formula id
+  name?: string;
+  description?: string;
+  weights?: Partial<FormulaWeights>;            // Replace these weights (the result must sum to 1)
+  weightAdjustments?: Partial<FormulaWeights>;  // Shift weights, renormalized to sum to 1
+  applicableDataTypes?: string[];
+  minAcceptableScore?: number;
+  expression?: string | null;                   // null drops the parent's expression
+  tolerancePercent?: number;
+  freshness?: Partial<FreshnessProfile>;        // Merged over the parent's freshness settings
+  trustBands?: TrustBand[] | null;              // null goes back to the default bands
+}
+
+// ============================================
+// Weights
+// ============================================
+
+// Weights may be off from 1 by float rounding, not more
+export const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+const FACTORS = ['source', 'time', 'accuracy', 'proof'] as const;
+
+/**
+ * Reason weights would be rejected for not summing to 1, or null.
+ */
+export function validateWeightSum(weights: FormulaWeights): string | null {
+  const sum = FACTORS.reduce((total, factor) => total + weights[factor], 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    return `Weights must sum to 1, got ${Number(sum.toFixed(6))}`;
+  }
+  return null;
+}
+
+/**
+ * Apply weight adjustments (e.g. AI-suggested) to base weights.
+ * Ensures weights still sum to 1.0 after adjustments.
+ */
+export function applyWeightAdjustments(
+  baseWeights: FormulaWeights,
+  adjustments?: Partial<FormulaWeights>
+): FormulaWeights {
+  if (!adjustments) return baseWeights;
+
+  // Apply adjustments
+  let adjusted = {
+    source: baseWeights.source + (adjustments.source ?? 0),
+    time: baseWeights.time + (adjustments.time ?? 0),
+    accuracy: baseWeights.accuracy + (adjustments.accuracy ?? 0),
+    proof: baseWeights.proof + (adjustments.proof ?? 0),
+  };
+
+  // Clamp individual weights to [0.05, 0.7]
+  adjusted = {
+    source: Math.max(0.05, Math.min(0.7, adjusted.source)),
+    time: Math.max(0.05, Math.min(0.7, adjusted.time)),
+    accuracy: Math.max(0.05, Math.min(0.7, adjusted.accuracy)),
+    proof: Math.max(0.05, Math.min(0.7, adjusted.proof)),
+  };
+
+  // Normalize to sum to 1.0
+  const sum = adjusted.source + adjusted.time + adjusted.accuracy + adjusted.proof;
+  return {
+    source: adjusted.source / sum,
+    time: adjusted.time / sum,
+    accuracy: adjusted.accuracy / sum,
+    proof: adjusted.proof / sum,
+  };
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * The effective formula of an override on top of its parent. Weights are
+ * replaced first, then adjusted. Throws if the parent does not match, the
+ * resulting weights do not sum to 1, or a new minAcceptableScore would keep
+ * the parent's trust bands (run validateFormula for the rest).
+ */
+export function resolveFormula(override: FormulaOverride, parent: Formula): Formula {
+  if (parent.id !== override.extends) {
+    throw new Error(`Formula "${override.id}" extends "${override.extends}", got "${parent.id}"`);
+  }
+
+  const replaced: FormulaWeights = { ...parent.weights, ...override.weights };
+  const weights = applyWeightAdjustments(replaced, override.weightAdjustments);
+  const invalidWeights = validateWeightSum(weights);
+  if (invalidWeights) {
+    throw new Error(`${invalidWeights} in formula "${override.id}"`);
+  }
+
+  // The parent's bands start "medium" at its threshold, so a new threshold needs its own bands
+  if (
+    override.minAcceptableScore !== undefined
+    && override.minAcceptableScore !== parent.minAcceptableScore
+    && override.trustBands === undefined
+    && parent.trustBands
+  ) {
+    throw new Error(
+      `Formula "${override.id}" changes minAcceptableScore but would inherit the trust bands of "${parent.id}"; `
+      + 'override trustBands as well (null for the default bands)'
+    );
+  }
+
+  // The parent's version is not inherited, its expression and bands only if not overridden
+  const inherited: Formula = { ...parent };
+  delete inherited.version;
+  delete inherited.expression;
+  delete inherited.trustBands;
+  const expression = override.expression === null ? undefined : override.expression ?? parent.expression;
+  const trustBands = override.trustBands === null ? undefined : override.trustBands ?? parent.trustBands;
+
+  return {
+    ...inherited,
+    id: override.id,
+    name: override.name ?? `${parent.name} (${override.id})`,
+    description: override.description ?? parent.description,
+    weights,
+    applicableDataTypes: override.applicableDataTypes ?? [...parent.applicableDataTypes],
+    minAcceptableScore: override.minAcceptableScore ?? parent.minAcceptableScore,
+    extends: parent.id,
+    ...(expression !== undefined ? { expression } : {}),
+    ...(override.tolerancePercent !== undefined ? { tolerancePercent: override.tolerancePercent } : {}),
+    ...(override.freshness ? { freshness: { ...parent.freshness, ...override.freshness } } : {}),
+    ...(trustBands !== undefined ? { trustBands: trustBands.map(band => ({ ...band })) } : {}),
+  };
+}
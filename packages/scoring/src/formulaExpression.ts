@@ -0,0 +1,569 @@
+/**
+ * OracleLens Formula Expressions
+ *
+ * A small, safe language for formulas that a weighted sum cannot express:
+ * non-linear aggregation, gates and vetoes. A program is a list of
+ * statements separated by newlines or ";":
+ *
+ *   floor time = 0.05                             factor floor (before aggregation)
+ *   score = wgeomean(source, weight.source, time, weight.time, accuracy, weight.accuracy, proof, weight.proof)
+ *   if proof < 0.2 then score <= 40               hard cap on the 0-100 score
+ *   if source >= 0.9 and proof >= 0.9 then score >= 80
+ *
+ * Variables: source, time, accuracy, proof (0-1, after floors), weight.<factor>
+ * and weighted (the formula's weighted sum). Rules may also use score (0-100,
+ * before rules). Without a score statement the weighted sum is used.
+ *
+ * Functions: min, max, clamp, abs, sqrt, pow, mean, geomean, harmean and the
+ * weighted wmean, wgeomean, wharmean (value, weight, value, weight, ...).
+ * Comparisons and and/or/not yield 1 or 0. There are no loops, assignments
+ * to other names or host access; evaluation is deterministic.
+ */
+
+import type { BaseScores } from './baseScores';
+import type { FormulaWeights } from './formulas';
+
+// ============================================
+// Types
+// ============================================
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; operand: ExpressionNode }
+  | { kind: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '<' | '<=' | '>' | '>=' | '==' | '!=' | 'and' | 'or';
+
+export interface FormulaRule {
+  condition: ExpressionNode;
+  bound: 'cap' | 'floor';    // score <= limit / score >= limit
+  limit: ExpressionNode;     // On the 0-100 scale
+  text: string;              // Source of the statement
+}
+
+export interface FactorFloor {
+  factor: keyof BaseScores;
+  value: number;             // 0-1
+  text: string;
+}
+
+export interface FormulaProgram {
+  source: string;
+  score: ExpressionNode | null;  // null = weighted sum
+  rules: FormulaRule[];
+  floors: FactorFloor[];
+}
+
+export interface AppliedFormulaRule {
+  rule: string;
+  bound: 'cap' | 'floor';
+  limit: number;             // 0-100
+  scoreBefore: number;       // 0-100
+}
+
+export interface ExpressionEvaluation {
+  normalizedScore: number;   // 0-1, after rules
+  aggregateScore: number;    // 0-1, from the score statement before rules
+  appliedRules: AppliedFormulaRule[];
+  flooredFactors: Array<keyof BaseScores>;
+}
+
+// ============================================
+// Language Definition
+// ============================================
+
+const FACTORS: ReadonlyArray<keyof BaseScores> = ['source', 'time', 'accuracy', 'proof'];
+
+const KEYWORDS = new Set(['if', 'then', 'and', 'or', 'not', 'score', 'floor']);
+
+// Arity: [min, max] arguments (max Infinity = variadic); weighted functions take pairs
+const FUNCTIONS: Record<string, { min: number; max: number; pairs?: boolean }> = {
+  min: { min: 1, max: Infinity },
+  max: { min: 1, max: Infinity },
+  clamp: { min: 3, max: 3 },
+  abs: { min: 1, max: 1 },
+  sqrt: { min: 1, max: 1 },
+  pow: { min: 2, max: 2 },
+  mean: { min: 1, max: Infinity },
+  geomean: { min: 1, max: Infinity },
+  harmean: { min: 1, max: Infinity },
+  wmean: { min: 2, max: Infinity, pairs: true },
+  wgeomean: { min: 2, max: Infinity, pairs: true },
+  wharmean: { min: 2, max: Infinity, pairs: true },
+};
+
+const SCORE_VARIABLES = new Set<string>([
+  ...FACTORS,
+  ...FACTORS.map(factor => `weight.${factor}`),
+  'weighted',
+]);
+
+// Rules may also look at the aggregated score
+const RULE_VARIABLES = new Set<string>([...SCORE_VARIABLES, 'score']);
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'separator' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '+', '-', '*', '/', '(', ')', ',', '<', '>', '='];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const column = i - lineStart + 1;
+
+    if (char === '\n' || char === ';') {
+      tokens.push({ type: 'separator', text: char, line, column });
+      if (char === '\n') {
+        line += 1;
+        lineStart = i + 1;
+      }
+      i += 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+    if (char === '#') {
+      // Comment to end of line
+      while (i < source.length && source[i] !== '\n') i += 1;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], line, column });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i));
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], line, column });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, line, column });
+      i += operator.length;
+      continue;
+    }
+
+    throw new Error(`Formula expression error at ${line}:${column}: unexpected character "${char}"`);
+  }
+
+  tokens.push({ type: 'end', text: '', line, column: i - lineStart + 1 });
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parseProgram(): FormulaProgram {
+    const program: FormulaProgram = { source: this.source, score: null, rules: [], floors: [] };
+
+    while (this.peek().type !== 'end') {
+      if (this.peek().type === 'separator') {
+        this.position += 1;
+        continue;
+      }
+
+      const start = this.peek();
+      if (this.acceptKeyword('score')) {
+        if (program.score) this.fail(start, 'score is assigned more than once');
+        this.expectOperator('=');
+        program.score = this.parseExpression(SCORE_VARIABLES);
+      } else if (this.acceptKeyword('if')) {
+        const condition = this.parseExpression(RULE_VARIABLES);
+        this.expectKeyword('then');
+        this.expectKeyword('score');
+        const bound = this.peek();
+        if (!this.acceptOperator('<=') && !this.acceptOperator('>=')) {
+          this.fail(bound, 'expected "<=" (cap) or ">=" (floor) after "then score"');
+        }
+        const limit = this.parseExpression(RULE_VARIABLES);
+        program.rules.push({
+          condition,
+          bound: bound.text === '<=' ? 'cap' : 'floor',
+          limit,
+          text: this.textFrom(start),
+        });
+      } else if (this.acceptKeyword('floor')) {
+        const factor = this.next();
+        if (factor.type !== 'identifier' || !FACTORS.includes(factor.text as keyof BaseScores)) {
+          this.fail(factor, `expected a factor (${FACTORS.join(', ')}) after "floor"`);
+        }
+        this.expectOperator('=');
+        const value = this.next();
+        if (value.type !== 'number' || Number(value.text) > 1) {
+          this.fail(value, 'factor floors must be a number between 0 and 1');
+        }
+        program.floors.push({ factor: factor.text as keyof BaseScores, value: Number(value.text), text: this.textFrom(start) });
+      } else {
+        this.fail(start, 'expected "score =", "if ... then score <=/>= ..." or "floor <factor> = <number>"');
+      }
+
+      const end = this.peek();
+      if (end.type !== 'separator' && end.type !== 'end') {
+        this.fail(end, `unexpected "${end.text}"`);
+      }
+    }
+
+    return program;
+  }
+
+  // or < and < not < comparison < additive < multiplicative < unary < primary
+  private parseExpression(variables: Set<string>): ExpressionNode {
+    return this.parseOr(variables);
+  }
+
+  private parseOr(variables: Set<string>): ExpressionNode {
+    let left = this.parseAnd(variables);
+    while (this.acceptKeyword('or')) {
+      left = { kind: 'binary', op: 'or', left, right: this.parseAnd(variables) };
+    }
+    return left;
+  }
+
+  private parseAnd(variables: Set<string>): ExpressionNode {
+    let left = this.parseNot(variables);
+    while (this.acceptKeyword('and')) {
+      left = { kind: 'binary', op: 'and', left, right: this.parseNot(variables) };
+    }
+    return left;
+  }
+
+  private parseNot(variables: Set<string>): ExpressionNode {
+    if (this.acceptKeyword('not')) {
+      return { kind: 'unary', op: 'not', operand: this.parseNot(variables) };
+    }
+    return this.parseComparison(variables);
+  }
+
+  private parseComparison(variables: Set<string>): ExpressionNode {
+    const left = this.parseAdditive(variables);
+    const op = ['<', '<=', '>', '>=', '==', '!='].find(candidate => this.acceptOperator(candidate));
+    if (!op) return left;
+    return { kind: 'binary', op: op as BinaryOperator, left, right: this.parseAdditive(variables) };
+  }
+
+  private parseAdditive(variables: Set<string>): ExpressionNode {
+    let left = this.parseMultiplicative(variables);
+    for (;;) {
+      const op = ['+', '-'].find(candidate => this.acceptOperator(candidate));
+      if (!op) return left;
+      left = { kind: 'binary', op: op as BinaryOperator, left, right: this.parseMultiplicative(variables) };
+    }
+  }
+
+  private parseMultiplicative(variables: Set<string>): ExpressionNode {
+    let left = this.parseUnary(variables);
+    for (;;) {
+      const op = ['*', '/'].find(candidate => this.acceptOperator(candidate));
+      if (!op) return left;
+      left = { kind: 'binary', op: op as BinaryOperator, left, right: this.parseUnary(variables) };
+    }
+  }
+
+  private parseUnary(variables: Set<string>): ExpressionNode {
+    if (this.acceptOperator('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary(variables) };
+    }
+    return this.parsePrimary(variables);
+  }
+
+  private parsePrimary(variables: Set<string>): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.text) };
+    }
+
+    if (token.type === 'operator' && token.text === '(') {
+      const inner = this.parseExpression(variables);
+      this.expectOperator(')');
+      return inner;
+    }
+
+    if (token.type === 'identifier' && this.acceptOperator('(')) {
+      const definition = FUNCTIONS[token.text];
+      if (!definition) this.fail(token, `unknown function "${token.text}"`);
+
+      const args: ExpressionNode[] = [];
+      if (!this.acceptOperator(')')) {
+        do {
+          args.push(this.parseExpression(variables));
+        } while (this.acceptOperator(','));
+        this.expectOperator(')');
+      }
+
+      if (args.length < definition.min || args.length > definition.max) {
+        this.fail(token, `${token.text} takes ${definition.min === definition.max ? definition.min : `at least ${definition.min}`} arguments, got ${args.length}`);
+      }
+      if (definition.pairs && args.length % 2 !== 0) {
+        this.fail(token, `${token.text} takes value, weight pairs`);
+      }
+      return { kind: 'call', name: token.text, args };
+    }
+
+    if (token.type === 'identifier' && (!KEYWORDS.has(token.text) || token.text === 'score')) {
+      if (!variables.has(token.text)) {
+        this.fail(token, token.text === 'score'
+          ? 'score can only be used in rules'
+          : `unknown variable "${token.text}"`);
+      }
+      return { kind: 'variable', name: token.text };
+    }
+
+    return this.fail(token, token.type === 'end' ? 'unexpected end of expression' : `unexpected "${token.text}"`);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') this.position += 1;
+    return token;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && token.text === keyword) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(this.peek(), `expected "${keyword}"`);
+  }
+
+  private acceptOperator(op: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.text === op) {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(op: string): void {
+    if (!this.acceptOperator(op)) this.fail(this.peek(), `expected "${op}"`);
+  }
+
+  // Source text of the statement starting at `start` (statements never span lines)
+  private textFrom(start: Token): string {
+    const end = this.tokens[this.position - 1];
+    const line = this.source.split('\n')[start.line - 1];
+    return line.slice(start.column - 1, end.column - 1 + end.text.length).trim();
+  }
+
+  private fail(token: Token, message: string): never {
+    throw new Error(`Formula expression error at ${token.line}:${token.column}: ${message}`);
+  }
+}
+
+/**
+ * Parse a formula program. Throws with the line and column of the first error.
+ */
+export function parseFormulaExpression(source: string): FormulaProgram {
+  return new Parser(tokenize(source), source).parseProgram();
+}
+
+/**
+ * Reason a formula program would be rejected, or null if it is valid.
+ */
+export function validateFormulaExpression(source: string): string | null {
+  try {
+    parseFormulaExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function weightedPairs(values: number[]): Array<{ value: number; weight: number }> {
+  const pairs: Array<{ value: number; weight: number }> = [];
+  for (let i = 0; i < values.length; i += 2) {
+    pairs.push({ value: values[i], weight: values[i + 1] });
+  }
+  return pairs.filter(pair => pair.weight > 0);
+}
+
+function weightedMean(pairs: Array<{ value: number; weight: number }>): number {
+  const total = pairs.reduce((sum, pair) => sum + pair.weight, 0);
+  return total > 0 ? pairs.reduce((sum, pair) => sum + pair.value * pair.weight, 0) / total : 0;
+}
+
+// Any non-positive value makes geometric and harmonic means 0
+function weightedGeometricMean(pairs: Array<{ value: number; weight: number }>): number {
+  const total = pairs.reduce((sum, pair) => sum + pair.weight, 0);
+  if (total === 0 || pairs.some(pair => pair.value <= 0)) return 0;
+  return Math.exp(pairs.reduce((sum, pair) => sum + pair.weight * Math.log(pair.value), 0) / total);
+}
+
+function weightedHarmonicMean(pairs: Array<{ value: number; weight: number }>): number {
+  const total = pairs.reduce((sum, pair) => sum + pair.weight, 0);
+  if (total === 0 || pairs.some(pair => pair.value <= 0)) return 0;
+  return total / pairs.reduce((sum, pair) => sum + pair.weight / pair.value, 0);
+}
+
+const unweighted = (values: number[]) => values.map(value => ({ value, weight: 1 }));
+
+function callFunction(name: string, args: number[]): number {
+  switch (name) {
+    case 'min': return Math.min(...args);
+    case 'max': return Math.max(...args);
+    case 'clamp': return Math.max(args[1], Math.min(args[2], args[0]));
+    case 'abs': return Math.abs(args[0]);
+    case 'sqrt': return Math.sqrt(args[0]);
+    case 'pow': return Math.pow(args[0], args[1]);
+    case 'mean': return weightedMean(unweighted(args));
+    case 'geomean': return weightedGeometricMean(unweighted(args));
+    case 'harmean': return weightedHarmonicMean(unweighted(args));
+    case 'wmean': return weightedMean(weightedPairs(args));
+    case 'wgeomean': return weightedGeometricMean(weightedPairs(args));
+    case 'wharmean': return weightedHarmonicMean(weightedPairs(args));
+    default: throw new Error(`Unknown function "${name}"`);
+  }
+}
+
+/**
+ * Evaluate one expression against variable values.
+ */
+export function evaluateExpression(node: ExpressionNode, variables: Record<string, number>): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable': {
+      const value = variables[node.name];
+      if (value === undefined) throw new Error(`Unknown variable "${node.name}"`);
+      return value;
+    }
+    case 'unary': {
+      const operand = evaluateExpression(node.operand, variables);
+      return node.op === '-' ? -operand : (operand === 0 ? 1 : 0);
+    }
+    case 'call':
+      return callFunction(node.name, node.args.map(arg => evaluateExpression(arg, variables)));
+    case 'binary': {
+      // and/or short-circuit
+      if (node.op === 'and') {
+        return evaluateExpression(node.left, variables) !== 0 && evaluateExpression(node.right, variables) !== 0 ? 1 : 0;
+      }
+      if (node.op === 'or') {
+        return evaluateExpression(node.left, variables) !== 0 || evaluateExpression(node.right, variables) !== 0 ? 1 : 0;
+      }
+      const left = evaluateExpression(node.left, variables);
+      const right = evaluateExpression(node.right, variables);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new Error('Division by zero');
+          return left / right;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
+    }
+  }
+}
+
+/**
+ * Score base scores with a formula program: apply factor floors, aggregate
+ * (score statement or weighted sum), then floors and caps from the rules.
+ * A cap always wins over a floor.
+ */
+export function evaluateFormulaProgram(
+  program: FormulaProgram,
+  baseScores: BaseScores,
+  weights: FormulaWeights
+): ExpressionEvaluation {
+  const factors: BaseScores = { ...baseScores };
+  const flooredFactors: Array<keyof BaseScores> = [];
+  for (const floor of program.floors) {
+    if (factors[floor.factor] < floor.value) {
+      factors[floor.factor] = floor.value;
+      flooredFactors.push(floor.factor);
+    }
+  }
+
+  const variables: Record<string, number> = { ...factors };
+  for (const factor of FACTORS) {
+    variables[`weight.${factor}`] = weights[factor];
+  }
+  variables.weighted = FACTORS.reduce((sum, factor) => sum + factors[factor] * weights[factor], 0);
+
+  const aggregate = program.score ? evaluateExpression(program.score, variables) : variables.weighted;
+  if (!Number.isFinite(aggregate)) {
+    throw new Error(`Formula expression produced a non-finite score (${aggregate})`);
+  }
+  const aggregateScore = Math.max(0, Math.min(1, aggregate));
+
+  // Rules see the aggregated score on the 0-100 scale
+  const ruleVariables = { ...variables, score: aggregateScore * 100 };
+  const appliedRules: AppliedFormulaRule[] = [];
+  let floor = 0;
+  let cap = 100;
+
+  for (const rule of program.rules) {
+    if (evaluateExpression(rule.condition, ruleVariables) === 0) continue;
+    const limit = evaluateExpression(rule.limit, ruleVariables);
+    if (!Number.isFinite(limit)) {
+      throw new Error(`Rule "${rule.text}" produced a non-finite limit (${limit})`);
+    }
+
+    const wouldChange = rule.bound === 'cap' ? aggregateScore * 100 > limit : aggregateScore * 100 < limit;
+    if (rule.bound === 'cap') cap = Math.min(cap, limit);
+    else floor = Math.max(floor, limit);
+    if (wouldChange) {
+      appliedRules.push({ rule: rule.text, bound: rule.bound, limit, scoreBefore: aggregateScore * 100 });
+    }
+  }
+
+  const bounded = Math.min(cap, Math.max(floor, aggregateScore * 100));
+
+  return {
+    normalizedScore: Math.max(0, Math.min(1, bounded / 100)),
+    aggregateScore,
+    appliedRules,
+    flooredFactors,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * OracleLens Formula Registry
+ *
+ * Every formula scoring can use: the built-ins plus formulas registered at
+ * runtime (AI-generated or added by an admin). A version never changes once
+ * registered - changing a formula registers the next version - and each
+ * version carries a content hash, so an evaluation can record exactly
+ * which definition scored it. Deprecated versions stay resolvable for
+ * audits but are no longer selected.
+ */
+
+import { createHash } from 'crypto';
+import type { Formula } from './formulas';
+import { validateFormulaExpression } from './formulaExpression';
+import { resolveFormula, validateWeightSum, type FormulaOverride } from './formulaComposition';
+import { DECAY_CURVES } from './freshness';
+import { validateTrustBands, type TrustBand } from './trustBands';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FormulaVersion {
+  formula: Formula;             // Frozen definition, with its version set
+  version: number;              // 1, 2, ... per formula id
+  contentHash: string;          // sha256 of the scoring-relevant definition (see hashFormula)
+  provenance: string;           // e.g. "builtin", "ai-generated", "admin:ops"
+  registeredAt: number;         // Unix ms
+  deprecatedAt?: number;        // Unix ms
+  deprecationReason?: string;
+}
+
+/**
+ * Persistence behind a registry (e.g. a database table).
+ */
+export interface FormulaStore {
+  list(): Promise<FormulaVersion[]>;
+  insert(version: FormulaVersion): Promise<void>;
+  deprecate(formulaId: string, version: number, deprecatedAt: number, reason: string): Promise<void>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export const BUILTIN_FORMULA_PROVENANCE = 'builtin';
+
+/**
+ * Content hash of a formula: everything that changes its score, not its
+ * name, description, parent or version. Tolerance, freshness and trust
+ * band settings only take part when set, so hashes of formulas without
+ * them are stable.
+ */
+export function hashFormula(formula: Formula): string {
+  const content: Record<string, unknown> = {
+    id: formula.id,
+    weights: [formula.weights.source, formula.weights.time, formula.weights.accuracy, formula.weights.proof],
+    minAcceptableScore: formula.minAcceptableScore,
+    expression: formula.expression ?? null,
+  };
+  if (formula.tolerancePercent !== undefined) {
+    content.tolerancePercent = formula.tolerancePercent;
+  }
+  if (formula.trustBands) {
+    content.trustBands = formula.trustBands.map(band => [band.level, band.minScore]);
+  }
+  if (formula.freshness) {
+    const freshness = formula.freshness;
+    content.freshness = (Object.keys(freshness) as Array<keyof typeof freshness>)
+      .filter(key => freshness[key] !== undefined)
+      .sort()
+      .map(key => [key, freshness[key]]);
+  }
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Reason a formula would be rejected, or null if it is valid.
+ */
+export function validateFormula(formula: Formula): string | null {
+  if (typeof formula.id !== 'string' || !/^[a-z0-9_.-]+$/i.test(formula.id)) {
+    return `Invalid formula id "${formula.id}"`;
+  }
+  if (typeof formula.name !== 'string' || !formula.name.trim()) {
+    return 'Formulas need a name';
+  }
+  for (const factor of ['source', 'time', 'accuracy', 'proof'] as const) {
+    const weight = formula.weights?.[factor];
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+      return `Weight "${factor}" must be between 0 and 1, got ${weight}`;
+    }
+  }
+  if (!Array.isArray(formula.applicableDataTypes) || formula.applicableDataTypes.some(type => typeof type !== 'string')) {
+    return 'applicableDataTypes must be an array of strings';
+  }
+  const invalidSum = validateWeightSum(formula.weights);
+  if (invalidSum) {
+    return invalidSum;
+  }
+  if (!Number.isFinite(formula.minAcceptableScore) || formula.minAcceptableScore < 0 || formula.minAcceptableScore > 100) {
+    return `minAcceptableScore must be between 0 and 100, got ${formula.minAcceptableScore}`;
+  }
+  if (formula.tolerancePercent !== undefined && (!Number.isFinite(formula.tolerancePercent) || formula.tolerancePercent <= 0)) {
+    return `tolerancePercent must be a positive number, got ${formula.tolerancePercent}`;
+  }
+  if (formula.trustBands !== undefined) {
+    const invalidBands = validateTrustBands(formula.trustBands, formula.minAcceptableScore);
+    if (invalidBands) {
+      return invalidBands;
+    }
+  }
+  if (formula.freshness) {
+    const { decay, maxAcceptableAgeSeconds, heartbeatSeconds, clockSkewSeconds } = formula.freshness;
+    if (decay !== undefined && !(decay in DECAY_CURVES)) {
+      return `Unknown decay model "${decay}"`;
+    }
+    for (const [field, seconds] of Object.entries({ maxAcceptableAgeSeconds, heartbeatSeconds, clockSkewSeconds })) {
+      if (seconds !== undefined && (!Number.isFinite(seconds) || seconds < 0 || (seconds === 0 && field !== 'clockSkewSeconds'))) {
+        return `freshness.${field} must be a positive number of seconds, got ${seconds}`;
+      }
+    }
+  }
+  if (formula.expression !== undefined) {
+    return validateFormulaExpression(formula.expression);
+  }
+  return null;
+}
+
+function freezeFormula(formula: Formula, version: number): Formula {
+  return Object.freeze({
+    ...formula,
+    version,
+    weights: Object.freeze({ ...formula.weights }),
+    applicableDataTypes: Object.freeze([...formula.applicableDataTypes]) as string[],
+    ...(formula.freshness ? { freshness: Object.freeze({ ...formula.freshness }) } : {}),
+    ...(formula.trustBands
+      ? { trustBands: Object.freeze(formula.trustBands.map(band => Object.freeze({ ...band }))) as TrustBand[] }
+      : {}),
+  });
+}
+
+/**
+ * Every version of each built-in formula: its earlier definitions in
+ * `history` (oldest first) from version 1, then the current one.
+ */
+export function builtinFormulaVersions(formulas: Formula[], history: Formula[] = []): FormulaVersion[] {
+  return formulas.flatMap(formula => [...history.filter(earlier => earlier.id === formula.id), formula]
+    .map((definition, index) => ({
+      formula: freezeFormula(definition, index + 1),
+      version: index + 1,
+      contentHash: hashFormula(definition),
+      provenance: BUILTIN_FORMULA_PROVENANCE,
+      registeredAt: 0,
+    })));
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export class FormulaRegistry {
+  private versions: FormulaVersion[] = [];
+
+  constructor(versions: FormulaVersion[] = []) {
+    this.replaceAll(versions);
+  }
+
+  /**
+   * Replace every version (e.g. after loading from a store).
+   */
+  replaceAll(versions: FormulaVersion[]): void {
+    this.versions = versions.map(entry => ({ ...entry, formula: freezeFormula(entry.formula, entry.version) }));
+  }
+
+  /**
+   * A specific version of a formula, or its newest version not deprecated.
+   */
+  getVersion(formulaId: string, version?: number): FormulaVersion | undefined {
+    const versions = this.listVersions(formulaId);
+    return version === undefined
+      ? versions.find(entry => entry.deprecatedAt === undefined)
+      : versions.find(entry => entry.version === version);
+  }
+
+  /**
+   * Formula definition by id (newest version not deprecated) or id and version.
+   */
+  get(formulaId: string, version?: number): Formula | undefined {
+    return this.getVersion(formulaId, version)?.formula;
+  }
+
+  /**
+   * The version with a given content hash (e.g. one recorded with an evaluation).
+   */
+  findByHash(contentHash: string): FormulaVersion | undefined {
+    return this.versions.find(entry => entry.contentHash === contentHash);
+  }
+
+  /**
+   * Every version of a formula, newest first.
+   */
+  listVersions(formulaId: string): FormulaVersion[] {
+    return this.versions
+      .filter(entry => entry.formula.id === formulaId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * The current version of each formula, in registration order.
+   */
+  list(includeDeprecated = false): FormulaVersion[] {
+    const ids = [...new Set(this.versions.map(entry => entry.formula.id))];
+    return ids
+      .map(id => includeDeprecated ? this.listVersions(id)[0] : this.getVersion(id))
+      .filter((entry): entry is FormulaVersion => entry !== undefined);
+  }
+
+  /**
+   * All versions of all formulas (for persistence).
+   */
+  all(): FormulaVersion[] {
+    return [...this.versions];
+  }
+
+  /**
+   * The first current formula listing the data type, else the generic ('*') one.
+   */
+  select(dataType: string): Formula | undefined {
+    const normalizedType = dataType.toLowerCase();
+    const current = this.list().map(entry => entry.formula);
+
+    return current.find(formula => formula.applicableDataTypes.includes(normalizedType))
+      ?? current.find(formula => formula.applicableDataTypes.includes('*'));
+  }
+
+  /**
+   * Register a formula. Registering the definition of its current version
+   * again returns that version; a changed definition becomes the next version.
+   */
+  register(formula: Formula, provenance = 'runtime', registeredAt: number = Date.now()): FormulaVersion {
+    const invalid = validateFormula(formula);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+    if (!provenance.trim()) {
+      throw new Error('Formulas need a provenance');
+    }
+
+    const contentHash = hashFormula(formula);
+    const current = this.getVersion(formula.id);
+    if (current && current.contentHash === contentHash) {
+      return current;
+    }
+
+    const previous = this.listVersions(formula.id)[0];
+    const version = (previous?.version ?? 0) + 1;
+    const entry: FormulaVersion = {
+      formula: freezeFormula(formula, version),
+      version,
+      contentHash,
+      provenance: provenance.trim(),
+      registeredAt,
+    };
+
+    this.versions.push(entry);
+    return entry;
+  }
+
+  /**
+   * Resolve a formula extending the current version of another and register
+   * the effective formula. Throws if the parent is unknown or the result is invalid.
+   */
+  extend(override: FormulaOverride, provenance = 'runtime', registeredAt: number = Date.now()): FormulaVersion {
+    const parent = this.get(override.extends);
+    if (!parent) {
+      throw new Error(`Formula "${override.id}" extends unknown formula "${override.extends}"`);
+    }
+    return this.register(resolveFormula(override, parent), provenance, registeredAt);
+  }
+
+  /**
+   * Deprecate one version, or every version, of a formula. Returns the
+   * versions changed (empty if the formula is unknown or already deprecated).
+   * The generic fallback formula cannot be deprecated.
+   */
+  deprecate(formulaId: string, reason: string, version?: number, deprecatedAt: number = Date.now()): FormulaVersion[] {
+    const targets = this.listVersions(formulaId)
+      .filter(entry => entry.deprecatedAt === undefined && (version === undefined || entry.version === version));
+
+    if (targets.some(entry => entry.formula.applicableDataTypes.includes('*'))) {
+      throw new Error(`Cannot deprecate the fallback formula "${formulaId}"`);
+    }
+
+    return targets.map(entry => {
+      entry.deprecatedAt = deprecatedAt;
+      entry.deprecationReason = reason;
+      return entry;
+    });
+  }
+}
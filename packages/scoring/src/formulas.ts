@@ -13,9 +13,26 @@
  * 3. policy_v1        - Governance/policy data (source critical, time less so)
  * 4. prediction_v1    - Prediction market outcomes (proof critical)
  * 5. private_v1       - Private/sensitive data (maximum proof requirement)
+ * 6. price_feed_strict_v1 - Price data with vetoes (opt-in by ID)
+ *
+ * Formulas may add an expression (see formulaExpression.ts) for non-linear
+ * aggregation, gates and caps on top of their weights.
+ *
+ * These are the built-ins. Lookups and selection go through the formula
+ * registry (formulaRegistry.ts), which also holds formulas registered at
+ * runtime.
  */
 
 import { BaseScores } from './baseScores';
+import type { FreshnessProfile } from './freshness';
+import { classifyTrustLevel, getTrustBands, TrustBand, TrustLevel } from './trustBands';
+import {
+  AppliedFormulaRule,
+  evaluateFormulaProgram,
+  FormulaProgram,
+  parseFormulaExpression,
+} from './formulaExpression';
+import { builtinFormulaVersions, FormulaRegistry, hashFormula } from './formulaRegistry';
 
 // ============================================
 // Types
@@ -35,20 +52,40 @@ export interface Formula {
   weights: FormulaWeights;
   applicableDataTypes: string[];
   minAcceptableScore: number; // Threshold for "trustworthy"
+  expression?: string;        // Formula program (default: weighted sum of the factors)
+  tolerancePercent?: number;  // Accuracy tolerance, instead of the feed's tolerance profile
+  freshness?: Partial<FreshnessProfile>; // Merged over the feed's freshness profile
+  trustBands?: TrustBand[];   // Trust level boundaries (default: see defaultTrustBands)
+  extends?: string;           // Formula this one was derived from (see formulaComposition.ts)
+  version?: number;           // Set by the formula registry
+}
+
+export interface FactorBreakdown {
+  raw: number;
+  weighted: number;
+  note?: string;                // Structured reason behind the raw score
 }
 
+/**
+ * Optional per-factor reasons (e.g. proof domain mismatch) carried into the breakdown.
+ */
+export type FactorNotes = Partial<Record<keyof BaseScores, string>>;
+
 export interface ScoringResult {
   formulaId: string;
+  formulaVersion?: number;      // Registry version, when the formula is registered
+  formulaHash: string;          // Content hash of the formula definition
   finalScore: number;           // 0-100
   normalizedScore: number;      // 0-1
   breakdown: {
-    source: { raw: number; weighted: number };
-    time: { raw: number; weighted: number };
-    accuracy: { raw: number; weighted: number };
-    proof: { raw: number; weighted: number };
+    source: FactorBreakdown;
+    time: FactorBreakdown;
+    accuracy: FactorBreakdown;
+    proof: FactorBreakdown;
   };
-  trustLevel: 'high' | 'medium' | 'low' | 'untrusted';
+  trustLevel: TrustLevel;
   explanation: string;
+  appliedRules?: AppliedFormulaRule[]; // Expression caps/floors that changed the score
 }
 
 // ============================================
@@ -124,6 +161,43 @@ export const FORMULAS: Record<string, Formula> = {
     },
     applicableDataTypes: ['private', 'sensitive', 'confidential', 'kyc'],
     minAcceptableScore: 85,
+    // A threshold of 85 leaves only 5 points for "medium" under the default bands
+    trustBands: [
+      { level: 'high', minScore: 95 },
+      { level: 'medium', minScore: 85 },
+      { level: 'low', minScore: 70 },
+      { level: 'untrusted', minScore: 40 },
+      { level: 'critical', minScore: 0 },
+    ],
+  },
+
+  // Opt-in by ID: selectFormula keeps choosing price_feed_v1 for price data
+  price_feed_strict_v1: {
+    id: 'price_feed_strict_v1',
+    name: 'Strict Price Feed Formula',
+    description: 'Price data where a weak factor cannot be made up by strong ones, and a failed proof vetoes the score',
+    weights: {
+      source: 0.25,
+      time: 0.30,
+      accuracy: 0.30,
+      proof: 0.15,
+    },
+    applicableDataTypes: ['price_feed', 'exchange_rate', 'token_price'],
+    minAcceptableScore: 70,
+    expression: [
+      'floor time = 0.05',
+      'score = wgeomean(source, weight.source, time, weight.time, accuracy, weight.accuracy, proof, weight.proof)',
+      'if proof < 0.2 then score <= 40',
+      'if min(time, accuracy) < 0.3 then score <= 60',
+    ].join('\n'),
+    // A vetoed score (capped at 40) is critical, not merely untrusted
+    trustBands: [
+      { level: 'high', minScore: 90 },
+      { level: 'medium', minScore: 70 },
+      { level: 'low', minScore: 55 },
+      { level: 'untrusted', minScore: 41 },
+      { level: 'critical', minScore: 0 },
+    ],
   },
 
   generic_v1: {
@@ -141,6 +215,33 @@ export const FORMULAS: Record<string, Formula> = {
   },
 };
 
+function withoutTrustBands(formula: Formula): Formula {
+  const definition: Formula = { ...formula };
+  delete definition.trustBands;
+  return definition;
+}
+
+/**
+ * Earlier definitions of built-in formulas, oldest first. A built-in
+ * changes by adding a version, so evaluations scored by an earlier
+ * definition still resolve by their content hash.
+ */
+export const BUILTIN_FORMULA_HISTORY: Formula[] = [
+  // Version 1 used the default trust bands
+  withoutTrustBands(FORMULAS.private_v1),
+  withoutTrustBands(FORMULAS.price_feed_strict_v1),
+];
+
+/**
+ * Every version of every built-in formula.
+ */
+export const DEFAULT_FORMULA_VERSIONS = builtinFormulaVersions(Object.values(FORMULAS), BUILTIN_FORMULA_HISTORY);
+
+/**
+ * Registry shared by the scoring functions unless one is passed explicitly.
+ */
+export const defaultFormulaRegistry = new FormulaRegistry(DEFAULT_FORMULA_VERSIONS);
+
 // ============================================
 // Formula Selection
 // ============================================
@@ -149,37 +250,40 @@ export const FORMULAS: Record<string, Formula> = {
  * Select the most appropriate formula for a given data type.
  * Returns generic formula if no specific match found.
  */
-export function selectFormula(dataType: string): Formula {
-  const normalizedType = dataType.toLowerCase();
-
-  for (const formula of Object.values(FORMULAS)) {
-    if (formula.id === 'generic_v1') continue; // Check generic last
-
-    if (formula.applicableDataTypes.includes(normalizedType)) {
-      return formula;
-    }
-  }
-
-  return FORMULAS.generic_v1;
+export function selectFormula(dataType: string, registry: FormulaRegistry = defaultFormulaRegistry): Formula {
+  return registry.select(dataType) ?? FORMULAS.generic_v1;
 }
 
 /**
- * Get a formula by its ID.
+ * Get a formula by its ID (newest version not deprecated).
  */
-export function getFormulaById(formulaId: string): Formula | undefined {
-  return FORMULAS[formulaId];
+export function getFormulaById(formulaId: string, registry: FormulaRegistry = defaultFormulaRegistry): Formula | undefined {
+  return registry.get(formulaId);
 }
 
 // ============================================
 // Score Calculation
 // ============================================
 
+// Parsed expressions by source (formulas are evaluated far more often than defined)
+const programCache = new Map<string, FormulaProgram>();
+
+function getFormulaProgram(expression: string): FormulaProgram {
+  let program = programCache.get(expression);
+  if (!program) {
+    program = parseFormulaExpression(expression);
+    programCache.set(expression, program);
+  }
+  return program;
+}
+
 /**
  * Calculate final credibility score using a specific formula.
  */
 export function calculateCredibilityScore(
   baseScores: BaseScores,
-  formula: Formula
+  formula: Formula,
+  notes: FactorNotes = {}
 ): ScoringResult {
   const { weights } = formula;
 
@@ -189,47 +293,42 @@ export function calculateCredibilityScore(
   const weightedAccuracy = baseScores.accuracy * weights.accuracy;
   const weightedProof = baseScores.proof * weights.proof;
 
-  // Sum to get normalized score (0-1)
-  const normalizedScore = weightedSource + weightedTime + weightedAccuracy + weightedProof;
+  // Sum to get normalized score (0-1), or run the formula's expression
+  let normalizedScore = weightedSource + weightedTime + weightedAccuracy + weightedProof;
+  let appliedRules: AppliedFormulaRule[] | undefined;
+  if (formula.expression) {
+    const evaluation = evaluateFormulaProgram(getFormulaProgram(formula.expression), baseScores, weights);
+    normalizedScore = evaluation.normalizedScore;
+    appliedRules = evaluation.appliedRules;
+  }
 
   // Convert to 0-100 scale
   const finalScore = Math.round(normalizedScore * 100);
 
-  // Determine trust level
-  const trustLevel = getTrustLevel(finalScore, formula.minAcceptableScore);
+  // Determine trust level from the formula's bands
+  const trustLevel = classifyTrustLevel(finalScore, getTrustBands(formula));
 
   // Generate explanation
-  const explanation = generateExplanation(baseScores, formula, finalScore, trustLevel);
+  const explanation = generateExplanation(baseScores, formula, finalScore, trustLevel, notes, appliedRules ?? []);
 
   return {
     formulaId: formula.id,
+    ...(formula.version !== undefined ? { formulaVersion: formula.version } : {}),
+    formulaHash: hashFormula(formula),
     finalScore,
     normalizedScore,
     breakdown: {
-      source: { raw: baseScores.source, weighted: weightedSource },
-      time: { raw: baseScores.time, weighted: weightedTime },
-      accuracy: { raw: baseScores.accuracy, weighted: weightedAccuracy },
-      proof: { raw: baseScores.proof, weighted: weightedProof },
+      source: { raw: baseScores.source, weighted: weightedSource, note: notes.source },
+      time: { raw: baseScores.time, weighted: weightedTime, note: notes.time },
+      accuracy: { raw: baseScores.accuracy, weighted: weightedAccuracy, note: notes.accuracy },
+      proof: { raw: baseScores.proof, weighted: weightedProof, note: notes.proof },
     },
     trustLevel,
     explanation,
+    ...(appliedRules && appliedRules.length > 0 ? { appliedRules } : {}),
   };
 }
 
-// ============================================
-// Trust Level Classification
-// ============================================
-
-function getTrustLevel(
-  score: number,
-  minAcceptable: number
-): 'high' | 'medium' | 'low' | 'untrusted' {
-  if (score >= 90) return 'high';
-  if (score >= minAcceptable) return 'medium';
-  if (score >= minAcceptable - 15) return 'low';
-  return 'untrusted';
-}
-
 // ============================================
 // Explanation Generation
 // ============================================
@@ -238,7 +337,9 @@ function generateExplanation(
   baseScores: BaseScores,
   formula: Formula,
   finalScore: number,
-  trustLevel: string
+  trustLevel: string,
+  notes: FactorNotes,
+  appliedRules: AppliedFormulaRule[]
 ): string {
   const parts: string[] = [];
 
@@ -259,6 +360,9 @@ function generateExplanation(
   } else {
     parts.push(`• Source Reliability: ${sourcePercent}% - Source lacks established reputation`);
   }
+  if (notes.source) {
+    parts.push(`  ↳ ${notes.source}`);
+  }
 
   // Time
   const timePercent = Math.round(baseScores.time * 100);
@@ -269,6 +373,9 @@ function generateExplanation(
   } else {
     parts.push(`• Time Freshness: ${timePercent}% - Data is outdated`);
   }
+  if (notes.time) {
+    parts.push(`  ↳ ${notes.time}`);
+  }
 
   // Accuracy
   const accuracyPercent = Math.round(baseScores.accuracy * 100);
@@ -279,6 +386,9 @@ function generateExplanation(
   } else {
     parts.push(`• Consistency: ${accuracyPercent}% - Significant deviation from other sources`);
   }
+  if (notes.accuracy) {
+    parts.push(`  ↳ ${notes.accuracy}`);
+  }
 
   // Proof
   const proofPercent = Math.round(baseScores.proof * 100);
@@ -289,6 +399,14 @@ function generateExplanation(
   } else {
     parts.push(`• zkTLS Proof: ${proofPercent}% - Proof verification failed`);
   }
+  if (notes.proof) {
+    parts.push(`  ↳ ${notes.proof}`);
+  }
+
+  // Formula rules that overrode the aggregate
+  for (const rule of appliedRules) {
+    parts.push(`• Rule: ${rule.rule} (${Math.round(rule.scoreBefore)} → ${Math.round(rule.limit)})`);
+  }
 
   // Recommendation
   parts.push('');
@@ -298,6 +416,8 @@ function generateExplanation(
     parts.push('Recommendation: Data is reasonably credible, proceed with normal caution.');
   } else if (trustLevel === 'low') {
     parts.push('Recommendation: Data has credibility concerns, use with caution.');
+  } else if (trustLevel === 'critical') {
+    parts.push('Recommendation: Data failed critical checks and must not be used.');
   } else {
     parts.push('Recommendation: Data credibility is insufficient, additional verification required.');
   }
@@ -311,16 +431,27 @@ function generateExplanation(
 
 /**
  * One-stop function to calculate credibility score.
- * Automatically selects formula based on data type.
+ * Automatically selects formula based on data type; an override must name
+ * a registered formula that is not deprecated.
  */
 export function evaluateCredibility(
   dataType: string,
   baseScores: BaseScores,
-  formulaIdOverride?: string
+  formulaIdOverride?: string,
+  notes?: FactorNotes,
+  registry: FormulaRegistry = defaultFormulaRegistry
 ): ScoringResult {
-  const formula = formulaIdOverride
-    ? (getFormulaById(formulaIdOverride) ?? selectFormula(dataType))
-    : selectFormula(dataType);
+  let formula = selectFormula(dataType, registry);
+
+  if (formulaIdOverride) {
+    const override = registry.get(formulaIdOverride);
+    if (!override) {
+      throw new Error(registry.listVersions(formulaIdOverride).length > 0
+        ? `Formula "${formulaIdOverride}" is deprecated`
+        : `Unknown formula "${formulaIdOverride}"`);
+    }
+    formula = override;
+  }
 
-  return calculateCredibilityScore(baseScores, formula);
+  return calculateCredibilityScore(baseScores, formula, notes);
 }
@@ -0,0 +1,157 @@
+/**
+ * OracleLens Freshness
+ *
+ * Decay curves for the T (Time) score and per-feed freshness profiles.
+ * Pull-style feeds should be seconds old, while push oracles such as
+ * Chainlink update on a heartbeat (plus a deviation threshold), so a value
+ * 50 minutes old on a 1-hour heartbeat feed is as fresh as it gets.
+ * Timestamps slightly in the future are tolerated up to a clock skew.
+ */
+
+import { normalizeOracleId } from './reputation';
+import { getFeedId } from './uptime';
+
+// ============================================
+// Types
+// ============================================
+
+export type DecayModel = 'exponential' | 'linear' | 'step' | 'logistic' | 'heartbeat';
+
+export interface DecayWindow {
+  maxAcceptableAgeSeconds: number;
+  heartbeatSeconds?: number;   // Expected update interval (heartbeat model)
+}
+
+/**
+ * Score (0-1) of data `ageSeconds` old (never negative).
+ */
+export type DecayCurve = (ageSeconds: number, window: DecayWindow) => number;
+
+export interface FreshnessProfile {
+  decay: DecayModel;
+  maxAcceptableAgeSeconds?: number; // Overrides the caller's default
+  heartbeatSeconds?: number;
+  clockSkewSeconds?: number;        // Future timestamps tolerated as clock drift
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+// Future timestamps within this are clock drift, not manipulation
+export const DEFAULT_CLOCK_SKEW_SECONDS = 5;
+
+// Score for timestamps further in the future than the clock skew
+export const FUTURE_TIMESTAMP_SCORE = 0.5;
+
+// Score when the data carries no timestamp: it could be any age
+export const UNKNOWN_TIMESTAMP_SCORE = 0.3;
+
+// Steepness of the logistic curve around maxAcceptableAge
+const LOGISTIC_STEEPNESS = 6;
+
+/**
+ * Freshness by feed id ("chainlink:price_feed") or oracle id ("chainlink").
+ * Feeds without a profile use exponential decay.
+ */
+export const FRESHNESS_PROFILES: Record<string, FreshnessProfile> = {
+  chainlink: { decay: 'heartbeat', heartbeatSeconds: 3600 },
+  api3: { decay: 'heartbeat', heartbeatSeconds: 86400 },
+  pyth: { decay: 'logistic', maxAcceptableAgeSeconds: 60 },
+  weatherapi: { decay: 'step', maxAcceptableAgeSeconds: 900 },
+};
+
+const DEFAULT_FRESHNESS_PROFILE: FreshnessProfile = { decay: 'exponential' };
+
+// ============================================
+// Decay Curves
+// ============================================
+
+/**
+ * Exponential decay with half-life maxAcceptableAge / 2, then a linear
+ * tail from where the curve left off, reaching 0 at 3x maxAcceptableAge.
+ */
+function exponentialDecay(ageSeconds: number, { maxAcceptableAgeSeconds }: DecayWindow): number {
+  const halfLife = maxAcceptableAgeSeconds / 2;
+  const atAge = Math.exp(-Math.min(ageSeconds, maxAcceptableAgeSeconds) / halfLife);
+  if (ageSeconds <= maxAcceptableAgeSeconds) return atAge;
+
+  const overageRatio = ageSeconds / maxAcceptableAgeSeconds;
+  return atAge * Math.max(0, 1 - (overageRatio - 1) * 0.5);
+}
+
+/**
+ * 1 when new, 0.5 at maxAcceptableAge, 0 at twice that.
+ */
+function linearDecay(ageSeconds: number, { maxAcceptableAgeSeconds }: DecayWindow): number {
+  return Math.max(0, 1 - 0.5 * ageSeconds / maxAcceptableAgeSeconds);
+}
+
+/**
+ * Fully fresh until maxAcceptableAge, half credit until twice that, then 0.
+ */
+function stepDecay(ageSeconds: number, { maxAcceptableAgeSeconds }: DecayWindow): number {
+  if (ageSeconds <= maxAcceptableAgeSeconds) return 1;
+  return ageSeconds <= 2 * maxAcceptableAgeSeconds ? 0.5 : 0;
+}
+
+/**
+ * S-curve: close to 1 for most of the window, 0.5 at maxAcceptableAge.
+ */
+function logisticDecay(ageSeconds: number, { maxAcceptableAgeSeconds }: DecayWindow): number {
+  const logistic = (age: number) => 1 / (1 + Math.exp(LOGISTIC_STEEPNESS * (age / maxAcceptableAgeSeconds - 1)));
+  return logistic(ageSeconds) / logistic(0);
+}
+
+/**
+ * Relative to the feed's heartbeat: 0.9-1 until the heartbeat is due, then
+ * falling fast - a missed heartbeat means the feed stopped updating.
+ */
+function heartbeatDecay(ageSeconds: number, window: DecayWindow): number {
+  const heartbeat = window.heartbeatSeconds ?? window.maxAcceptableAgeSeconds;
+  const ratio = ageSeconds / heartbeat;
+  if (ratio <= 1) return 1 - 0.1 * ratio;
+  return 0.9 * Math.exp(-3 * (ratio - 1));
+}
+
+export const DECAY_CURVES: Record<DecayModel, DecayCurve> = {
+  exponential: exponentialDecay,
+  linear: linearDecay,
+  step: stepDecay,
+  logistic: logisticDecay,
+  heartbeat: heartbeatDecay,
+};
+
+// ============================================
+// Freshness
+// ============================================
+
+/**
+ * Freshness profile of a feed: its own entry, else its oracle's, else exponential decay.
+ */
+export function getFreshnessProfile(oracleName: string, dataType: string): FreshnessProfile {
+  return FRESHNESS_PROFILES[getFeedId(oracleName, dataType)]
+    ?? FRESHNESS_PROFILES[normalizeOracleId(oracleName)]
+    ?? DEFAULT_FRESHNESS_PROFILE;
+}
+
+/**
+ * Score data of a given age (seconds, negative = from the future) with a
+ * decay model or a custom curve.
+ */
+export function scoreFreshness(
+  ageSeconds: number,
+  window: DecayWindow,
+  decay: DecayModel | DecayCurve = 'exponential',
+  clockSkewSeconds: number = DEFAULT_CLOCK_SKEW_SECONDS
+): number {
+  // Future timestamps are suspicious beyond plausible clock drift
+  if (ageSeconds < -clockSkewSeconds) {
+    return FUTURE_TIMESTAMP_SCORE; // Penalize but don't fully reject
+  }
+
+  const curve = typeof decay === 'function' ? decay : DECAY_CURVES[decay];
+  const score = curve(Math.max(0, ageSeconds), window);
+
+  return Math.max(0, Math.min(1, score));
+}
@@ -19,14 +19,227 @@ export {
   type BaseScores,
 } from './baseScores';
 
+// Time decay curves and per-feed freshness (heartbeats, clock skew)
+export {
+  scoreFreshness,
+  getFreshnessProfile,
+  DECAY_CURVES,
+  FRESHNESS_PROFILES,
+  DEFAULT_CLOCK_SKEW_SECONDS,
+  FUTURE_TIMESTAMP_SCORE,
+  UNKNOWN_TIMESTAMP_SCORE,
+  type DecayModel,
+  type DecayCurve,
+  type DecayWindow,
+  type FreshnessProfile,
+} from './freshness';
+
+// Timestamp detection and unit normalization
+export {
+  normalizeTimestamp,
+  resolveTimestamp,
+  TIMESTAMP_FIELDS,
+  type TimestampUnit,
+  type NormalizedTimestamp,
+  type TimestampResolution,
+} from './timestamps';
+
+// Reference accuracy (sourced, weighted references, outliers and dispersion)
+export {
+  calculateReferenceAccuracy,
+  referenceStaleDiscount,
+  dispersionConfidence,
+  NEUTRAL_ACCURACY,
+  type SourcedReference,
+  type ReferenceAccuracyInput,
+  type ReferenceAssessment,
+  type ReferenceAccuracyResult,
+} from './referenceAccuracy';
+
+// Robust statistics (medians, MAD/Hampel and IQR outliers, dispersion)
+export {
+  median,
+  weightedMedian,
+  quantile,
+  medianAbsoluteDeviation,
+  hampelFilter,
+  iqrFences,
+  calculateDispersion,
+  MAD_SCALE,
+  type HampelResult,
+  type IqrFences,
+  type Dispersion,
+} from './statistics';
+
+// Tolerance profiles per feed, asset or data type (static or volatility-based)
+export {
+  resolveTolerance,
+  findToleranceProfile,
+  realizedVolatility,
+  resolveAssetSymbol,
+  DEFAULT_TOLERANCE_PROFILES,
+  DEFAULT_TOLERANCE_PROFILE_ID,
+  type ToleranceProfile,
+  type VolatilityTolerance,
+  type ValueSample,
+  type ToleranceContext,
+  type ToleranceResolution,
+} from './tolerance';
+
+// Structured (multi-field) accuracy
+export {
+  calculateStructuredAccuracy,
+  flattenNumericFields,
+  resolvePrimaryValue,
+  getFieldTolerances,
+  FIELD_TOLERANCE_PRESETS,
+  type FieldTolerance,
+  type StructuredAccuracyInput,
+  type FieldAccuracy,
+  type StructuredAccuracyResult,
+  type StructuredReferenceWeight,
+} from './structuredAccuracy';
+
+// Consensus accuracy for categorical and boolean data
+export {
+  calculateConsensusAccuracy,
+  normalizeCategoricalValue,
+  resolveCategoricalValue,
+  type CategoricalValue,
+  type ConsensusVote,
+  type ConsensusInput,
+  type ConsensusBloc,
+  type ConsensusResult,
+} from './consensusAccuracy';
+
 // Formula definitions and scoring
 export {
   FORMULAS,
+  DEFAULT_FORMULA_VERSIONS,
+  BUILTIN_FORMULA_HISTORY,
+  defaultFormulaRegistry,
   selectFormula,
   getFormulaById,
   calculateCredibilityScore,
   evaluateCredibility,
   type Formula,
   type FormulaWeights,
+  type FactorBreakdown,
+  type FactorNotes,
   type ScoringResult,
 } from './formulas';
+
+// Versioned formula registry (runtime registration, deprecation, content hashes)
+export {
+  FormulaRegistry,
+  hashFormula,
+  validateFormula,
+  builtinFormulaVersions,
+  BUILTIN_FORMULA_PROVENANCE,
+  type FormulaVersion,
+  type FormulaStore,
+} from './formulaRegistry';
+
+// Formula composition (extending a formula with overrides)
+export {
+  resolveFormula,
+  applyWeightAdjustments,
+  validateWeightSum,
+  WEIGHT_SUM_TOLERANCE,
+  type FormulaOverride,
+} from './formulaComposition';
+
+// Trust levels and per-formula trust bands
+export {
+  classifyTrustLevel,
+  getTrustBands,
+  defaultTrustBands,
+  validateTrustBands,
+  isTrustedLevel,
+  TRUST_LEVELS,
+  type TrustLevel,
+  type TrustBand,
+} from './trustBands';
+
+// Counterfactuals (smallest factor changes that reach the next trust band)
+export {
+  analyzeCounterfactuals,
+  maxAgeForTimeScore,
+  type CounterfactualOptions,
+  type FactorChange,
+  type ProofOutcome,
+  type CounterfactualResult,
+} from './counterfactual';
+
+// Formula expression language (non-linear aggregation, gates, caps, floors)
+export {
+  parseFormulaExpression,
+  validateFormulaExpression,
+  evaluateFormulaProgram,
+  evaluateExpression,
+  type ExpressionNode,
+  type BinaryOperator,
+  type FormulaProgram,
+  type FormulaRule,
+  type FactorFloor,
+  type AppliedFormulaRule,
+  type ExpressionEvaluation,
+} from './formulaExpression';
+
+// Oracle reputation registry
+export {
+  ReputationRegistry,
+  defaultReputationRegistry,
+  DEFAULT_REPUTATION_ENTRIES,
+  UNKNOWN_REPUTATION,
+  normalizeOracleId,
+  getReputationTier,
+  validateReputationInput,
+  type ReputationEntry,
+  type ReputationInput,
+  type ReputationTier,
+  type ReputationStore,
+} from './reputation';
+
+// Bayesian reputation from evaluation outcomes and disputes
+export {
+  calculateBayesianReputation,
+  getBayesianReputation,
+  outcomeFromTrustLevel,
+  outcomeFromAccuracy,
+  AGREEMENT_ACCURACY,
+  decayWeight,
+  betaCdf,
+  betaQuantile,
+  type ReputationOutcome,
+  type ReputationObservation,
+  type BayesianReputationOptions,
+  type ReputationPosterior,
+} from './bayesianReputation';
+
+// Feed liveness and rolling uptime
+export {
+  calculateUptime,
+  measureUptime,
+  recordLivenessSample,
+  getFeedId,
+  InMemoryLivenessStore,
+  DEFAULT_HEARTBEAT_SECONDS,
+  type LivenessSample,
+  type LivenessStore,
+  type UptimeOptions,
+  type UptimeGap,
+  type UptimeResult,
+} from './uptime';
+
+// zkTLS proof domain policy
+export {
+  DEFAULT_DOMAIN_POLICY,
+  checkDomainPolicy,
+  matchesHostRule,
+  normalizeHost,
+  type DomainPolicy,
+  type DomainCheckStatus,
+  type DomainCheckInput,
+  type DomainCheckResult,
+} from './domainPolicy';
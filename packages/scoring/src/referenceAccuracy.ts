@@ -0,0 +1,242 @@
+/**
+ * OracleLens Reference Accuracy
+ *
+ * The A (Accuracy) comparison against reference values from other sources.
+ * References may be plain numbers or carry their provenance
+ * ({ source, value, timestamp, weight?, proofHash? }). Each reference is
+ * weighted by its source's reputation, its own weight and its age; the
+ * reported value is compared with the weighted median of the references
+ * that are not outliers (Hampel filter or IQR fences). Every reference's
+ * treatment is reported. When the remaining references still disagree with
+ * each other, confidence in the comparison drops and so does the score.
+ */
+
+import { defaultReputationRegistry, ReputationRegistry } from './reputation';
+import { calculateDispersion, Dispersion, hampelFilter, iqrFences, median, weightedMedian } from './statistics';
+import { resolveTolerance, ToleranceContext, ToleranceResolution } from './tolerance';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SourcedReference<T = number> {
+  source: string;        // Oracle or API the value came from, e.g. "pyth"
+  value: T;
+  timestamp?: number;    // Unix ms the source reported the value (unknown = no age discount)
+  weight?: number;       // Extra weight on top of reputation and age (default 1)
+  proofHash?: string;    // zkTLS proof backing the reference, if any
+}
+
+export interface ReferenceAccuracyInput {
+  primaryValue: number;
+  referenceValues: Array<number | SourcedReference>;
+  tolerancePercent?: number;         // e.g., 1 means 1% tolerance (default: from the tolerance profile)
+  toleranceContext?: ToleranceContext; // Feed, asset and history to pick the profile by
+  currentTimestamp?: number;         // Unix ms for reference ages (default Date.now())
+  maxReferenceAgeSeconds?: number;   // References older than this lose weight (default 300)
+  outlierMethod?: 'hampel' | 'iqr';  // Robust outlier test (default 'hampel')
+  outlierTolerancePercent?: number;  // Flagged references closer than this to the median stay in (default tolerancePercent)
+}
+
+export interface ReferenceAssessment {
+  source: string;              // "reference-<n>" for plain numbers
+  value: number;
+  reputation: number;          // Source reputation from the registry
+  ageSeconds: number | null;
+  staleDiscount: number;       // 1 = fresh, halves per max age beyond it
+  effectiveWeight: number;     // weight x reputation x staleDiscount (0 for outliers)
+  deviationPercent: number;    // From the median of all references
+  outlier: boolean;
+  proofHash?: string;
+}
+
+export interface ReferenceAccuracyResult {
+  score: number;               // A score, 0-1 (after the confidence adjustment)
+  rawScore: number;            // Score from the deviation alone
+  confidence: number;          // 0-1, lowered when the references disagree with each other
+  referenceMedian: number | null;  // Weighted median of the non-outlier references
+  deviationPercent: number | null; // Reported value vs referenceMedian
+  dispersion: Dispersion | null;   // Spread of the non-outlier references
+  tolerancePercent: number;
+  tolerance?: ToleranceResolution; // How the tolerance was resolved, when it was not given
+  references: ReferenceAssessment[];
+  outliers: ReferenceAssessment[];
+  explanation?: string;        // Why confidence was lowered
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+// Score when there is nothing to compare with
+export const NEUTRAL_ACCURACY = 0.7;
+
+// Score the comparison falls back to as confidence drops: references that
+// disagree cannot confirm the value, so it ends up below neutral
+const DISPERSED_ACCURACY = 0.4;
+
+export const DEFAULT_MAX_REFERENCE_AGE_SECONDS = 300;
+
+// Spread (in tolerances) up to which references count as agreeing, and where confidence reaches 0
+const FULL_CONFIDENCE_SPREAD = 0.5;
+const ZERO_CONFIDENCE_SPREAD = 3;
+
+// Outliers are only meaningful against a majority
+const MIN_REFERENCES_FOR_OUTLIERS = 3;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Score a deviation expressed in multiples of the tolerance
+ * (0 = exact, 1 = at the tolerance limit).
+ */
+export function scoreToleranceRatio(ratio: number): number {
+  // Score based on how within tolerance the value is
+  if (ratio <= 1) {
+    // Within tolerance - high score
+    return 1.0 - ratio * 0.1;
+  }
+
+  // Outside tolerance - score drops rapidly
+  const score = 0.9 * Math.exp(-(ratio - 1));
+
+  return Math.max(0, Math.min(1, score));
+}
+
+/**
+ * Age discount of a reference: 1 within maxAge, then halving for every
+ * further maxAge. Future timestamps are not discounted.
+ */
+export function referenceStaleDiscount(ageSeconds: number | null, maxAgeSeconds: number): number {
+  if (ageSeconds === null || ageSeconds <= maxAgeSeconds) return 1;
+  return Math.pow(0.5, (ageSeconds - maxAgeSeconds) / maxAgeSeconds);
+}
+
+/**
+ * Confidence in a comparison against references spread by `spreadPercent`:
+ * 1 while the spread is within half the tolerance, 0 at three tolerances.
+ */
+export function dispersionConfidence(spreadPercent: number, tolerancePercent: number): number {
+  const spread = spreadPercent / tolerancePercent;
+  if (!Number.isFinite(spread)) return 0;
+  const confidence = 1 - (spread - FULL_CONFIDENCE_SPREAD) / (ZERO_CONFIDENCE_SPREAD - FULL_CONFIDENCE_SPREAD);
+  return Math.max(0, Math.min(1, confidence));
+}
+
+function deviationFrom(value: number, median: number): number {
+  if (median === 0) return value === 0 ? 0 : Infinity;
+  return Math.abs((value - median) / median) * 100;
+}
+
+// ============================================
+// Reference Accuracy
+// ============================================
+
+/**
+ * Compare the reported value with reputation- and age-weighted references,
+ * flagging references far from the others as outliers.
+ */
+export function calculateReferenceAccuracy(
+  input: ReferenceAccuracyInput,
+  registry: ReputationRegistry = defaultReputationRegistry
+): ReferenceAccuracyResult {
+  const now = input.currentTimestamp ?? Date.now();
+  const maxAge = input.maxReferenceAgeSeconds ?? DEFAULT_MAX_REFERENCE_AGE_SECONDS;
+  const tolerance = input.tolerancePercent === undefined
+    ? resolveTolerance(input.toleranceContext ?? {})
+    : undefined;
+  const tolerancePercent = input.tolerancePercent ?? (tolerance as ToleranceResolution).tolerancePercent;
+  const outlierTolerance = input.outlierTolerancePercent ?? tolerancePercent;
+
+  const references: ReferenceAssessment[] = input.referenceValues
+    .map((reference, index) => (typeof reference === 'number'
+      ? { source: `reference-${index + 1}`, value: reference }
+      : reference) as SourcedReference)
+    .filter(reference => Number.isFinite(reference.value))
+    .map(reference => {
+      const reputation = registry.getReputation(reference.source);
+      const ageSeconds = reference.timestamp !== undefined ? Math.round((now - reference.timestamp) / 1000) : null;
+      const staleDiscount = referenceStaleDiscount(ageSeconds, maxAge);
+      return {
+        source: reference.source,
+        value: reference.value,
+        reputation,
+        ageSeconds,
+        staleDiscount,
+        effectiveWeight: Math.max(0, reference.weight ?? 1) * reputation * staleDiscount,
+        deviationPercent: 0,
+        outlier: false,
+        ...(reference.proofHash ? { proofHash: reference.proofHash } : {}),
+      };
+    });
+
+  // Flag references the robust test rejects and that are beyond the outlier tolerance
+  if (references.length > 0) {
+    const values = references.map(reference => reference.value);
+    const center = median(values);
+    const flagged = new Set(references.length >= MIN_REFERENCES_FOR_OUTLIERS
+      ? (input.outlierMethod === 'iqr' ? iqrFences(values) : hampelFilter(values)).outliers
+      : []);
+
+    references.forEach((reference, index) => {
+      reference.deviationPercent = deviationFrom(reference.value, center);
+      reference.outlier = flagged.has(index) && reference.deviationPercent > outlierTolerance;
+    });
+  }
+
+  const outliers = references.filter(reference => reference.outlier);
+  for (const outlier of outliers) {
+    outlier.effectiveWeight = 0;
+  }
+
+  const inliers = references.filter(reference => !reference.outlier && reference.effectiveWeight > 0);
+  const referenceMedian = weightedMedian(inliers.map(r => ({ value: r.value, weight: r.effectiveWeight })));
+
+  if (referenceMedian === null) {
+    // No references to compare - neutral score
+    return {
+      score: NEUTRAL_ACCURACY,
+      rawScore: NEUTRAL_ACCURACY,
+      confidence: 1,
+      referenceMedian: null,
+      deviationPercent: null,
+      dispersion: null,
+      tolerancePercent,
+      ...(tolerance ? { tolerance } : {}),
+      references,
+      outliers,
+    };
+  }
+
+  // Calculate deviation from median as percentage
+  const deviationPercent = deviationFrom(input.primaryValue, referenceMedian);
+  const rawScore = Number.isFinite(deviationPercent)
+    ? scoreToleranceRatio(deviationPercent / tolerancePercent)
+    : 0;
+
+  // References that still disagree with each other cannot vouch for the value
+  const dispersion = calculateDispersion(inliers.map(reference => reference.value));
+  const confidence = dispersionConfidence(dispersion.robustSpreadPercent, tolerancePercent);
+  const score = confidence * rawScore + (1 - confidence) * Math.min(rawScore, DISPERSED_ACCURACY);
+
+  const explanation = confidence < 1
+    ? `References disagree with each other: robust spread ${dispersion.robustSpreadPercent.toFixed(2)}% `
+      + `vs ${tolerancePercent}% tolerance, accuracy confidence ${Math.round(confidence * 100)}%`
+    : undefined;
+
+  return {
+    score,
+    rawScore,
+    confidence,
+    referenceMedian,
+    deviationPercent,
+    dispersion,
+    tolerancePercent,
+    ...(tolerance ? { tolerance } : {}),
+    references,
+    outliers,
+    ...(explanation ? { explanation } : {}),
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * OracleLens Oracle Reputation Registry
+ *
+ * Single source of oracle base reputation for scoring, formula selection
+ * and AI reasoning. Entries are versioned: each carries its provenance and
+ * the date it takes effect, and lookups return the newest entry in effect.
+ * Adding an oracle is a data change (upsert), not a code change.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReputationEntry {
+  oracleId: string;        // Normalized key, e.g. "chainlink"
+  displayName: string;     // e.g. "Chainlink"
+  reputation: number;      // Base reputation, 0-1
+  provenance: string;      // Who or what set the value, e.g. "seed", "admin:ops", "observed"
+  effectiveFrom: number;   // Unix ms the value applies from
+  recordedAt: number;      // Unix ms the entry was written
+  aliases?: string[];      // Other names resolving to this oracle
+}
+
+export interface ReputationInput {
+  name: string;
+  reputation: number;
+  provenance: string;
+  effectiveFrom?: number;  // Default: now
+  aliases?: string[];
+}
+
+export type ReputationTier = 'high' | 'medium' | 'low';
+
+/**
+ * Persistence behind a registry (e.g. a database table).
+ */
+export interface ReputationStore {
+  list(): Promise<ReputationEntry[]>;
+  insert(entry: ReputationEntry): Promise<void>;
+  remove(oracleId: string): Promise<void>;
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Reputation of oracles the registry does not know.
+ */
+export const UNKNOWN_REPUTATION = 0.5;
+
+const SEED_ENTRIES: Array<[string, number]> = [
+  ['Chainlink', 0.95],
+  ['Pyth', 0.90],
+  ['API3', 0.85],
+  ['Band', 0.80],
+  ['DIA', 0.75],
+  ['WeatherAPI', 0.80],
+];
+
+export const DEFAULT_REPUTATION_ENTRIES: ReputationEntry[] = SEED_ENTRIES.map(([name, reputation]) => ({
+  oracleId: normalizeOracleId(name),
+  displayName: name,
+  reputation,
+  provenance: 'seed',
+  effectiveFrom: 0,
+  recordedAt: 0,
+}));
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Normalize an oracle name to its registry key ("Chain Link" -> "chainlink").
+ */
+export function normalizeOracleId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map a reputation to a coarse trust tier (used for AI reasoning).
+ */
+export function getReputationTier(reputation: number): ReputationTier {
+  if (reputation >= 0.9) return 'high';
+  if (reputation >= 0.7) return 'medium';
+  return 'low';
+}
+
+/**
+ * Reason a reputation input would be rejected, or null if it is valid.
+ */
+export function validateReputationInput(input: ReputationInput): string | null {
+  if (!Number.isFinite(input.reputation) || input.reputation < 0 || input.reputation > 1) {
+    return `Reputation must be between 0 and 1, got ${input.reputation}`;
+  }
+  if (!input.provenance.trim()) {
+    return 'Reputation entries need a provenance';
+  }
+  if (!normalizeOracleId(input.name)) {
+    return `Invalid oracle name "${input.name}"`;
+  }
+  return null;
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export class ReputationRegistry {
+  private entries: ReputationEntry[] = [];
+
+  constructor(entries: ReputationEntry[] = DEFAULT_REPUTATION_ENTRIES) {
+    this.replaceAll(entries);
+  }
+
+  /**
+   * Replace every entry (e.g. after loading from a store).
+   */
+  replaceAll(entries: ReputationEntry[]): void {
+    this.entries = entries.map(entry => ({ ...entry, oracleId: normalizeOracleId(entry.oracleId) }));
+  }
+
+  /**
+   * Resolve a name or alias to an oracle id known to the registry.
+   */
+  resolveId(name: string): string | undefined {
+    const key = normalizeOracleId(name);
+    if (this.entries.some(entry => entry.oracleId === key)) return key;
+
+    const aliased = this.entries.find(entry =>
+      entry.aliases?.some(alias => normalizeOracleId(alias) === key)
+    );
+    return aliased?.oracleId;
+  }
+
+  /**
+   * Entry in effect for an oracle at a point in time (default: now).
+   */
+  lookup(name: string, at: number = Date.now()): ReputationEntry | undefined {
+    const oracleId = this.resolveId(name);
+    if (!oracleId) return undefined;
+
+    return this.entries
+      .filter(entry => entry.oracleId === oracleId && entry.effectiveFrom <= at)
+      .sort((a, b) => b.effectiveFrom - a.effectiveFrom || b.recordedAt - a.recordedAt)[0];
+  }
+
+  /**
+   * Base reputation in effect, or UNKNOWN_REPUTATION for unknown oracles.
+   */
+  getReputation(name: string, at?: number): number {
+    return this.lookup(name, at)?.reputation ?? UNKNOWN_REPUTATION;
+  }
+
+  /**
+   * Trust tier in effect, or undefined for unknown oracles.
+   */
+  getTier(name: string, at?: number): ReputationTier | undefined {
+    const entry = this.lookup(name, at);
+    return entry ? getReputationTier(entry.reputation) : undefined;
+  }
+
+  /**
+   * Entries currently in effect, one per oracle.
+   */
+  list(at: number = Date.now()): ReputationEntry[] {
+    const ids = [...new Set(this.entries.map(entry => entry.oracleId))];
+    return ids
+      .map(id => this.lookup(id, at))
+      .filter((entry): entry is ReputationEntry => entry !== undefined)
+      .sort((a, b) => a.oracleId.localeCompare(b.oracleId));
+  }
+
+  /**
+   * Every recorded version for an oracle, newest first.
+   */
+  history(name: string): ReputationEntry[] {
+    const oracleId = this.resolveId(name) ?? normalizeOracleId(name);
+    return this.entries
+      .filter(entry => entry.oracleId === oracleId)
+      .sort((a, b) => b.effectiveFrom - a.effectiveFrom || b.recordedAt - a.recordedAt);
+  }
+
+  /**
+   * All versions of all oracles (for persistence).
+   */
+  all(): ReputationEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Record a new reputation version. Earlier versions are kept as history.
+   */
+  upsert(input: ReputationInput): ReputationEntry {
+    const invalid = validateReputationInput(input);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const oracleId = normalizeOracleId(input.name);
+
+    const now = Date.now();
+    const entry: ReputationEntry = {
+      oracleId,
+      displayName: input.name.trim(),
+      reputation: input.reputation,
+      provenance: input.provenance.trim(),
+      effectiveFrom: input.effectiveFrom ?? now,
+      recordedAt: now,
+      aliases: input.aliases,
+    };
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  /**
+   * Remove every version of an oracle. Returns false if it was unknown.
+   */
+  remove(name: string): boolean {
+    const oracleId = this.resolveId(name) ?? normalizeOracleId(name);
+    const before = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.oracleId !== oracleId);
+    return this.entries.length < before;
+  }
+}
+
+/**
+ * Registry shared by the scoring functions unless one is passed explicitly.
+ */
+export const defaultReputationRegistry = new ReputationRegistry();
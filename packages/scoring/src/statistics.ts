@@ -0,0 +1,167 @@
+/**
+ * OracleLens Statistics
+ *
+ * Robust statistics for reference values: medians, median absolute
+ * deviation (MAD) with the Hampel filter, interquartile-range fences and a
+ * dispersion measure. Robust means a single wild source cannot move the
+ * center or the spread much.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface HampelResult {
+  center: number;      // Median
+  scale: number;       // 1.4826 x MAD (estimates the standard deviation for normal data)
+  outliers: number[];  // Indices of values further than threshold x scale from the center
+}
+
+export interface IqrFences {
+  q1: number;
+  q3: number;
+  iqr: number;
+  lower: number;       // q1 - k x iqr
+  upper: number;       // q3 + k x iqr
+  outliers: number[];  // Indices of values outside the fences
+}
+
+export interface Dispersion {
+  center: number;            // Median
+  robustSpreadPercent: number; // 1.4826 x MAD relative to the median, in %
+  iqrPercent: number;        // IQR relative to the median, in %
+  rangePercent: number;      // (max - min) relative to the median, in %
+  count: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Makes the MAD a consistent estimator of the standard deviation for normal data
+export const MAD_SCALE = 1.4826;
+
+const DEFAULT_HAMPEL_THRESHOLD = 3;
+const DEFAULT_IQR_K = 1.5;
+
+// ============================================
+// Location and Spread
+// ============================================
+
+/**
+ * Median (the two middle values are averaged for an even count). NaN when empty.
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Weighted median. With equal weights this is the ordinary median
+ * (the two middle values are averaged for an even count).
+ */
+export function weightedMedian(items: Array<{ value: number; weight: number }>): number | null {
+  const sorted = items.filter(item => item.weight > 0).sort((a, b) => a.value - b.value);
+  if (sorted.length === 0) return null;
+
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  const half = total / 2;
+  const epsilon = total * 1e-12;
+  let cumulative = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (Math.abs(cumulative - half) <= epsilon && i + 1 < sorted.length) {
+      return (sorted[i].value + sorted[i + 1].value) / 2;
+    }
+    if (cumulative > half) {
+      return sorted[i].value;
+    }
+  }
+
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Quantile with linear interpolation between closest ranks (p in [0, 1]).
+ */
+export function quantile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * Math.max(0, Math.min(1, p));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Median absolute deviation from the median (unscaled).
+ */
+export function medianAbsoluteDeviation(values: number[], center: number = median(values)): number {
+  return median(values.map(value => Math.abs(value - center)));
+}
+
+// ============================================
+// Outlier Filters
+// ============================================
+
+/**
+ * Hampel filter: values more than `threshold` robust standard deviations
+ * (MAD_SCALE x MAD) from the median are outliers. With a MAD of 0 (most
+ * values identical) every differing value is an outlier.
+ */
+export function hampelFilter(values: number[], threshold: number = DEFAULT_HAMPEL_THRESHOLD): HampelResult {
+  const center = median(values);
+  const scale = MAD_SCALE * medianAbsoluteDeviation(values, center);
+
+  const outliers = values
+    .map((value, index) => ({ index, distance: Math.abs(value - center) }))
+    .filter(({ distance }) => distance > threshold * scale)
+    .map(({ index }) => index);
+
+  return { center, scale, outliers };
+}
+
+/**
+ * Tukey fences: values below q1 - k x IQR or above q3 + k x IQR are outliers.
+ */
+export function iqrFences(values: number[], k: number = DEFAULT_IQR_K): IqrFences {
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const iqr = q3 - q1;
+  const lower = q1 - k * iqr;
+  const upper = q3 + k * iqr;
+
+  const outliers = values
+    .map((value, index) => ({ index, value }))
+    .filter(({ value }) => value < lower || value > upper)
+    .map(({ index }) => index);
+
+  return { q1, q3, iqr, lower, upper, outliers };
+}
+
+// ============================================
+// Dispersion
+// ============================================
+
+/**
+ * How much values disagree with each other, relative to their median.
+ */
+export function calculateDispersion(values: number[]): Dispersion {
+  const center = median(values);
+  const scaleTo = (spread: number) => (center === 0 ? (spread === 0 ? 0 : Infinity) : spread / Math.abs(center) * 100);
+
+  if (values.length < 2) {
+    return { center, robustSpreadPercent: 0, iqrPercent: 0, rangePercent: 0, count: values.length };
+  }
+
+  return {
+    center,
+    robustSpreadPercent: scaleTo(MAD_SCALE * medianAbsoluteDeviation(values, center)),
+    iqrPercent: scaleTo(quantile(values, 0.75) - quantile(values, 0.25)),
+    rangePercent: scaleTo(Math.max(...values) - Math.min(...values)),
+    count: values.length,
+  };
+}
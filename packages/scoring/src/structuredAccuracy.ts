@@ -0,0 +1,292 @@
+/**
+ * OracleLens Structured Accuracy
+ *
+ * A (Accuracy) over structured data: every numeric field of the reported
+ * value (e.g. temperature, humidity and windSpeed of a weather reading, or
+ * open/high/low/close of a candle) is compared with the same field of each
+ * reference, under its own tolerance. Field scores are combined into one
+ * A score by weight, with a per-field breakdown. As with numeric references,
+ * each reference is weighted by its source's reputation, its own weight and
+ * its age, and fields are compared with the weighted median.
+ */
+
+import {
+  DEFAULT_MAX_REFERENCE_AGE_SECONDS,
+  NEUTRAL_ACCURACY,
+  referenceStaleDiscount,
+  scoreToleranceRatio,
+  SourcedReference,
+} from './referenceAccuracy';
+import { defaultReputationRegistry, ReputationRegistry } from './reputation';
+import { weightedMedian } from './statistics';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FieldTolerance {
+  percent?: number;   // Relative tolerance, e.g. 1 means 1% of the reference median
+  absolute?: number;  // Absolute tolerance in the field's unit (used for values near 0)
+  weight?: number;    // Share of the A score (default 1, normalized over scored fields)
+}
+
+export interface StructuredAccuracyInput {
+  value: Record<string, unknown>;          // Reported data, e.g. dataValue
+  references: Array<Record<string, unknown> | SourcedReference<Record<string, unknown>>>; // Same shape, from other sources
+  tolerances?: Record<string, FieldTolerance>; // By field path ("candle.close") or leaf name ("close")
+  defaultTolerancePercent?: number;        // For fields without a tolerance (default 1)
+  fields?: string[];                       // Only score these paths (default: every shared numeric field)
+  currentTimestamp?: number;               // Unix ms for reference ages (default Date.now())
+  maxReferenceAgeSeconds?: number;         // References older than this lose weight (default 300)
+}
+
+export interface StructuredReferenceWeight {
+  source: string;            // "reference-<n>" for unsourced records
+  reputation: number;        // Source reputation from the registry
+  ageSeconds: number | null;
+  staleDiscount: number;     // 1 = fresh, halves per max age beyond it
+  effectiveWeight: number;   // weight x reputation x staleDiscount
+}
+
+export interface FieldAccuracy {
+  field: string;             // Dot path, e.g. "humidity" or "candle.close"
+  value: number;
+  referenceMedian: number | null; // Weighted median of the references carrying this field
+  references: number;        // References carrying this field
+  deviation: number | null;  // |value - median| in the field's unit
+  deviationPercent: number | null;
+  tolerance: FieldTolerance;
+  withinTolerance: boolean;
+  score: number | null;      // null when no reference has the field
+  weight: number;
+}
+
+export interface StructuredAccuracyResult {
+  score: number;             // Weighted A score, 0-1
+  fields: FieldAccuracy[];
+  scoredFields: number;
+  outOfTolerance: string[];  // Field paths outside their tolerance
+  references: StructuredReferenceWeight[];
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+const DEFAULT_TOLERANCE_PERCENT = 1;
+
+// Fields describing when or where, not what - never scored
+const NON_MEASUREMENT_FIELDS = new Set([
+  'timestamp', 'updatedat', 'publishtime', 'observedat', 'lastupdated', 'time', 'date', 'lat', 'lon', 'latitude', 'longitude',
+]);
+
+/**
+ * Field tolerances by data type keyword.
+ */
+export const FIELD_TOLERANCE_PRESETS: Record<string, Record<string, FieldTolerance>> = {
+  weather: {
+    temperature: { absolute: 2 },
+    feelsLike: { absolute: 3, weight: 0.5 },
+    humidity: { absolute: 5 },
+    pressure: { percent: 0.5 },
+    windSpeed: { percent: 15, absolute: 2 },
+    windDirection: { absolute: 20, weight: 0.5 },
+    precipitation: { absolute: 1 },
+  },
+  ohlc: {
+    open: { percent: 1 },
+    high: { percent: 1 },
+    low: { percent: 1 },
+    close: { percent: 1, weight: 2 },
+    volume: { percent: 10, weight: 0.5 },
+  },
+};
+
+/**
+ * Field tolerances for a data type ("weather", "ohlc_candle", ...), or none.
+ */
+export function getFieldTolerances(dataType: string): Record<string, FieldTolerance> {
+  const type = dataType.toLowerCase();
+  if (type.includes('weather')) return FIELD_TOLERANCE_PRESETS.weather;
+  if (type.includes('ohlc') || type.includes('candle')) return FIELD_TOLERANCE_PRESETS.ohlc;
+  return {};
+}
+
+// ============================================
+// Field Extraction
+// ============================================
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Numeric leaves of an object by dot path ({ candle: { close: 1 } } -> { "candle.close": 1 }).
+ * Numeric strings count; timestamps and coordinates are skipped.
+ */
+export function flattenNumericFields(value: Record<string, unknown>, prefix = ''): Record<string, number> {
+  const fields: Record<string, number> = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    if (NON_MEASUREMENT_FIELDS.has(key.toLowerCase().replace(/_/g, ''))) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (child !== null && typeof child === 'object' && !Array.isArray(child)) {
+      Object.assign(fields, flattenNumericFields(child as Record<string, unknown>, path));
+      continue;
+    }
+
+    const numeric = toNumber(child);
+    if (numeric !== null) {
+      fields[path] = numeric;
+    }
+  }
+
+  return fields;
+}
+
+// Fields that carry "the" value of single-value feeds, in order of preference
+const PRIMARY_VALUE_FIELDS = ['price', 'value', 'temperature', 'close', 'amount'];
+
+/**
+ * The single value to compare with flat numeric references: the first
+ * preferred field present, else the only numeric field. Null if ambiguous.
+ */
+export function resolvePrimaryValue(value: Record<string, unknown>): { field: string; value: number } | null {
+  const fields = flattenNumericFields(value);
+
+  for (const field of PRIMARY_VALUE_FIELDS) {
+    if (fields[field] !== undefined) return { field, value: fields[field] };
+  }
+
+  const paths = Object.keys(fields);
+  return paths.length === 1 ? { field: paths[0], value: fields[paths[0]] } : null;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+function isSourcedReference(
+  reference: Record<string, unknown> | SourcedReference<Record<string, unknown>>
+): reference is SourcedReference<Record<string, unknown>> {
+  return typeof reference.source === 'string'
+    && typeof reference.value === 'object' && reference.value !== null && !Array.isArray(reference.value);
+}
+
+/**
+ * Deviation in multiples of the tolerance. With both a percent and an
+ * absolute tolerance the looser one applies.
+ */
+function toleranceRatio(deviation: number, referenceMedian: number, tolerance: FieldTolerance): number {
+  const allowances: number[] = [];
+  if (tolerance.percent !== undefined && referenceMedian !== 0) {
+    allowances.push(Math.abs(referenceMedian) * tolerance.percent / 100);
+  }
+  if (tolerance.absolute !== undefined) {
+    allowances.push(tolerance.absolute);
+  }
+
+  const allowance = Math.max(0, ...allowances);
+  if (allowance === 0) return deviation === 0 ? 0 : Infinity;
+  return deviation / allowance;
+}
+
+/**
+ * Score every numeric field against the reputation- and age-weighted
+ * references and combine by weight.
+ */
+export function calculateStructuredAccuracy(
+  input: StructuredAccuracyInput,
+  registry: ReputationRegistry = defaultReputationRegistry
+): StructuredAccuracyResult {
+  const tolerances = input.tolerances ?? {};
+  const defaultTolerance: FieldTolerance = { percent: input.defaultTolerancePercent ?? DEFAULT_TOLERANCE_PERCENT };
+  const now = input.currentTimestamp ?? Date.now();
+  const maxAge = input.maxReferenceAgeSeconds ?? DEFAULT_MAX_REFERENCE_AGE_SECONDS;
+
+  const reported = flattenNumericFields(input.value);
+  const sourced = input.references.map((reference, index) => (isSourcedReference(reference)
+    ? reference
+    : { source: `reference-${index + 1}`, value: reference }));
+  const weights: StructuredReferenceWeight[] = sourced.map(reference => {
+    const reputation = registry.getReputation(reference.source);
+    const ageSeconds = reference.timestamp !== undefined ? Math.round((now - reference.timestamp) / 1000) : null;
+    const staleDiscount = referenceStaleDiscount(ageSeconds, maxAge);
+    return {
+      source: reference.source,
+      reputation,
+      ageSeconds,
+      staleDiscount,
+      effectiveWeight: Math.max(0, reference.weight ?? 1) * reputation * staleDiscount,
+    };
+  });
+  const references = sourced.map(reference => flattenNumericFields(reference.value));
+  const paths = input.fields ?? Object.keys(reported);
+
+  const fields: FieldAccuracy[] = [];
+
+  for (const field of paths) {
+    const value = reported[field];
+    if (value === undefined) continue;
+
+    // Exact path first, then the leaf name ("candle.close" -> "close")
+    const tolerance = tolerances[field] ?? tolerances[field.split('.').pop() as string] ?? defaultTolerance;
+    const weight = tolerance.weight ?? 1;
+    const referenceValues = references
+      .map((reference, index) => ({ value: reference[field], weight: weights[index].effectiveWeight }))
+      .filter((item): item is { value: number; weight: number } => item.value !== undefined);
+    const referenceMedian = weightedMedian(referenceValues);
+
+    if (referenceMedian === null) {
+      fields.push({
+        field,
+        value,
+        referenceMedian: null,
+        references: 0,
+        deviation: null,
+        deviationPercent: null,
+        tolerance,
+        withinTolerance: true,
+        score: null,
+        weight,
+      });
+      continue;
+    }
+
+    const deviation = Math.abs(value - referenceMedian);
+    const ratio = toleranceRatio(deviation, referenceMedian, tolerance);
+
+    fields.push({
+      field,
+      value,
+      referenceMedian,
+      references: referenceValues.length,
+      deviation,
+      deviationPercent: referenceMedian !== 0 ? deviation / Math.abs(referenceMedian) * 100 : null,
+      tolerance,
+      withinTolerance: ratio <= 1,
+      score: Number.isFinite(ratio) ? scoreToleranceRatio(ratio) : 0,
+      weight,
+    });
+  }
+
+  const scored = fields.filter(field => field.score !== null && field.weight > 0);
+  const totalWeight = scored.reduce((sum, field) => sum + field.weight, 0);
+  const score = totalWeight > 0
+    ? scored.reduce((sum, field) => sum + (field.score as number) * field.weight, 0) / totalWeight
+    : NEUTRAL_ACCURACY;
+
+  return {
+    score: Math.max(0, Math.min(1, score)),
+    fields,
+    scoredFields: scored.length,
+    outOfTolerance: scored.filter(field => !field.withinTolerance).map(field => field.field),
+    references: weights,
+  };
+}
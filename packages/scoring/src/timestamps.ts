@@ -0,0 +1,129 @@
+/**
+ * OracleLens Timestamp Normalization
+ *
+ * Oracle payloads carry their timestamp under different names (timestamp,
+ * updatedAt, publishTime, ...) and in different units (Unix seconds,
+ * milliseconds, microseconds or ISO-8601 strings). This finds the
+ * timestamp and converts it to Unix ms, and says so when there is none
+ * instead of inventing one.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type TimestampUnit = 'seconds' | 'milliseconds' | 'microseconds' | 'nanoseconds' | 'iso8601';
+
+export interface NormalizedTimestamp {
+  timestamp: number;     // Unix ms
+  unit: TimestampUnit;   // Detected unit of the raw value
+}
+
+export interface TimestampResolution {
+  timestamp: number | null;  // Unix ms, null when no usable timestamp was found
+  field?: string;            // Dot path it was read from, e.g. "price.publishTime"
+  unit?: TimestampUnit;
+  raw?: unknown;             // Value as found
+  reason?: string;           // Why there is no timestamp
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Field names carrying a data timestamp, in order of preference
+ * (matched case-insensitively, with or without underscores).
+ */
+export const TIMESTAMP_FIELDS = [
+  'timestamp',
+  'updatedAt',
+  'publishTime',
+  'observedAt',
+  'lastUpdated',
+  'time',
+];
+
+// Magnitude limits telling units apart: 1e11 s is the year 5138, 1e11 ms is 1973
+const MAX_SECONDS = 1e11;
+const MAX_MILLISECONDS = 1e14;
+const MAX_MICROSECONDS = 1e17;
+
+// ISO-8601 date, optionally with time and zone
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+const NUMERIC = /^\d+(\.\d+)?$/;
+
+// ============================================
+// Normalization
+// ============================================
+
+/**
+ * Convert a raw timestamp to Unix ms, detecting its unit from its magnitude
+ * (numbers and numeric strings) or format (ISO-8601). Null if unusable.
+ */
+export function normalizeTimestamp(raw: unknown): NormalizedTimestamp | null {
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    if (NUMERIC.test(text)) return normalizeTimestamp(Number(text));
+    if (!ISO_8601.test(text)) return null;
+    const parsed = Date.parse(text);
+    return Number.isFinite(parsed) ? { timestamp: parsed, unit: 'iso8601' } : null;
+  }
+
+  if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0) return null;
+
+  if (raw < MAX_SECONDS) return { timestamp: Math.round(raw * 1000), unit: 'seconds' };
+  if (raw < MAX_MILLISECONDS) return { timestamp: Math.round(raw), unit: 'milliseconds' };
+  if (raw < MAX_MICROSECONDS) return { timestamp: Math.round(raw / 1000), unit: 'microseconds' };
+  return { timestamp: Math.round(raw / 1e6), unit: 'nanoseconds' };
+}
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/_/g, '');
+}
+
+const FIELD_PRIORITY = new Map(TIMESTAMP_FIELDS.map((field, index) => [fieldKey(field), index]));
+
+/**
+ * Find and normalize the timestamp of a data value. Top-level fields win
+ * over nested ones (e.g. Pyth's price.publishTime); among the same depth
+ * the order of TIMESTAMP_FIELDS decides.
+ */
+export function resolveTimestamp(value: Record<string, unknown>): TimestampResolution {
+  const candidates: Array<{ path: string; raw: unknown; depth: number; priority: number }> = [];
+
+  const collect = (object: Record<string, unknown>, prefix: string, depth: number) => {
+    for (const [key, child] of Object.entries(object)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      const priority = FIELD_PRIORITY.get(fieldKey(key));
+      if (priority !== undefined) {
+        candidates.push({ path, raw: child, depth, priority });
+      } else if (depth < 2 && child !== null && typeof child === 'object' && !Array.isArray(child)) {
+        collect(child as Record<string, unknown>, path, depth + 1);
+      }
+    }
+  };
+  collect(value, '', 0);
+
+  if (candidates.length === 0) {
+    return { timestamp: null, reason: `No timestamp field (looked for ${TIMESTAMP_FIELDS.join(', ')})` };
+  }
+
+  candidates.sort((a, b) => a.depth - b.depth || a.priority - b.priority);
+
+  for (const candidate of candidates) {
+    const normalized = normalizeTimestamp(candidate.raw);
+    if (normalized) {
+      return { timestamp: normalized.timestamp, field: candidate.path, unit: normalized.unit, raw: candidate.raw };
+    }
+  }
+
+  const first = candidates[0];
+  return {
+    timestamp: null,
+    field: first.path,
+    raw: first.raw,
+    reason: `Unrecognized timestamp in ${first.path}: ${JSON.stringify(first.raw)}`,
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * OracleLens Tolerance Profiles
+ *
+ * How far a reported value may sit from its references depends on the
+ * asset: a stablecoin 1% off its peg is a crisis, a small-cap token moving
+ * 1% is noise. Profiles are keyed by feed, asset or data type and give
+ * either a static tolerance or one derived from the rolling realized
+ * volatility of the feed's history.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface VolatilityTolerance {
+  multiplier: number;        // Tolerance = multiplier x volatility over the horizon
+  minPercent: number;        // Floor, so quiet markets are not held to 0%
+  maxPercent: number;        // Cap, so a crash does not excuse anything
+  horizonSeconds?: number;   // Move the references may lag by (default 300)
+  windowSeconds?: number;    // History to measure volatility over (default 24h)
+  minSamples?: number;       // Values needed before volatility is trusted (default 8)
+}
+
+export interface ToleranceProfile {
+  id: string;                // e.g. "stablecoin"
+  description: string;
+  feeds?: string[];          // Feed ids, e.g. "chainlink:price_feed" (see getFeedId)
+  assets?: string[];         // Asset symbols, e.g. "USDC"
+  dataTypes?: string[];      // Data type keywords, e.g. "weather"
+  tolerancePercent: number;  // Static tolerance (fallback while history is short)
+  volatility?: VolatilityTolerance;
+}
+
+export interface ValueSample {
+  value: number;
+  timestamp: number;         // Unix ms
+}
+
+export interface ToleranceContext {
+  feedId?: string;
+  asset?: string;
+  dataType?: string;
+  history?: ValueSample[];   // Earlier values of the feed, for volatility profiles
+  now?: number;              // Unix ms (default Date.now())
+}
+
+export interface ToleranceResolution {
+  tolerancePercent: number;
+  profileId: string;
+  matchedBy: 'feed' | 'asset' | 'dataType' | 'default' | 'formula'; // 'formula': fixed by the scoring formula
+  method: 'static' | 'volatility';
+  volatilityPercent?: number; // Realized volatility over the horizon, when used
+  samples: number;            // History values considered
+}
+
+// ============================================
+// Profiles
+// ============================================
+
+const DEFAULT_HORIZON_SECONDS = 300;
+const DEFAULT_VOLATILITY_WINDOW_SECONDS = 24 * 3600;
+const DEFAULT_MIN_SAMPLES = 8;
+
+export const DEFAULT_TOLERANCE_PROFILE_ID = 'default';
+
+/**
+ * Built-in profiles. More specific keys win: feed, then asset, then data type.
+ */
+export const DEFAULT_TOLERANCE_PROFILES: ToleranceProfile[] = [
+  {
+    id: 'stablecoin',
+    description: 'USD stablecoins should hold their peg tightly',
+    assets: ['USDC', 'USDT', 'DAI', 'FRAX', 'TUSD', 'USDP', 'PYUSD', 'LUSD', 'GUSD', 'USDE'],
+    tolerancePercent: 0.1,
+  },
+  {
+    id: 'major-crypto',
+    description: 'Deep, liquid markets - tolerance follows realized volatility',
+    assets: ['BTC', 'WBTC', 'ETH', 'WETH', 'STETH'],
+    tolerancePercent: 1,
+    volatility: { multiplier: 3, minPercent: 0.25, maxPercent: 3 },
+  },
+  {
+    id: 'weather',
+    description: 'Weather stations legitimately differ by location and timing',
+    dataTypes: ['weather'],
+    tolerancePercent: 5,
+  },
+  {
+    id: DEFAULT_TOLERANCE_PROFILE_ID,
+    description: 'Everything else - tolerance follows realized volatility',
+    tolerancePercent: 1,
+    volatility: { multiplier: 3, minPercent: 0.5, maxPercent: 10 },
+  },
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+// Fields naming the asset of a price feed, in order of preference
+const ASSET_FIELDS = ['asset', 'symbol', 'pair', 'token', 'base'];
+
+/**
+ * The asset a data value is about ("ETH/USD", "eth-usd" and "ETH" -> "ETH"), or undefined.
+ */
+export function resolveAssetSymbol(value: Record<string, unknown>): string | undefined {
+  for (const field of ASSET_FIELDS) {
+    const candidate = value[field];
+    if (typeof candidate === 'string' && candidate.trim() !== '') {
+      return candidate.trim().split(/[/\-_: ]/)[0].toUpperCase();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Realized volatility of a series in % over `horizonSeconds`: the
+ * zero-mean variance of log returns per second, scaled to the horizon.
+ * Null with fewer than two usable values.
+ */
+export function realizedVolatility(samples: ValueSample[], horizonSeconds: number = DEFAULT_HORIZON_SECONDS): number | null {
+  const sorted = samples
+    .filter(sample => Number.isFinite(sample.value) && sample.value > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let squaredReturns = 0;
+  let elapsedSeconds = 0;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const dt = (sorted[i].timestamp - sorted[i - 1].timestamp) / 1000;
+    if (dt <= 0) continue;
+    const logReturn = Math.log(sorted[i].value / sorted[i - 1].value);
+    squaredReturns += logReturn * logReturn;
+    elapsedSeconds += dt;
+  }
+
+  if (elapsedSeconds === 0) return null;
+  return Math.sqrt(squaredReturns / elapsedSeconds * horizonSeconds) * 100;
+}
+
+/**
+ * The profile for a feed, asset or data type, most specific first.
+ */
+export function findToleranceProfile(
+  context: ToleranceContext,
+  profiles: ToleranceProfile[] = DEFAULT_TOLERANCE_PROFILES
+): { profile: ToleranceProfile; matchedBy: ToleranceResolution['matchedBy'] } {
+  const feedId = context.feedId?.toLowerCase();
+  const asset = context.asset?.toUpperCase();
+  const dataType = context.dataType?.toLowerCase();
+
+  const byFeed = feedId && profiles.find(p => p.feeds?.some(feed => feed.toLowerCase() === feedId));
+  if (byFeed) return { profile: byFeed, matchedBy: 'feed' };
+
+  const byAsset = asset && profiles.find(p => p.assets?.some(a => a.toUpperCase() === asset));
+  if (byAsset) return { profile: byAsset, matchedBy: 'asset' };
+
+  const byType = dataType && profiles.find(p => p.dataTypes?.some(keyword => dataType.includes(keyword.toLowerCase())));
+  if (byType) return { profile: byType, matchedBy: 'dataType' };
+
+  const fallback = profiles.find(p => p.id === DEFAULT_TOLERANCE_PROFILE_ID)
+    ?? DEFAULT_TOLERANCE_PROFILES[DEFAULT_TOLERANCE_PROFILES.length - 1];
+  return { profile: fallback, matchedBy: 'default' };
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Tolerance for a feed: the profile's static tolerance, or - for
+ * volatility profiles with enough recent history - a multiple of the
+ * realized volatility, clamped to the profile's bounds.
+ */
+export function resolveTolerance(
+  context: ToleranceContext,
+  profiles: ToleranceProfile[] = DEFAULT_TOLERANCE_PROFILES
+): ToleranceResolution {
+  const { profile, matchedBy } = findToleranceProfile(context, profiles);
+  const volatility = profile.volatility;
+
+  const staticResolution: ToleranceResolution = {
+    tolerancePercent: profile.tolerancePercent,
+    profileId: profile.id,
+    matchedBy,
+    method: 'static',
+    samples: 0,
+  };
+  if (!volatility || !context.history) return staticResolution;
+
+  const now = context.now ?? Date.now();
+  const since = now - (volatility.windowSeconds ?? DEFAULT_VOLATILITY_WINDOW_SECONDS) * 1000;
+  const window = context.history.filter(sample => sample.timestamp >= since && sample.timestamp <= now);
+  if (window.length < (volatility.minSamples ?? DEFAULT_MIN_SAMPLES)) {
+    return { ...staticResolution, samples: window.length };
+  }
+
+  const volatilityPercent = realizedVolatility(window, volatility.horizonSeconds ?? DEFAULT_HORIZON_SECONDS);
+  if (volatilityPercent === null) {
+    return { ...staticResolution, samples: window.length };
+  }
+
+  return {
+    tolerancePercent: Math.max(volatility.minPercent, Math.min(volatility.maxPercent, volatility.multiplier * volatilityPercent)),
+    profileId: profile.id,
+    matchedBy,
+    method: 'volatility',
+    volatilityPercent,
+    samples: window.length,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * OracleLens Trust Bands
+ *
+ * Map a final score (0-100) to a trust level. Formulas may declare their
+ * own band boundaries - a formula with a high acceptance threshold needs a
+ * wider "medium" band than "high at 90, medium at the threshold" gives it -
+ * and may add a "critical" level below "untrusted" for scores that should
+ * block use outright.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type TrustLevel = 'high' | 'medium' | 'low' | 'untrusted' | 'critical';
+
+export interface TrustBand {
+  level: TrustLevel;
+  minScore: number;   // Lowest final score (0-100) in the band
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Every trust level, most trusted first.
+ */
+export const TRUST_LEVELS: TrustLevel[] = ['high', 'medium', 'low', 'untrusted', 'critical'];
+
+// Bands of formulas that do not declare their own
+const DEFAULT_HIGH_SCORE = 90;
+const DEFAULT_LOW_MARGIN = 15;
+
+/**
+ * Bands of a formula without its own: high from 90, medium from the
+ * formula's minimum acceptable score, low up to 15 below it, else untrusted.
+ */
+export function defaultTrustBands(minAcceptableScore: number): TrustBand[] {
+  return [
+    { level: 'high', minScore: DEFAULT_HIGH_SCORE },
+    { level: 'medium', minScore: minAcceptableScore },
+    { level: 'low', minScore: minAcceptableScore - DEFAULT_LOW_MARGIN },
+    { level: 'untrusted', minScore: -Infinity },
+  ];
+}
+
+// ============================================
+// Classification
+// ============================================
+
+/**
+ * Trust bands of a formula: its own, or the defaults for its threshold.
+ */
+export function getTrustBands(formula: { minAcceptableScore: number; trustBands?: TrustBand[] }): TrustBand[] {
+  return formula.trustBands ?? defaultTrustBands(formula.minAcceptableScore);
+}
+
+/**
+ * Trust level of a score: the first band (most trusted first) it reaches.
+ */
+export function classifyTrustLevel(score: number, bands: TrustBand[]): TrustLevel {
+  for (const band of bands) {
+    if (score >= band.minScore) return band.level;
+  }
+  return bands.length > 0 ? bands[bands.length - 1].level : 'untrusted';
+}
+
+/**
+ * Whether a trust level means the data can be used (high or medium).
+ */
+export function isTrustedLevel(level: TrustLevel): boolean {
+  return level === 'high' || level === 'medium';
+}
+
+/**
+ * Reason trust bands would be rejected, or null if they are valid. Bands
+ * go from most to least trusted with falling boundaries, each level at
+ * most once, and the last one starts at 0 so every score has a level.
+ * With the formula's minimum acceptable score, the lowest trusted band
+ * (medium, or high without one) must start there, so the trust level and
+ * the pass/fail threshold agree.
+ */
+export function validateTrustBands(bands: TrustBand[], minAcceptableScore?: number): string | null {
+  if (!Array.isArray(bands) || bands.length < 2) {
+    return 'Trust bands need at least two levels';
+  }
+
+  for (let i = 0; i < bands.length; i++) {
+    if (bands[i] === null || typeof bands[i] !== 'object') {
+      return 'Each trust band needs a level and a minScore';
+    }
+    const { level, minScore } = bands[i];
+    if (!TRUST_LEVELS.includes(level)) {
+      return `Unknown trust level "${level}"`;
+    }
+    if (!Number.isFinite(minScore) || minScore < 0 || minScore > 100) {
+      return `Trust band "${level}" must start between 0 and 100, got ${minScore}`;
+    }
+    if (i > 0) {
+      const previous = bands[i - 1];
+      if (TRUST_LEVELS.indexOf(level) <= TRUST_LEVELS.indexOf(previous.level)) {
+        return `Trust band "${level}" must come before "${previous.level}"`;
+      }
+      if (minScore >= previous.minScore) {
+        return `Trust band "${level}" must start below "${previous.level}" (${previous.minScore}), got ${minScore}`;
+      }
+    }
+  }
+
+  if (bands[bands.length - 1].minScore !== 0) {
+    return `The last trust band ("${bands[bands.length - 1].level}") must start at 0`;
+  }
+
+  if (minAcceptableScore !== undefined) {
+    const trusted = bands.filter(band => isTrustedLevel(band.level));
+    const lowest = trusted[trusted.length - 1];
+    if (!lowest) {
+      return 'Trust bands need a "high" or "medium" band';
+    }
+    if (lowest.minScore !== minAcceptableScore) {
+      return `Trust band "${lowest.level}" must start at minAcceptableScore (${minAcceptableScore}), got ${lowest.minScore}`;
+    }
+  }
+  return null;
+}
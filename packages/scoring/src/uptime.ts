@@ -0,0 +1,201 @@
+/**
+ * OracleLens Uptime Tracking
+ *
+ * Liveness of an oracle feed, measured from when it was seen (evaluated or
+ * polled). Each sighting keeps the feed "up" for one heartbeat (plus grace);
+ * anything longer between sightings is a gap. Uptime is the covered share
+ * of a rolling window and feeds SourceInput.historicalUptime.
+ *
+ * A gap only shows the feed was not seen, not that it was down. Uptime is
+ * therefore only sufficient evidence when the feed was sighted often enough
+ * (about every other heartbeat by default), e.g. by a poller.
+ */
+
+import { normalizeOracleId } from './reputation';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LivenessSample {
+  feedId: string;            // e.g. "chainlink:price_feed" (see getFeedId)
+  observedAt: number;        // Unix ms the feed was seen live
+  source: 'evaluation' | 'poll';
+}
+
+export interface UptimeOptions {
+  heartbeatSeconds?: number; // Expected max time between updates (default 3600)
+  graceFactor?: number;      // Heartbeat multiplier before a gap counts (default 1.5)
+  windowSeconds?: number;    // Rolling window (default 7 days)
+  minSamples?: number;       // Sightings needed to rely on the result (default half the heartbeats in the window, at least 2)
+  now?: number;              // Unix ms (default Date.now())
+}
+
+export interface UptimeGap {
+  start: number;             // Unix ms
+  end: number;               // Unix ms
+  durationSeconds: number;
+}
+
+export interface UptimeResult {
+  uptimePercent: number;     // 0-100, share of the window the feed was live
+  windowStart: number;       // Unix ms (first sighting if the feed is newer than the window)
+  windowEnd: number;         // Unix ms
+  heartbeatSeconds: number;
+  samples: number;           // Sightings used
+  sufficient: boolean;       // Enough sightings to treat gaps as downtime (see minSamples)
+  gaps: UptimeGap[];
+}
+
+/**
+ * Persistence for liveness samples (e.g. a database table).
+ */
+export interface LivenessStore {
+  record(sample: LivenessSample): Promise<void>;
+  list(feedId: string, since: number): Promise<LivenessSample[]>;
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+export const DEFAULT_HEARTBEAT_SECONDS = 3600;
+const DEFAULT_GRACE_FACTOR = 1.5;
+const DEFAULT_UPTIME_WINDOW_SECONDS = 7 * 24 * 3600;
+const DEFAULT_MIN_SAMPLE_SHARE = 0.5;
+const MIN_UPTIME_SAMPLES = 2;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Feed key for an oracle and data type ("Chainlink", "Price Feed" -> "chainlink:price_feed").
+ */
+export function getFeedId(oracleName: string, dataType: string): string {
+  const type = dataType.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  return `${normalizeOracleId(oracleName)}:${type}`;
+}
+
+// ============================================
+// Uptime
+// ============================================
+
+/**
+ * Rolling uptime from sighting timestamps (Unix ms). Samples before the
+ * window still cover its start. Returns null if the feed was never seen
+ * before `now`, or the window since its first sighting is empty. Check
+ * `sufficient` before scoring with it: sparse sightings look like downtime.
+ */
+export function calculateUptime(timestamps: number[], options: UptimeOptions = {}): UptimeResult | null {
+  const heartbeatSeconds = options.heartbeatSeconds ?? DEFAULT_HEARTBEAT_SECONDS;
+  const coverMs = heartbeatSeconds * (options.graceFactor ?? DEFAULT_GRACE_FACTOR) * 1000;
+  const windowEnd = options.now ?? Date.now();
+  const windowMs = (options.windowSeconds ?? DEFAULT_UPTIME_WINDOW_SECONDS) * 1000;
+
+  const sorted = timestamps.filter(t => t <= windowEnd).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  // A feed first seen inside the window is only measured from then on
+  const windowStart = Math.max(windowEnd - windowMs, sorted[0]);
+  if (windowEnd <= windowStart) return null;
+
+  const gaps: UptimeGap[] = [];
+  let coveredUntil = windowStart;
+  let samples = 0;
+
+  const addGap = (start: number, end: number) => {
+    gaps.push({ start, end, durationSeconds: Math.round((end - start) / 1000) });
+  };
+
+  for (const t of sorted) {
+    const coverEnd = Math.min(t + coverMs, windowEnd);
+    if (coverEnd <= windowStart) continue;
+
+    samples += 1;
+    if (t > coveredUntil) {
+      addGap(coveredUntil, t);
+    }
+    coveredUntil = Math.max(coveredUntil, coverEnd);
+  }
+
+  if (coveredUntil < windowEnd) {
+    addGap(coveredUntil, windowEnd);
+  }
+
+  const downMs = gaps.reduce((sum, gap) => sum + (gap.end - gap.start), 0);
+  const uptimePercent = Math.max(0, Math.min(100, (1 - downMs / (windowEnd - windowStart)) * 100));
+
+  const expectedHeartbeats = (windowEnd - windowStart) / (heartbeatSeconds * 1000);
+  const minSamples = options.minSamples
+    ?? Math.max(MIN_UPTIME_SAMPLES, Math.ceil(expectedHeartbeats * DEFAULT_MIN_SAMPLE_SHARE));
+
+  return {
+    uptimePercent,
+    windowStart,
+    windowEnd,
+    heartbeatSeconds,
+    samples,
+    sufficient: samples >= minSamples,
+    gaps,
+  };
+}
+
+/**
+ * Rolling uptime of a feed from the samples in a store.
+ */
+export async function measureUptime(
+  store: LivenessStore,
+  feedId: string,
+  options: UptimeOptions = {}
+): Promise<UptimeResult | null> {
+  const now = options.now ?? Date.now();
+  const windowMs = (options.windowSeconds ?? DEFAULT_UPTIME_WINDOW_SECONDS) * 1000;
+  const coverMs = (options.heartbeatSeconds ?? DEFAULT_HEARTBEAT_SECONDS)
+    * (options.graceFactor ?? DEFAULT_GRACE_FACTOR) * 1000;
+
+  // Samples shortly before the window can still cover its start
+  const samples = await store.list(feedId, now - windowMs - coverMs);
+  return calculateUptime(samples.map(sample => sample.observedAt), { ...options, now });
+}
+
+/**
+ * Record a sighting unless the feed was already seen within half a
+ * heartbeat of it, so a burst of reports adds at most two samples per
+ * heartbeat. Returns whether the sample was recorded.
+ */
+export async function recordLivenessSample(
+  store: LivenessStore,
+  sample: LivenessSample,
+  options: Pick<UptimeOptions, 'heartbeatSeconds'> = {}
+): Promise<boolean> {
+  const intervalMs = (options.heartbeatSeconds ?? DEFAULT_HEARTBEAT_SECONDS) * 1000 / 2;
+  const nearby = await store.list(sample.feedId, sample.observedAt - intervalMs);
+  if (nearby.some(existing => Math.abs(existing.observedAt - sample.observedAt) < intervalMs)) {
+    return false;
+  }
+
+  await store.record(sample);
+  return true;
+}
+
+// ============================================
+// In-Memory Store
+// ============================================
+
+/**
+ * Process-local liveness store for demos, tests and single-instance deployments.
+ */
+export class InMemoryLivenessStore implements LivenessStore {
+  private samples = new Map<string, LivenessSample[]>();
+
+  async record(sample: LivenessSample): Promise<void> {
+    const feed = this.samples.get(sample.feedId) ?? [];
+    feed.push(sample);
+    this.samples.set(sample.feedId, feed);
+  }
+
+  async list(feedId: string, since: number): Promise<LivenessSample[]> {
+    return (this.samples.get(feedId) ?? []).filter(sample => sample.observedAt >= since);
+  }
+}
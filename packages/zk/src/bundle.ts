@@ -0,0 +1,204 @@
+/**
+ * OracleLens zkTLS Module - Proof Bundles
+ *
+ * A portable, versioned file holding everything needed to audit an evaluation:
+ * request, response, base scores, formula, raw attestation and on-chain reference.
+ * The manifest hash covers every other field, and verifyBundle re-runs the
+ * formula and proof hash to confirm the recorded result.
+ */
+
+import { createHash } from 'crypto';
+import { calculateCredibilityScore } from '@oraclelens/scoring';
+import {
+  BundleCheck,
+  BundleVerificationOptions,
+  BundleVerificationResult,
+  ProofBundle,
+  ProofBundleInput,
+} from './types';
+import { generateProofHash } from './primusClient';
+import { verifyAttestationSignatures } from './verifySignatures';
+import { canonicalStringify } from './canonicalJson';
+
+export const PROOF_BUNDLE_VERSION = 'oraclelens-bundle/1';
+
+// Scores are stored as floats - allow for serialization round-off
+const BREAKDOWN_EPSILON = 1e-9;
+
+// ============================================
+// Manifest
+// ============================================
+
+/**
+ * Hash over every bundle field except the manifest hash itself.
+ */
+export function computeManifestHash(bundle: Omit<ProofBundle, 'manifestHash'> | ProofBundle): string {
+  const content: Record<string, unknown> = { ...bundle };
+  delete content.manifestHash;
+  return '0x' + createHash('sha256').update(canonicalStringify(content)).digest('hex');
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Assemble a proof bundle and seal it with its manifest hash.
+ */
+export function exportBundle(input: ProofBundleInput): ProofBundle {
+  const content: Omit<ProofBundle, 'manifestHash'> = {
+    version: PROOF_BUNDLE_VERSION,
+    exportedAt: input.exportedAt ?? Date.now(),
+    request: input.request,
+    response: input.response,
+    baseScores: input.baseScores,
+    formula: input.formula,
+    attestation: input.attestation ?? null,
+    onChain: input.onChain ?? null,
+  };
+
+  // Round-trip through JSON so the sealed content matches what a reader parses
+  const normalized = JSON.parse(JSON.stringify(content)) as Omit<ProofBundle, 'manifestHash'>;
+
+  return { ...normalized, manifestHash: computeManifestHash(normalized) };
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Verify a bundle: manifest integrity, deterministic re-scoring with the
+ * bundled formula and base scores, the proof hash and attestor signatures
+ * of the raw attestation (required when the result reports a verified
+ * proof) and, with options.recorded, agreement with the stored result.
+ */
+export function verifyBundle(
+  bundle: ProofBundle,
+  options: BundleVerificationOptions = {}
+): BundleVerificationResult {
+  const checks: BundleCheck[] = [];
+
+  checks.push({
+    name: 'version',
+    passed: bundle.version === PROOF_BUNDLE_VERSION,
+    detail: bundle.version === PROOF_BUNDLE_VERSION ? undefined : `Unsupported bundle version ${bundle.version}`,
+  });
+
+  const manifestHash = computeManifestHash(bundle);
+  checks.push({
+    name: 'manifest',
+    passed: manifestHash === bundle.manifestHash,
+    detail: manifestHash === bundle.manifestHash
+      ? undefined
+      : `Manifest hash mismatch: bundle says ${bundle.manifestHash}, content hashes to ${manifestHash}`,
+  });
+
+  checks.push({
+    name: 'formula',
+    passed: bundle.formula.id === bundle.response.formulaId,
+    detail: bundle.formula.id === bundle.response.formulaId
+      ? undefined
+      : `Bundled formula ${bundle.formula.id} is not the formula ${bundle.response.formulaId} the result reports`,
+  });
+
+  // Re-run scoring
+  const rescored = calculateCredibilityScore(bundle.baseScores, bundle.formula);
+
+  checks.push({
+    name: 'score',
+    passed: rescored.finalScore === bundle.response.score,
+    detail: rescored.finalScore === bundle.response.score
+      ? undefined
+      : `Recomputed score ${rescored.finalScore}, bundle reports ${bundle.response.score}`,
+  });
+
+  checks.push({
+    name: 'trustLevel',
+    passed: rescored.trustLevel === bundle.response.trustLevel,
+    detail: rescored.trustLevel === bundle.response.trustLevel
+      ? undefined
+      : `Recomputed trust level ${rescored.trustLevel}, bundle reports ${bundle.response.trustLevel}`,
+  });
+
+  const factors = ['source', 'time', 'accuracy', 'proof'] as const;
+  const drifted = factors.filter(factor => {
+    const recorded = bundle.response.breakdown?.[factor];
+    const recomputed = rescored.breakdown[factor];
+    return !recorded
+      || Math.abs(recorded.raw - recomputed.raw) > BREAKDOWN_EPSILON
+      || Math.abs(recorded.weighted - recomputed.weighted) > BREAKDOWN_EPSILON;
+  });
+  checks.push({
+    name: 'breakdown',
+    passed: drifted.length === 0,
+    detail: drifted.length === 0 ? undefined : `Breakdown differs for: ${drifted.join(', ')}`,
+  });
+
+  // Proof hash and signatures of the raw attestation
+  let proofHash: string | null = null;
+
+  if (bundle.attestation) {
+    try {
+      proofHash = generateProofHash(bundle.attestation);
+    } catch (error) {
+      proofHash = null;
+      checks.push({
+        name: 'proofHash',
+        passed: false,
+        detail: `Malformed attestation: ${error instanceof Error ? error.message : 'cannot encode'}`,
+      });
+    }
+    if (proofHash) {
+      const matches = proofHash.toLowerCase() === bundle.response.proofHash.toLowerCase();
+      checks.push({
+        name: 'proofHash',
+        passed: matches,
+        detail: matches ? undefined : `Attestation hashes to ${proofHash}, bundle reports ${bundle.response.proofHash}`,
+      });
+    }
+
+    if (bundle.response.zkVerified) {
+      const signatureCheck = verifyAttestationSignatures(bundle.attestation, {
+        trustedAttestors: options.trustedAttestors,
+        requireListedAttestor: false,
+      });
+      checks.push({ name: 'signatures', passed: signatureCheck.valid, detail: signatureCheck.error });
+    } else {
+      checks.push({ name: 'signatures', passed: true, skipped: true, detail: 'Proof was not verified at evaluation time' });
+    }
+  } else if (bundle.response.zkVerified) {
+    // A verified proof that cannot be shown is only the bundle's word
+    checks.push({ name: 'proofHash', passed: false, detail: 'Result reports a verified proof but the bundle carries no attestation' });
+    checks.push({ name: 'signatures', passed: false, detail: 'No attestation to check signatures on' });
+  } else {
+    checks.push({ name: 'proofHash', passed: true, skipped: true, detail: 'Bundle carries no attestation' });
+    checks.push({ name: 'signatures', passed: true, skipped: true, detail: 'Bundle carries no attestation' });
+  }
+
+  // A self-consistent bundle can still be fabricated - compare with the stored result
+  if (options.recorded !== undefined) {
+    const recorded = options.recorded;
+    const mismatch = !recorded
+      ? 'No evaluation is recorded for this request'
+      : recorded.score !== bundle.response.score
+        ? `Recorded score ${recorded.score}, bundle reports ${bundle.response.score}`
+        : recorded.trustLevel !== bundle.response.trustLevel
+          ? `Recorded trust level ${recorded.trustLevel}, bundle reports ${bundle.response.trustLevel}`
+          : recorded.proofHash.toLowerCase() !== bundle.response.proofHash.toLowerCase()
+            ? `Recorded proof hash ${recorded.proofHash}, bundle reports ${bundle.response.proofHash}`
+            : undefined;
+    checks.push({ name: 'recorded', passed: mismatch === undefined, detail: mismatch });
+  }
+
+  return {
+    valid: checks.every(check => check.passed),
+    checks,
+    recomputed: {
+      manifestHash,
+      score: rescored.finalScore,
+      trustLevel: rescored.trustLevel,
+      proofHash,
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * OracleLens zkTLS Module - Canonical JSON
+ *
+ * Key-order independent serialization, so hashes over JSON documents
+ * (bound data, bundle manifests) are stable across producers.
+ */
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry !== undefined) acc[key] = canonicalize(entry);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * JSON.stringify with object keys sorted recursively (undefined entries dropped).
+ */
+export function canonicalStringify(value: unknown): string {
+  return JSON.stringify(canonicalize(value));
+}
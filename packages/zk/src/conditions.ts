@@ -0,0 +1,276 @@
+/**
+ * OracleLens zkTLS Module - Attestation Conditions
+ *
+ * Interprets the attConditions carried by every attestation.
+ * Conditions are OR-of-AND groups (AttestationCondition[][]): the attestation
+ * satisfies them if every condition in at least one group holds.
+ *
+ * Comparison ops (>, <, =, !=, >=, <=) allow threshold proofs such as
+ * "price > 2000" where the attestor reveals only the comparison outcome.
+ * SHA256 ops attest a hash of the field, which can be checked against a
+ * value revealed later.
+ */
+
+import { ethers } from 'ethers';
+import {
+  AttestationCondition,
+  AttestationResult,
+  ConditionCheck,
+  ConditionEvaluationOptions,
+  ConditionEvaluationResult,
+  ConditionGroupResult,
+} from './types';
+import { extractAttestedFields } from './dataBinding';
+
+const CONDITION_OPS: ReadonlyArray<AttestationCondition['op']> = ['SHA256', '>', '<', '=', '!=', '>=', '<='];
+
+// ============================================
+// Parsing
+// ============================================
+
+function isCondition(value: unknown): value is AttestationCondition {
+  if (value === null || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.field === 'string'
+    && CONDITION_OPS.includes(candidate.op as AttestationCondition['op'])
+    && (candidate.value === undefined || typeof candidate.value === 'string' || typeof candidate.value === 'number');
+}
+
+/**
+ * Parse stringified attConditions into OR-of-AND groups.
+ * Accepts the nested form, a flat list (one AND group) or a single condition.
+ * Returns null if the JSON is malformed or holds an unknown op.
+ */
+export function parseAttConditions(raw: string | undefined): AttestationCondition[][] | null {
+  if (raw === undefined || raw.trim() === '') return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  if (parsed === null) return [];
+  if (isCondition(parsed)) return [[parsed]];
+  if (!Array.isArray(parsed)) return null;
+
+  if (parsed.every(isCondition)) {
+    return parsed.length > 0 ? [parsed] : [];
+  }
+
+  const groups: AttestationCondition[][] = [];
+  for (const group of parsed) {
+    if (!Array.isArray(group) || !group.every(isCondition)) return null;
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+// ============================================
+// Hashed Fields
+// ============================================
+
+/**
+ * SHA256 of a field value as the attestor computes it (UTF-8 string, hex).
+ */
+export function hashFieldValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return ethers.sha256(ethers.toUtf8Bytes(text)).slice(2);
+}
+
+function normalizeHash(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const hex = value.trim().toLowerCase().replace(/^0x/, '');
+  return /^[0-9a-f]{64}$/.test(hex) ? hex : null;
+}
+
+// ============================================
+// Condition Evaluation
+// ============================================
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toOutcome(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return null;
+}
+
+function compare(op: AttestationCondition['op'], left: unknown, right: unknown): boolean | null {
+  const a = toNumber(left);
+  const b = toNumber(right);
+
+  if (a !== null && b !== null) {
+    switch (op) {
+      case '>': return a > b;
+      case '<': return a < b;
+      case '>=': return a >= b;
+      case '<=': return a <= b;
+      case '=': return a === b;
+      case '!=': return a !== b;
+      default: return null;
+    }
+  }
+
+  // Non-numeric values only support equality
+  if (op === '=') return String(left) === String(right);
+  if (op === '!=') return String(left) !== String(right);
+  return null;
+}
+
+function evaluateHashCondition(
+  condition: AttestationCondition,
+  attestedValue: unknown,
+  options: ConditionEvaluationOptions
+): ConditionCheck {
+  const base = { condition, attestedValue, hashed: true };
+  const attestedHash = normalizeHash(attestedValue);
+
+  if (!attestedHash) {
+    return { ...base, passed: false, reason: `Field "${condition.field}" is not a SHA256 hash` };
+  }
+
+  if (condition.value !== undefined && normalizeHash(String(condition.value)) !== attestedHash) {
+    return { ...base, passed: false, reason: `Hash of "${condition.field}" differs from the expected hash` };
+  }
+
+  const revealed = options.revealedValues?.[condition.field];
+  if (revealed === undefined) {
+    // Commitment only - nothing to check it against yet
+    return { ...base, passed: true };
+  }
+
+  const revealedMatches = hashFieldValue(revealed) === attestedHash;
+  return {
+    ...base,
+    passed: revealedMatches,
+    revealedMatches,
+    reason: revealedMatches
+      ? undefined
+      : `Revealed ${condition.field}=${JSON.stringify(revealed)} does not match the attested hash`,
+  };
+}
+
+/**
+ * Evaluate a single condition against the attested fields.
+ * A boolean attested value is the outcome the attestor already computed
+ * (the raw value stays hidden), which a revealed value must agree with;
+ * a raw value is compared locally.
+ */
+export function evaluateCondition(
+  condition: AttestationCondition,
+  fields: Record<string, unknown>,
+  options: ConditionEvaluationOptions = {}
+): ConditionCheck {
+  const attestedValue = fields[condition.field];
+
+  if (attestedValue === undefined) {
+    return { condition, attestedValue, hashed: false, passed: false, reason: `Field "${condition.field}" is not attested` };
+  }
+
+  if (condition.op === 'SHA256') {
+    return evaluateHashCondition(condition, attestedValue, options);
+  }
+
+  const base = { condition, attestedValue, hashed: false };
+  const outcome = toOutcome(attestedValue);
+  if (outcome !== null) {
+    if (!outcome) {
+      return { ...base, passed: false, reason: `Attestor reports ${condition.field} ${condition.op} ${condition.value} as false` };
+    }
+
+    // A revealed value must itself satisfy the condition the attestor vouched for
+    const revealed = options.revealedValues?.[condition.field];
+    if (revealed === undefined || condition.value === undefined) {
+      return { ...base, passed: true };
+    }
+    const revealedMatches = compare(condition.op, revealed, condition.value) === true;
+    return {
+      ...base,
+      passed: revealedMatches,
+      revealedMatches,
+      reason: revealedMatches
+        ? undefined
+        : `Revealed ${condition.field}=${JSON.stringify(revealed)} fails ${condition.op} ${condition.value}, which the attestor reports as true`,
+    };
+  }
+
+  if (condition.value === undefined) {
+    return { ...base, passed: false, reason: `Condition on "${condition.field}" has no comparison value` };
+  }
+
+  const passed = compare(condition.op, attestedValue, condition.value);
+  if (passed === null) {
+    return { ...base, passed: false, reason: `Cannot compare non-numeric ${condition.field} with ${condition.op}` };
+  }
+
+  return {
+    ...base,
+    passed,
+    reason: passed
+      ? undefined
+      : `${condition.field}=${JSON.stringify(attestedValue)} fails ${condition.op} ${condition.value}`,
+  };
+}
+
+/**
+ * Evaluate the attestation's attConditions (OR of AND groups).
+ * An attestation without conditions is trivially satisfied.
+ */
+export function evaluateAttConditions(
+  attestation: AttestationResult,
+  options: ConditionEvaluationOptions = {}
+): ConditionEvaluationResult {
+  const conditions = parseAttConditions(attestation.attConditions);
+  if (conditions === null) {
+    return { satisfied: false, conditions: [], groups: [], error: 'Malformed attConditions' };
+  }
+
+  if (conditions.length === 0) {
+    return { satisfied: true, conditions, groups: [] };
+  }
+
+  // Attested data may be already resolved by keyName or a raw response
+  const fields: Record<string, unknown> = extractAttestedFields(attestation);
+  try {
+    const payload = JSON.parse(attestation.data);
+    if (payload !== null && typeof payload === 'object') {
+      for (const [key, value] of Object.entries(payload as Record<string, unknown>)) {
+        if (!(key in fields)) fields[key] = value;
+      }
+    }
+  } catch {
+    // Unparseable data leaves only the resolved fields
+  }
+
+  const groups: ConditionGroupResult[] = conditions.map(group => {
+    const checks = group.map(condition => evaluateCondition(condition, fields, options));
+    return { passed: checks.every(check => check.passed), checks };
+  });
+
+  const matchedGroup = groups.findIndex(group => group.passed);
+  if (matchedGroup === -1) {
+    const reasons = groups
+      .flatMap(group => group.checks)
+      .filter(check => !check.passed && check.reason)
+      .map(check => check.reason);
+    return {
+      satisfied: false,
+      conditions,
+      groups,
+      error: reasons.length > 0 ? reasons.join('; ') : 'No condition group is satisfied',
+    };
+  }
+
+  return { satisfied: true, conditions, groups, matchedGroup };
+}
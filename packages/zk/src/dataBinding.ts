@@ -0,0 +1,230 @@
+/**
+ * OracleLens zkTLS Module - Data Binding
+ *
+ * A valid attestation only proves *some* response came from a server.
+ * Data binding checks that the attested fields (responseResolve parsePaths)
+ * actually match the values being scored, so a proof of the ETH price
+ * cannot vouch for a BTC price.
+ */
+
+import {
+  AttestationResult,
+  ConditionCheck,
+  DataBindingOptions,
+  DataBindingResult,
+  FieldBinding,
+} from './types';
+
+// ============================================
+// JSONPath Evaluation
+// ============================================
+
+/**
+ * Split a JSONPath-style expression into keys.
+ * Supports `$`, `.key`, `['key']`, `["key"]` and `[index]`.
+ */
+function parsePathSegments(path: string): Array<string | number> | null {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) return null;
+
+  const segments: Array<string | number> = [];
+  const pattern = /\.([A-Za-z0-9_$-]+)|\[\s*(\d+)\s*\]|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\]/g;
+  let cursor = 1;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(trimmed)) !== null) {
+    if (match.index !== cursor) return null; // Unsupported syntax in between
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[3] ?? match[4]);
+    cursor = match.index + match[0].length;
+  }
+
+  return cursor === trimmed.length ? segments : null;
+}
+
+/**
+ * Evaluate a JSONPath-style parsePath against a payload.
+ * Returns undefined when the path is unsupported or does not resolve.
+ */
+export function evaluateParsePath(payload: unknown, path: string): unknown {
+  const segments = parsePathSegments(path);
+  if (!segments) return undefined;
+
+  let current: unknown = payload;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+
+  return current;
+}
+
+// ============================================
+// Attested Field Extraction
+// ============================================
+
+/**
+ * Resolve every responseResolve entry against the attested data.
+ * Primus usually attests already-resolved `{ keyName: value }` data, while raw
+ * responses need the parsePath applied - both forms are accepted.
+ */
+export function extractAttestedFields(
+  attestation: AttestationResult
+): Record<string, unknown> {
+  const items = attestation.reponseResolve ?? attestation.responseResolve ?? [];
+  const fields: Record<string, unknown> = {};
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(attestation.data);
+  } catch {
+    return fields;
+  }
+
+  for (const item of items) {
+    let value = evaluateParsePath(payload, item.parsePath);
+    if (value === undefined && payload !== null && typeof payload === 'object') {
+      value = (payload as Record<string, unknown>)[item.keyName];
+    }
+    if (value !== undefined) {
+      fields[item.keyName] = value;
+    }
+  }
+
+  return fields;
+}
+
+// ============================================
+// Value Comparison
+// ============================================
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function compareValues(
+  attested: unknown,
+  claimed: unknown,
+  tolerancePercent: number
+): { matched: boolean; deviationPercent?: number } {
+  const attestedNum = toNumber(attested);
+  const claimedNum = toNumber(claimed);
+
+  if (attestedNum !== null && claimedNum !== null) {
+    if (attestedNum === claimedNum) return { matched: true, deviationPercent: 0 };
+    const base = Math.abs(attestedNum) || Math.abs(claimedNum);
+    const deviationPercent = Math.abs(claimedNum - attestedNum) / base * 100;
+    return { matched: deviationPercent <= tolerancePercent, deviationPercent };
+  }
+
+  if (typeof attested === 'object' || typeof claimed === 'object') {
+    return { matched: JSON.stringify(attested) === JSON.stringify(claimed) };
+  }
+
+  return { matched: String(attested) === String(claimed) };
+}
+
+// ============================================
+// Data Binding
+// ============================================
+
+/**
+ * Checks of the satisfied condition group on an attested field. Threshold
+ * and SHA256 fields attest an outcome or a hash, not the value itself, so
+ * they bind through these checks rather than by comparing values.
+ */
+function conditionChecksFor(keyName: string, options: DataBindingOptions): ConditionCheck[] {
+  const conditions = options.conditions;
+  if (!conditions?.satisfied || conditions.matchedGroup === undefined) return [];
+  return conditions.groups[conditions.matchedGroup].checks.filter(check => check.condition.field === keyName);
+}
+
+/**
+ * Check that the attested fields match the claimed data value.
+ * The binding holds only if at least one attested field is claimed
+ * and every claimed field agrees within tolerance. With evaluated
+ * conditions, a field covered by the satisfied group binds if the claimed
+ * value agrees with each check (see evaluateCondition).
+ */
+export function bindAttestedData(
+  attestation: AttestationResult,
+  claimed: Record<string, unknown>,
+  options: DataBindingOptions = {}
+): DataBindingResult {
+  const tolerancePercent = options.tolerancePercent ?? 0.1;
+  const fieldMap = options.fieldMap ?? {};
+  const items = attestation.reponseResolve ?? attestation.responseResolve ?? [];
+
+  if (items.length === 0) {
+    return { bound: false, fields: [], matchedCount: 0, reason: 'Attestation resolves no response fields' };
+  }
+
+  const attested = extractAttestedFields(attestation);
+  const fields: FieldBinding[] = items.map(item => {
+    const claimedKey = fieldMap[item.keyName] ?? item.keyName;
+    const attestedValue = attested[item.keyName];
+    const claimedValue = evaluateParsePath(claimed, `$.${claimedKey}`) ?? claimed[claimedKey];
+
+    const base = { keyName: item.keyName, parsePath: item.parsePath, claimedKey, attestedValue, claimedValue };
+
+    if (attestedValue === undefined) {
+      return { ...base, compared: false, matched: false, reason: `parsePath ${item.parsePath} did not resolve in attested data` };
+    }
+    if (claimedValue === undefined) {
+      return { ...base, compared: false, matched: false, reason: `Claimed data has no "${claimedKey}" field` };
+    }
+
+    const checks = conditionChecksFor(item.keyName, options);
+    if (checks.length > 0 && checks.every(check => check.revealedMatches !== undefined)) {
+      const matched = checks.every(check => check.revealedMatches);
+      return {
+        ...base,
+        compared: true,
+        matched,
+        coveredByCondition: true,
+        reason: matched ? undefined : checks.find(check => !check.revealedMatches)?.reason,
+      };
+    }
+
+    const { matched, deviationPercent } = compareValues(attestedValue, claimedValue, tolerancePercent);
+    return {
+      ...base,
+      compared: true,
+      matched,
+      deviationPercent,
+      reason: matched
+        ? undefined
+        : `Claimed ${claimedKey}=${JSON.stringify(claimedValue)} does not match attested ${JSON.stringify(attestedValue)}`,
+    };
+  });
+
+  const compared = fields.filter(field => field.compared);
+  const mismatched = compared.filter(field => !field.matched);
+  const matchedCount = compared.length - mismatched.length;
+
+  if (compared.length === 0) {
+    return {
+      bound: false,
+      fields,
+      matchedCount,
+      reason: 'None of the attested fields appear in the claimed data',
+    };
+  }
+
+  if (mismatched.length > 0) {
+    return {
+      bound: false,
+      fields,
+      matchedCount,
+      reason: mismatched.map(field => field.reason).join('; '),
+    };
+  }
+
+  return { bound: true, fields, matchedCount };
+}
@@ -15,8 +15,27 @@ import {
   verifyProofHash,
   createProofSummary,
   generateProofHash,
+  verifyAttestationSignatures,
+  bindAttestedData,
+  evaluateParsePath,
+  parseAttConditions,
+  hashFieldValue,
+  evaluateAttConditions,
+  InMemoryProofLedger,
+  createLedgerEntry,
+  checkProofReplay,
+  hashBoundData,
+  exportBundle,
+  verifyBundle,
+  computeProofHash,
+  isProofHash,
+  PROOF_HASH_TYPEHASH,
+  MOCK_ATTESTOR_ADDRESS,
+  PRIMUS_ATTESTOR_ADDRESSES,
   VERIFICATION_TEMPLATES,
+  type ProofBundle,
 } from './index';
+import { calculateCredibilityScore, getFormulaById, type Formula } from '@oraclelens/scoring';
 
 // ============================================
 // Test Helpers
@@ -96,6 +115,17 @@ async function testOracleDataVerification() {
   assert(result.oracleName === 'Chainlink', 'Should preserve oracle name');
   assert(result.dataType === 'price_feed', 'Should preserve data type');
   assert(result.originalData.asset === 'ETH/USD', 'Should preserve original data');
+  assert(result.dataBinding?.bound === true, 'Attested price should bind to the claimed price');
+  assert(result.conditions?.satisfied === true, 'Attested conditions should hold');
+  assert(result.domainCheck?.status === 'trusted', 'Attested host should match the declared trusted source');
+
+  const mismatched = await verifyOracleDataSource({
+    sourceUrl: 'https://data.chain.link/ethereum/mainnet/crypto-usd/eth-usd',
+    oracleName: 'Chainlink',
+    dataType: 'price_feed',
+    dataValue: { asset: 'ETH/USD', price: 2500.42 },
+  });
+  assert(mismatched.domainCheck?.status === 'mismatch', 'Proof of another host should be a domain mismatch');
 
   console.log('\nOracle Verification Result:');
   console.log(`  Oracle: ${result.oracleName}`);
@@ -182,6 +212,390 @@ async function testStepByStepVerification() {
   console.log(`  Proof Hash: ${proofHash}`);
 }
 
+// ============================================
+// Test: Offline Signature Verification
+// ============================================
+
+async function testOfflineSignatureVerification() {
+  console.log('\n=== Offline Signature Verification Tests ===\n');
+
+  const client = createZkTlsClient();
+  await client.init();
+
+  const userAddress = '0x' + '4'.repeat(40);
+  const signedRequest = await client.createAttestationRequest(userAddress);
+  const attestation = await client.executeAttestation(signedRequest);
+
+  // Trusted mock attestor
+  const trusted = verifyAttestationSignatures(attestation, {
+    trustedAttestors: [MOCK_ATTESTOR_ADDRESS],
+  });
+  assert(trusted.valid, 'Mock attestation should verify against the mock attestor');
+  assert(
+    trusted.signatures[0].recoveredAddress === MOCK_ATTESTOR_ADDRESS,
+    'Should recover the mock attestor address'
+  );
+  assert(trusted.signatures[0].listedAttestor, 'Signer should be listed in attestors');
+
+  // Untrusted signer (default trusted set is Primus production)
+  const untrusted = verifyAttestationSignatures(attestation);
+  assert(!untrusted.valid, 'Mock attestor should not pass the Primus production allowlist');
+  assert(
+    untrusted.signatures[0].error !== undefined,
+    'Untrusted signature should carry an error'
+  );
+  console.log(`  Primus production attestor: ${PRIMUS_ATTESTOR_ADDRESSES.production}`);
+
+  // Tampered data no longer recovers to the attestor
+  const tampered = { ...attestation, data: JSON.stringify({ ethereum: { usd: 9999 } }) };
+  const tamperedResult = verifyAttestationSignatures(tampered, {
+    trustedAttestors: [MOCK_ATTESTOR_ADDRESS],
+  });
+  assert(!tamperedResult.valid, 'Tampered attestation should fail verification');
+}
+
+// ============================================
+// Test: Data Binding
+// ============================================
+
+async function testDataBinding() {
+  console.log('\n=== Data Binding Tests ===\n');
+
+  assert(
+    evaluateParsePath({ data: [{ px: '1.5' }] }, "$.data[0]['px']") === '1.5',
+    'parsePath should resolve dot, index and bracket segments'
+  );
+  assert(evaluateParsePath({ a: 1 }, '$.b.c') === undefined, 'Missing path should be undefined');
+
+  const client = createZkTlsClient();
+  await client.init();
+  const signedRequest = await client.createAttestationRequest('0x' + '5'.repeat(40));
+  const attestation = await client.executeAttestation(signedRequest);
+
+  // Mock attests $.ethereum.usd = 2500.42 under keyName "price"
+  const bound = bindAttestedData(attestation, { asset: 'ETH/USD', price: 2500.42 });
+  assert(bound.bound, 'Matching price should bind to the attestation');
+  assert(bound.matchedCount === 1, 'One field should match');
+
+  const withinTolerance = bindAttestedData(attestation, { price: 2501 }, { tolerancePercent: 0.1 });
+  assert(withinTolerance.bound, 'Price within 0.1% should still bind');
+
+  const otherAsset = bindAttestedData(attestation, { asset: 'BTC/USD', price: 67000 });
+  assert(!otherAsset.bound, 'A different price must not bind');
+  assert(otherAsset.reason !== undefined, 'Mismatch should explain why');
+
+  const unrelated = bindAttestedData(attestation, { temperature: 42 });
+  assert(!unrelated.bound, 'Data without attested fields must not bind');
+
+  const mapped = bindAttestedData(attestation, { usd: 2500.42 }, { fieldMap: { price: 'usd' } });
+  assert(mapped.bound, 'fieldMap should map attested keys onto claimed fields');
+}
+
+// ============================================
+// Test: Attestation Conditions
+// ============================================
+
+async function testAttestationConditions() {
+  console.log('\n=== Attestation Condition Tests ===\n');
+
+  const flat = parseAttConditions('[{"field":"price","op":">","value":"2000"}]');
+  assert(flat?.length === 1 && flat[0].length === 1, 'Flat condition list should parse as one AND group');
+  assert(parseAttConditions('')?.length === 0, 'Empty attConditions should parse to no groups');
+  assert(parseAttConditions('[{"field":"price","op":"~"}]') === null, 'Unknown op should be rejected');
+
+  const client = createZkTlsClient();
+  await client.init();
+  const signedRequest = await client.createAttestationRequest('0x' + '6'.repeat(40));
+  const attestation = await client.executeAttestation(signedRequest);
+
+  const mockConditions = evaluateAttConditions(attestation);
+  assert(mockConditions.satisfied, 'Mock attestation should satisfy its own conditions');
+
+  // Threshold proof: "price > 2000" OR "price < 100"
+  const threshold = evaluateAttConditions({
+    ...attestation,
+    attConditions: JSON.stringify([
+      [{ field: 'price', op: '>', value: '3000' }],
+      [{ field: 'price', op: '>', value: '2000' }, { field: 'price', op: '<=', value: 2600 }],
+    ]),
+  });
+  assert(threshold.satisfied, 'Second AND group should satisfy the OR');
+  assert(threshold.matchedGroup === 1, 'Matched group should be reported');
+
+  const failing = evaluateAttConditions({
+    ...attestation,
+    attConditions: JSON.stringify([[{ field: 'price', op: '>', value: 3000 }]]),
+  });
+  assert(!failing.satisfied, 'price > 3000 should not hold');
+  assert(failing.error !== undefined, 'Failure should explain why');
+
+  // Outcome-only attestation: the raw price is never revealed
+  const hidden = evaluateAttConditions({
+    ...attestation,
+    data: JSON.stringify({ price: 'true' }),
+    attConditions: JSON.stringify([[{ field: 'price', op: '>', value: '2000' }]]),
+  });
+  assert(hidden.satisfied, 'Attestor-computed outcome should be accepted');
+
+  // Hashed field: attested hash checked against a revealed value
+  const hashed = {
+    ...attestation,
+    data: JSON.stringify({ price: hashFieldValue('2500.42') }),
+    attConditions: JSON.stringify([[{ field: 'price', op: 'SHA256' }]]),
+  };
+  assert(evaluateAttConditions(hashed).satisfied, 'Hash commitment alone should satisfy SHA256');
+  assert(
+    evaluateAttConditions(hashed, { revealedValues: { price: '2500.42' } }).satisfied,
+    'Revealed value should match the attested hash'
+  );
+  const wrongReveal = evaluateAttConditions(hashed, { revealedValues: { price: '67000' } });
+  assert(!wrongReveal.satisfied, 'Wrong revealed value should fail the hash check');
+  assert(wrongReveal.groups[0].checks[0].revealedMatches === false, 'Hash mismatch should be reported');
+
+  // Threshold and hashed fields bind through their satisfied condition, not by value
+  const hiddenAttestation = {
+    ...attestation,
+    data: JSON.stringify({ price: 'true' }),
+    attConditions: JSON.stringify([[{ field: 'price', op: '>', value: '2000' }]]),
+  };
+  const thresholdClaim = { price: 2500 };
+  const thresholdConditions = evaluateAttConditions(hiddenAttestation, { revealedValues: thresholdClaim });
+  const thresholdBinding = bindAttestedData(hiddenAttestation, thresholdClaim, { conditions: thresholdConditions });
+  assert(thresholdBinding.bound, 'Claimed price above the attested threshold should bind');
+  assert(thresholdBinding.fields.find(field => field.keyName === 'price')?.coveredByCondition === true, 'Threshold field should bind through its condition');
+  const belowClaim = { price: 1500 };
+  const belowConditions = evaluateAttConditions(hiddenAttestation, { revealedValues: belowClaim });
+  assert(!belowConditions.satisfied, 'Claimed price below the attested threshold should fail the condition');
+  assert(!bindAttestedData(hiddenAttestation, belowClaim, { conditions: belowConditions }).bound, 'Claimed price below the threshold should not bind');
+
+  const hashedClaim = { price: '2500.42' };
+  const hashedConditions = evaluateAttConditions(hashed, { revealedValues: hashedClaim });
+  const hashedBinding = bindAttestedData(hashed, hashedClaim, { conditions: hashedConditions });
+  assert(hashedBinding.bound, 'Revealed value matching the committed hash should bind');
+  assert(!bindAttestedData(hashed, hashedClaim).bound, 'Without conditions a hashed field is compared by value');
+  const wrongHashedClaim = { price: '67000' };
+  assert(
+    !bindAttestedData(hashed, wrongHashedClaim, { conditions: evaluateAttConditions(hashed, { revealedValues: wrongHashedClaim }) }).bound,
+    'Revealed value not matching the committed hash should not bind'
+  );
+}
+
+// ============================================
+// Test: Replay Protection
+// ============================================
+
+async function testReplayProtection() {
+  console.log('\n=== Replay Protection Tests ===\n');
+
+  assert(
+    hashBoundData({ a: 1, b: { c: 2, d: 3 } }) === hashBoundData({ b: { d: 3, c: 2 }, a: 1 }),
+    'Bound data hash should not depend on key order'
+  );
+
+  const client = createZkTlsClient();
+  await client.init();
+  const signedRequest = await client.createAttestationRequest('0x' + '7'.repeat(40));
+  const attestation = await client.executeAttestation(signedRequest);
+  const proofHash = generateProofHash(attestation);
+  const ledger = new InMemoryProofLedger();
+
+  const ethData = { asset: 'ETH/USD', price: 2500.42 };
+  const first = createLedgerEntry(proofHash, 'req_1', attestation, ethData);
+  const firstCheck = await checkProofReplay(ledger, first, attestation);
+  assert(firstCheck.accepted && firstCheck.status === 'new', 'First use of a proof should be accepted');
+  assert((await ledger.find(proofHash))?.requestId === 'req_1', 'Accepted proof should be claimed by its evaluation');
+
+  const sameEvaluation = await checkProofReplay(ledger, first, attestation);
+  assert(sameEvaluation.status === 'new', 'Re-checking the same evaluation is not a replay');
+
+  const duplicate = await checkProofReplay(ledger, createLedgerEntry(proofHash, 'req_2', attestation, ethData), attestation);
+  assert(duplicate.accepted && duplicate.status === 'duplicate', 'Reuse for the same data should be flagged');
+  assert(duplicate.existing?.requestId === 'req_1', 'Flag should point at the earlier evaluation');
+
+  const strict = await checkProofReplay(
+    ledger,
+    createLedgerEntry(proofHash, 'req_2', attestation, ethData),
+    attestation,
+    { rejectDuplicates: true }
+  );
+  assert(!strict.accepted, 'rejectDuplicates should refuse reuse for the same data');
+
+  const replayed = await checkProofReplay(
+    ledger,
+    createLedgerEntry(proofHash, 'req_3', attestation, { asset: 'BTC/USD', price: 67000 }),
+    attestation
+  );
+  assert(!replayed.accepted && replayed.status === 'replayed', 'Reuse for different data should be rejected');
+
+  const old = { ...attestation, timestamp: Date.now() - 3600 * 1000 };
+  const stale = await checkProofReplay(ledger, createLedgerEntry('0xstale', 'req_4', old, ethData), old);
+  assert(!stale.accepted && stale.status === 'stale', 'Attestation older than max age should be rejected');
+  assert(ledger.size() === 1, 'Only recorded proofs should be in the ledger');
+
+  // Concurrent submissions of one proof: exactly one claims it
+  const raceLedger = new InMemoryProofLedger();
+  const [raceA, raceB] = await Promise.all([
+    checkProofReplay(raceLedger, createLedgerEntry(proofHash, 'req_a', attestation, ethData), attestation),
+    checkProofReplay(raceLedger, createLedgerEntry(proofHash, 'req_b', attestation, { asset: 'BTC/USD', price: 67000 }), attestation),
+  ]);
+  assert([raceA, raceB].filter(check => check.status === 'new').length === 1, 'Only one concurrent submission should claim a proof');
+  assert(!raceB.accepted && raceB.status === 'replayed', 'The later concurrent submission is the replay');
+}
+
+// ============================================
+// Test: Proof Bundles
+// ============================================
+
+async function testProofBundles() {
+  console.log('\n=== Proof Bundle Tests ===\n');
+
+  const client = createZkTlsClient();
+  await client.init();
+  const signedRequest = await client.createAttestationRequest('0x' + '8'.repeat(40));
+  const attestation = await client.executeAttestation(signedRequest);
+
+  const formula = getFormulaById('price_feed_v1')!;
+  const baseScores = { source: 0.95, time: 0.9, accuracy: 1, proof: 1 };
+  const scored = calculateCredibilityScore(baseScores, formula);
+
+  const bundle = exportBundle({
+    request: { oracleName: 'Chainlink', dataType: 'price_feed', dataValue: { asset: 'ETH/USD', price: 2500.42 } },
+    response: {
+      requestId: 'req_bundle',
+      score: scored.finalScore,
+      trustLevel: scored.trustLevel,
+      breakdown: scored.breakdown,
+      formulaId: formula.id,
+      zkVerified: true,
+      proofHash: generateProofHash(attestation),
+      timestamp: Date.now(),
+    },
+    baseScores,
+    formula,
+    attestation,
+    onChain: { txHash: '0x' + 'a'.repeat(64), blockNumber: 123 },
+  });
+  assert(bundle.manifestHash.startsWith('0x'), 'Bundle should carry a manifest hash');
+
+  // Bundles travel as JSON files
+  const parsed = JSON.parse(JSON.stringify(bundle));
+  const verified = verifyBundle(parsed, { trustedAttestors: [MOCK_ATTESTOR_ADDRESS] });
+  assert(verified.valid, 'Exported bundle should verify after a JSON round-trip');
+  assert(verified.recomputed.score === scored.finalScore, 'Re-scoring should reproduce the score');
+
+  const tamperedScore = verifyBundle({ ...parsed, response: { ...parsed.response, score: 99 } }, {
+    trustedAttestors: [MOCK_ATTESTOR_ADDRESS],
+  });
+  assert(!tamperedScore.valid, 'Edited score should fail verification');
+  assert(
+    tamperedScore.checks.some(check => check.name === 'manifest' && !check.passed),
+    'Edited content should break the manifest hash'
+  );
+
+  const resealed = exportBundle({ ...parsed, response: { ...parsed.response, score: 99 } });
+  const rescored = verifyBundle(resealed, { trustedAttestors: [MOCK_ATTESTOR_ADDRESS] });
+  assert(
+    rescored.checks.some(check => check.name === 'score' && !check.passed),
+    'Resealed bundle with a wrong score should fail re-scoring'
+  );
+
+  const swapped = exportBundle({ ...parsed, response: { ...parsed.response, proofHash: '0x' + '0'.repeat(64) } });
+  assert(
+    verifyBundle(swapped, { trustedAttestors: [MOCK_ATTESTOR_ADDRESS] }).checks
+      .some(check => check.name === 'proofHash' && !check.passed),
+    'Proof hash must match the bundled attestation'
+  );
+
+  const mockOnly = exportBundle({ ...parsed, response: { ...parsed.response, zkVerified: false }, attestation: null });
+  assert(verifyBundle(mockOnly).valid, 'Bundle without attestation should skip proof checks');
+
+  const unproven = verifyBundle(exportBundle({ ...parsed, attestation: null }));
+  assert(
+    !unproven.valid && unproven.checks.some(check => check.name === 'signatures' && !check.passed),
+    'A verified proof without its attestation should fail verification'
+  );
+
+  const recorded = { score: scored.finalScore, trustLevel: scored.trustLevel, proofHash: generateProofHash(attestation) };
+  assert(verifyBundle(parsed, { trustedAttestors: [MOCK_ATTESTOR_ADDRESS], recorded }).valid, 'Bundle matching the stored result should verify');
+  assert(
+    !verifyBundle(rescoredFabrication(parsed, formula), { trustedAttestors: [MOCK_ATTESTOR_ADDRESS], recorded }).valid,
+    'Consistent but fabricated bundle should fail against the stored result'
+  );
+  assert(!verifyBundle(parsed, { trustedAttestors: [MOCK_ATTESTOR_ADDRESS], recorded: null }).valid, 'Bundle of an unknown evaluation should fail');
+}
+
+/**
+ * A self-consistent bundle with better base scores than were evaluated.
+ */
+function rescoredFabrication(bundle: ProofBundle, formula: Formula): ProofBundle {
+  const baseScores = { source: 1, time: 1, accuracy: 1, proof: 1 };
+  const scored = calculateCredibilityScore(baseScores, formula);
+  return exportBundle({
+    ...bundle,
+    baseScores,
+    response: { ...bundle.response, score: scored.finalScore, trustLevel: scored.trustLevel, breakdown: scored.breakdown },
+  });
+}
+
+// ============================================
+// Test: Canonical Proof Hash (golden vectors)
+// ============================================
+
+const PROOF_HASH_VECTORS = [
+  {
+    name: 'empty attestation',
+    input: { recipient: '0x0000000000000000000000000000000000000000', data: '', timestamp: 0, signatures: [] },
+    expected: '0x9ab5aa2fe2f58dd96c91b46247166c382f2e38345e7d984708814f86df54fcce',
+  },
+  {
+    name: 'price attestation',
+    input: {
+      recipient: '0x7ab2ec45b8a6fd03b3e1c9ad2a57afbeb9c7b8e1',
+      data: '{"ethereum":{"usd":2500.42}}',
+      timestamp: 1706700000000,
+      signatures: ['0x' + '11'.repeat(65)],
+    },
+    expected: '0x641cbac0999f49e04d2af1b152982963a7d3e4ad59bcbc9d9b871af4f0d6166d',
+  },
+];
+
+function testCanonicalProofHash() {
+  console.log('\n=== Canonical Proof Hash Tests ===\n');
+
+  assert(
+    PROOF_HASH_TYPEHASH === '0xa981a6b83bfa6b40bb8ca41d0db9bb40d73d798de4d8f4fbc916958bb490c21a',
+    'Type hash should match keccak256 of the OracleLensProof signature'
+  );
+
+  for (const vector of PROOF_HASH_VECTORS) {
+    assert(computeProofHash(vector.input) === vector.expected, `Golden vector: ${vector.name}`);
+  }
+
+  const [, price] = PROOF_HASH_VECTORS;
+  assert(isProofHash(price.expected), 'Proof hash should be bytes32');
+  assert(
+    computeProofHash({ ...price.input, recipient: price.input.recipient.toUpperCase().replace('0X', '0x') })
+      === price.expected,
+    'Address casing should not change the hash'
+  );
+  assert(
+    computeProofHash({ ...price.input, data: '{"ethereum": {"usd": 2500.42}}' }) !== price.expected,
+    'Attested data is hashed byte-for-byte'
+  );
+  assert(
+    computeProofHash({ ...price.input, timestamp: price.input.timestamp + 1 }) !== price.expected,
+    'Timestamp should be covered by the hash'
+  );
+
+  let threw = false;
+  try {
+    computeProofHash({ ...price.input, recipient: 'not-an-address' });
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'Malformed recipient should be rejected, not hashed');
+}
+
 // ============================================
 // Test: Verification Templates Info
 // ============================================
@@ -227,6 +641,12 @@ async function runAllTests() {
     await testOracleDataVerification();
     await testAttestationUtilities();
     await testStepByStepVerification();
+    await testOfflineSignatureVerification();
+    await testDataBinding();
+    await testAttestationConditions();
+    await testReplayProtection();
+    await testProofBundles();
+    testCanonicalProofHash();
     testVerificationTemplates();
     testEnvVarHandling();
 
@@ -12,7 +12,7 @@
  */
 
 // Types
-export {
+export type {
   PrimusConfig,
   PrimusInitOptions,
   AttestationCondition,
@@ -22,6 +22,29 @@ export {
   AttestorInfo,
   ResponseResolveItem,
   ZkVerificationResult,
+  SignatureVerificationOptions,
+  SignatureCheck,
+  SignatureVerificationResult,
+  DataBindingOptions,
+  FieldBinding,
+  DataBindingResult,
+  ConditionEvaluationOptions,
+  ConditionCheck,
+  ConditionGroupResult,
+  ConditionEvaluationResult,
+  ProofLedgerEntry,
+  ProofLedger,
+  ReplayCheckOptions,
+  ReplayStatus,
+  ReplayCheckResult,
+  BundleEvaluationRequest,
+  BundleEvaluationResponse,
+  BundleOnChainReference,
+  ProofBundle,
+  ProofBundleInput,
+  BundleVerificationOptions,
+  BundleCheck,
+  BundleVerificationResult,
   MockAttestationData,
   IZkTlsClient,
 } from './types';
@@ -32,8 +55,57 @@ export {
   MockZkTlsClient,
   createZkTlsClient,
   generateProofHash,
+  MOCK_ATTESTOR_ADDRESS,
 } from './primusClient';
 
+// Canonical proof hash
+export {
+  PROOF_HASH_TYPEHASH,
+  encodeProofHashInput,
+  computeProofHash,
+  isProofHash,
+  type ProofHashInput,
+} from './proofHash';
+
+// Offline signature verification
+export {
+  encodeAttestation,
+  recoverAttestationSigner,
+  verifyAttestationSignatures,
+  PRIMUS_ATTESTOR_ADDRESSES,
+} from './verifySignatures';
+
+// Data binding
+export {
+  evaluateParsePath,
+  extractAttestedFields,
+  bindAttestedData,
+} from './dataBinding';
+
+// Attestation conditions
+export {
+  parseAttConditions,
+  hashFieldValue,
+  evaluateCondition,
+  evaluateAttConditions,
+} from './conditions';
+
+// Replay protection
+export {
+  InMemoryProofLedger,
+  hashBoundData,
+  createLedgerEntry,
+  checkProofReplay,
+} from './proofLedger';
+
+// Proof bundles
+export {
+  PROOF_BUNDLE_VERSION,
+  computeManifestHash,
+  exportBundle,
+  verifyBundle,
+} from './bundle';
+
 // Verification
 export {
   verifyOracleDataSource,
@@ -14,7 +14,9 @@ import {
   ZkVerificationResult,
   IZkTlsClient,
 } from './types';
-import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { encodeAttestation, verifyAttestationSignatures } from './verifySignatures';
+import { computeProofHash } from './proofHash';
 
 // ============================================
 // Real Primus SDK Client
@@ -169,6 +171,14 @@ export class PrimusZkTlsClient implements IZkTlsClient {
 // Mock Client for Demos
 // ============================================
 
+// Deterministic demo key - signs mock attestations only, never real data
+const MOCK_ATTESTOR_WALLET = new ethers.Wallet(ethers.id('oraclelens-mock-attestor'));
+
+/**
+ * Signer address of mock attestations (trust it only in demos and tests).
+ */
+export const MOCK_ATTESTOR_ADDRESS = MOCK_ATTESTOR_WALLET.address;
+
 /**
  * Mock implementation for demos and testing.
  * Simulates zkTLS verification without real credentials.
@@ -229,36 +239,35 @@ export class MockZkTlsClient implements IZkTlsClient {
         },
       ],
       data: JSON.stringify({ ethereum: { usd: 2500.42 } }),
-      attConditions: JSON.stringify([{ field: 'price', op: 'SHA256' }]),
+      attConditions: JSON.stringify([[{ field: 'price', op: '>', value: '0' }]]),
       timestamp: Date.now(),
       additionParams: JSON.stringify({ sdk: 'mock', version: '1.0.0' }),
       attestors: [
         {
-          attestorAddr: '0x' + 'a'.repeat(40),
+          attestorAddr: MOCK_ATTESTOR_ADDRESS,
           url: 'https://primuslabs.org',
         },
       ],
-      signatures: [
-        '0x' + createHash('sha256')
-          .update(request.userAddress + Date.now())
-          .digest('hex'),
-      ],
+      signatures: [],
     };
 
+    // Sign like a real attestor so the offline verifier can check it
+    mockAttestation.signatures.push(
+      MOCK_ATTESTOR_WALLET.signingKey.sign(encodeAttestation(mockAttestation)).serialized
+    );
+
     return mockAttestation;
   }
 
   async verifyAttestation(attestation: AttestationResult): Promise<boolean> {
     await this.delay(this.simulatedDelay / 2);
 
-    // Mock verification - check basic structure
-    const hasValidStructure = Boolean(
-      attestation.recipient &&
-      attestation.signatures?.length > 0 &&
-      attestation.attestors?.length > 0
-    );
+    // Mock verification - signatures must come from the mock attestor
+    const result = verifyAttestationSignatures(attestation, {
+      trustedAttestors: [MOCK_ATTESTOR_ADDRESS],
+    });
 
-    return hasValidStructure;
+    return result.valid;
   }
 
   async fullVerification(
@@ -334,17 +343,11 @@ export function createZkTlsClient(config?: Partial<PrimusConfig>): IZkTlsClient
 // ============================================
 
 /**
- * Generate a proof hash from attestation data.
+ * Generate the canonical proof hash (keccak256 over ABI-encoded fields, see proofHash.ts).
+ * Throws if the attestation fields cannot be ABI-encoded.
  */
 export function generateProofHash(attestation: AttestationResult): string {
-  const dataToHash = JSON.stringify({
-    recipient: attestation.recipient,
-    data: attestation.data,
-    timestamp: attestation.timestamp,
-    signatures: attestation.signatures,
-  });
-
-  return '0x' + createHash('sha256').update(dataToHash).digest('hex');
+  return computeProofHash(attestation);
 }
 
 /**
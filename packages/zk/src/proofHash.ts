@@ -0,0 +1,56 @@
+/**
+ * OracleLens zkTLS Module - Canonical Proof Hash
+ *
+ * One encoding for the proof hash, shared by the Node package, the browser
+ * hook and the on-chain submission. Fields are ABI-encoded and hashed with
+ * keccak256, so a contract can recompute the same bytes32:
+ *
+ *   keccak256(abi.encode(
+ *     PROOF_HASH_TYPEHASH, recipient, data, timestamp, signatures
+ *   ))
+ *
+ * Only depends on ethers - safe to import from the browser
+ * (`@oraclelens/zk/src/proofHash`).
+ */
+
+import { ethers } from 'ethers';
+import type { AttestationResult } from './types';
+
+export type ProofHashInput = Pick<AttestationResult, 'recipient' | 'data' | 'timestamp' | 'signatures'>;
+
+/**
+ * Type hash identifying the encoding version.
+ */
+export const PROOF_HASH_TYPEHASH = ethers.id(
+  'OracleLensProof(address recipient,string data,uint64 timestamp,bytes[] signatures)'
+);
+
+const PROOF_HASH_TYPES = ['bytes32', 'address', 'string', 'uint64', 'bytes[]'];
+
+/**
+ * ABI-encode the attestation fields covered by the proof hash.
+ * Throws if the recipient is not an address or a signature is not hex.
+ */
+export function encodeProofHashInput(attestation: ProofHashInput): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(PROOF_HASH_TYPES, [
+    PROOF_HASH_TYPEHASH,
+    attestation.recipient,
+    attestation.data,
+    attestation.timestamp,
+    attestation.signatures ?? [],
+  ]);
+}
+
+/**
+ * Canonical proof hash (bytes32 hex) of an attestation.
+ */
+export function computeProofHash(attestation: ProofHashInput): string {
+  return ethers.keccak256(encodeProofHashInput(attestation));
+}
+
+/**
+ * Check that a value is a bytes32 hex string.
+ */
+export function isProofHash(value: string): boolean {
+  return ethers.isHexString(value, 32);
+}
@@ -0,0 +1,135 @@
+/**
+ * OracleLens zkTLS Module - Proof Ledger
+ *
+ * Replay protection for submitted proofs. Every accepted proof hash is claimed
+ * by the evaluation it backed, so the same attestation cannot vouch for
+ * different oracle data in another evaluation. Stale attestations are refused.
+ */
+
+import { createHash } from 'crypto';
+import {
+  AttestationResult,
+  ProofLedger,
+  ProofLedgerEntry,
+  ReplayCheckOptions,
+  ReplayCheckResult,
+} from './types';
+import { getAttestationAge, isAttestationFresh } from './verifyTlsData';
+import { canonicalStringify } from './canonicalJson';
+
+// ============================================
+// Bound Data Hash
+// ============================================
+
+/**
+ * Hash of the data a proof was bound to (key order independent).
+ */
+export function hashBoundData(data: Record<string, unknown>): string {
+  const serialized = canonicalStringify(data);
+  return '0x' + createHash('sha256').update(serialized).digest('hex');
+}
+
+// ============================================
+// In-Memory Ledger
+// ============================================
+
+/**
+ * Process-local ledger for demos, tests and single-instance deployments.
+ */
+export class InMemoryProofLedger implements ProofLedger {
+  private entries = new Map<string, ProofLedgerEntry>();
+
+  async find(proofHash: string): Promise<ProofLedgerEntry | null> {
+    return this.entries.get(proofHash.toLowerCase()) ?? null;
+  }
+
+  async claim(entry: ProofLedgerEntry): Promise<ProofLedgerEntry | null> {
+    const key = entry.proofHash.toLowerCase();
+    // First use wins - later evaluations are the replays
+    const existing = this.entries.get(key);
+    if (existing) {
+      return existing;
+    }
+    this.entries.set(key, entry);
+    return null;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
+
+// ============================================
+// Replay Check
+// ============================================
+
+/**
+ * Build the ledger entry for a proof accepted by an evaluation.
+ */
+export function createLedgerEntry(
+  proofHash: string,
+  requestId: string,
+  attestation: AttestationResult,
+  boundData: Record<string, unknown>
+): ProofLedgerEntry {
+  return {
+    proofHash,
+    requestId,
+    recipient: attestation.recipient,
+    attestationTimestamp: attestation.timestamp,
+    dataHash: hashBoundData(boundData),
+    recordedAt: Date.now(),
+  };
+}
+
+/**
+ * Check a proof against the ledger and claim it for the evaluation in one
+ * step, so concurrent submissions of the same proof cannot both be new.
+ * A rejected or duplicate use does not change the ledger.
+ * - stale: attestation older than maxAttestationAgeSeconds (rejected)
+ * - replayed: proof already backed different data (rejected)
+ * - duplicate: proof already backed the same data (flagged, or rejected with rejectDuplicates)
+ * - new: first use of the proof
+ */
+export async function checkProofReplay(
+  ledger: ProofLedger,
+  candidate: ProofLedgerEntry,
+  attestation: AttestationResult,
+  options: ReplayCheckOptions = {}
+): Promise<ReplayCheckResult> {
+  const maxAge = options.maxAttestationAgeSeconds ?? 300;
+  const ageSeconds = getAttestationAge(attestation);
+
+  if (!isAttestationFresh(attestation, maxAge)) {
+    return {
+      accepted: false,
+      status: 'stale',
+      ageSeconds,
+      reason: `Attestation is ${ageSeconds}s old (max ${maxAge}s)`,
+    };
+  }
+
+  const existing = await ledger.claim(candidate);
+  if (!existing || existing.requestId === candidate.requestId) {
+    return { accepted: true, status: 'new', ageSeconds };
+  }
+
+  if (existing.dataHash !== candidate.dataHash) {
+    return {
+      accepted: false,
+      status: 'replayed',
+      ageSeconds,
+      existing,
+      reason: `Proof already backed different data in evaluation ${existing.requestId}`,
+    };
+  }
+
+  const rejectDuplicates = options.rejectDuplicates ?? false;
+  return {
+    accepted: !rejectDuplicates,
+    status: 'duplicate',
+    ageSeconds,
+    existing,
+    reason: `Proof was already used for the same data in evaluation ${existing.requestId}`,
+  };
+}
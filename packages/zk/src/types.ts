@@ -5,6 +5,8 @@
  * Based on official documentation: https://docs.primuslabs.xyz/enterprise/zk-tls-sdk/
  */
 
+import type { BaseScores, DomainCheckResult, Formula, ScoringResult } from '@oraclelens/scoring';
+
 // ============================================
 // Configuration Types
 // ============================================
@@ -69,6 +71,7 @@ export interface AttestationResult {
 
   // Data Verification
   responseResolve: ResponseResolveItem[];
+  reponseResolve?: ResponseResolveItem[]; // Spelling used by the Primus SDK itself
   data: string; // Stringified JSON
   attConditions: string; // Stringified JSON
 
@@ -94,10 +97,211 @@ export interface ZkVerificationResult {
   attestation?: AttestationResult;
   verifiedDomain?: string;
   verifiedEndpoint?: string;
+  domainCheck?: DomainCheckResult; // Attested host vs declared source and domain policy
   timestamp: number;
   error?: string;
 }
 
+// ============================================
+// Signature Verification Types
+// ============================================
+
+export interface SignatureVerificationOptions {
+  trustedAttestors?: string[];      // Allowlisted signer addresses (defaults to Primus production)
+  requireListedAttestor?: boolean;  // Signer must also appear in attestation.attestors (default: true)
+}
+
+export interface SignatureCheck {
+  index: number;
+  signature: string;
+  recoveredAddress: string | null;
+  listedAttestor: boolean;   // Signer appears in attestation.attestors
+  trustedAttestor: boolean;  // Signer is in the trusted attestor set
+  valid: boolean;
+  error?: string;
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;            // At least one signature passed all checks
+  digest: string;            // Message hash the attestors signed
+  signatures: SignatureCheck[];
+  error?: string;
+}
+
+// ============================================
+// Data Binding Types
+// ============================================
+
+export interface DataBindingOptions {
+  tolerancePercent?: number;           // Numeric tolerance, e.g. 0.1 means 0.1% (default: 0.1)
+  fieldMap?: Record<string, string>;   // Attested keyName -> claimed field name
+  conditions?: ConditionEvaluationResult; // Evaluated attConditions; fields they cover bind through them
+}
+
+export interface FieldBinding {
+  keyName: string;
+  parsePath: string;
+  claimedKey: string;
+  attestedValue: unknown;
+  claimedValue: unknown;
+  compared: boolean;         // Both sides had a value to compare
+  matched: boolean;
+  deviationPercent?: number; // Numeric fields only
+  coveredByCondition?: boolean; // Bound by a satisfied condition (threshold outcome or SHA256 commitment)
+  reason?: string;
+}
+
+export interface DataBindingResult {
+  bound: boolean;            // Attested data vouches for the claimed value
+  fields: FieldBinding[];
+  matchedCount: number;
+  reason?: string;
+}
+
+// ============================================
+// Attestation Condition Types
+// ============================================
+
+export interface ConditionEvaluationOptions {
+  revealedValues?: Record<string, unknown>; // Plain values to check hashed fields and threshold outcomes against
+}
+
+export interface ConditionCheck {
+  condition: AttestationCondition;
+  attestedValue: unknown;
+  hashed: boolean;           // SHA256 condition
+  passed: boolean;
+  revealedMatches?: boolean; // Revealed value hashes to the attested hash, or agrees with the attested outcome
+  reason?: string;
+}
+
+export interface ConditionGroupResult {
+  passed: boolean;           // Every condition in the AND group holds
+  checks: ConditionCheck[];
+}
+
+export interface ConditionEvaluationResult {
+  satisfied: boolean;        // At least one group holds (or there are no conditions)
+  conditions: AttestationCondition[][];
+  groups: ConditionGroupResult[];
+  matchedGroup?: number;
+  error?: string;
+}
+
+// ============================================
+// Proof Ledger Types
+// ============================================
+
+export interface ProofLedgerEntry {
+  proofHash: string;
+  requestId: string;             // Evaluation the proof backed
+  recipient: string;             // Attestation recipient
+  attestationTimestamp: number;  // Attestation time (ms)
+  dataHash: string;              // Hash of the data the proof was bound to
+  recordedAt: number;            // When the ledger accepted the proof (ms)
+}
+
+/**
+ * claim() must be atomic (e.g. an insert with a unique proof hash), so two
+ * concurrent evaluations cannot both take the same proof.
+ */
+export interface ProofLedger {
+  find(proofHash: string): Promise<ProofLedgerEntry | null>;
+  claim(entry: ProofLedgerEntry): Promise<ProofLedgerEntry | null>; // Entry already holding the proof, or null once this one holds it
+}
+
+export interface ReplayCheckOptions {
+  maxAttestationAgeSeconds?: number; // Default: 300
+  rejectDuplicates?: boolean;        // Also reject reuse for identical data (default: flag only)
+}
+
+export type ReplayStatus = 'new' | 'duplicate' | 'replayed' | 'stale';
+
+export interface ReplayCheckResult {
+  accepted: boolean;
+  status: ReplayStatus;
+  ageSeconds: number;
+  existing?: ProofLedgerEntry;   // Earlier use of the same proof
+  reason?: string;
+}
+
+// ============================================
+// Proof Bundle Types
+// ============================================
+
+export interface BundleEvaluationRequest {
+  oracleName: string;
+  dataType: string;
+  dataValue: Record<string, unknown>;
+  sourceUrl?: string;
+  referenceValues?: unknown[]; // As submitted: numbers, outcomes, objects or sourced references
+  [key: string]: unknown;
+}
+
+export interface BundleEvaluationResponse {
+  requestId: string;
+  score: number;
+  trustLevel: ScoringResult['trustLevel'];
+  breakdown: ScoringResult['breakdown'];
+  formulaId: string;
+  zkVerified: boolean;
+  proofHash: string;
+  timestamp: number;
+  [key: string]: unknown;
+}
+
+export interface BundleOnChainReference {
+  txHash?: string;
+  blockNumber?: number;
+  contractAddress?: string;
+  chainId?: number;
+}
+
+export interface ProofBundle {
+  version: string;                          // PROOF_BUNDLE_VERSION
+  exportedAt: number;                       // ms
+  request: BundleEvaluationRequest;
+  response: BundleEvaluationResponse;
+  baseScores: BaseScores;                   // S, T, A, P fed into the formula
+  formula: Formula;                         // Formula definition and weights used
+  attestation: AttestationResult | null;    // Raw attestation (null for mock proofs)
+  onChain: BundleOnChainReference | null;
+  manifestHash: string;                     // Hash over every other field
+}
+
+export interface ProofBundleInput {
+  request: BundleEvaluationRequest;
+  response: BundleEvaluationResponse;
+  baseScores: BaseScores;
+  formula: Formula;
+  attestation?: AttestationResult | null;
+  onChain?: BundleOnChainReference | null;
+  exportedAt?: number;
+}
+
+export interface BundleVerificationOptions {
+  trustedAttestors?: string[];              // Attestors accepted for the signature check
+  recorded?: Pick<BundleEvaluationResponse, 'score' | 'trustLevel' | 'proofHash'> | null; // Result stored by the evaluating service (null: none stored)
+}
+
+export interface BundleCheck {
+  name: 'version' | 'manifest' | 'formula' | 'score' | 'trustLevel' | 'breakdown' | 'proofHash' | 'signatures' | 'recorded';
+  passed: boolean;
+  skipped?: boolean;                        // Nothing to check (e.g. mock proof without attestation)
+  detail?: string;
+}
+
+export interface BundleVerificationResult {
+  valid: boolean;                           // Every non-skipped check passed
+  checks: BundleCheck[];
+  recomputed: {
+    manifestHash: string;
+    score: number;
+    trustLevel: ScoringResult['trustLevel'];
+    proofHash: string | null;
+  };
+}
+
 // ============================================
 // Mock Types (for demo without real credentials)
 // ============================================
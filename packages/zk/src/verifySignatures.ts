@@ -0,0 +1,165 @@
+/**
+ * OracleLens zkTLS Module - Offline Signature Verification
+ *
+ * Pure ECDSA verification of Primus attestations.
+ * Rebuilds the signed message exactly like the Primus SDK (encodeAttestation)
+ * and recovers the signer of every signature - no SDK, extension or network needed.
+ */
+
+import { ethers } from 'ethers';
+import {
+  AttestationResult,
+  SignatureCheck,
+  SignatureVerificationOptions,
+  SignatureVerificationResult,
+} from './types';
+
+// ============================================
+// Known Attestors
+// ============================================
+
+/**
+ * Primus attestor signer addresses (PADOADDRESSMAP in @primuslabs/zktls-js-sdk).
+ */
+export const PRIMUS_ATTESTOR_ADDRESSES = {
+  production: '0xDB736B13E2f522dBE18B2015d0291E4b193D8eF6',
+  development: '0xe02bd7a6c8aa401189aebb5bad755c2610940a73',
+} as const;
+
+// ============================================
+// Message Encoding
+// ============================================
+
+/**
+ * Hash of the attested HTTP request.
+ */
+function encodeRequest(request: AttestationResult['request']): string {
+  return ethers.keccak256(ethers.solidityPacked(
+    ['string', 'string', 'string', 'string'],
+    [request.url, request.header, request.method, request.body]
+  ));
+}
+
+/**
+ * Hash of the response resolve rules (keyName, parseType, parsePath per entry).
+ */
+function encodeResponse(attestation: AttestationResult): string {
+  const items = attestation.reponseResolve ?? attestation.responseResolve ?? [];
+
+  let encoded = '0x';
+  for (const item of items) {
+    encoded = ethers.solidityPacked(
+      ['bytes', 'string', 'string', 'string'],
+      [encoded, item.keyName, item.parseType, item.parsePath]
+    );
+  }
+
+  return ethers.keccak256(encoded);
+}
+
+/**
+ * Rebuild the message digest the attestors signed.
+ * Mirrors encodeAttestation in the Primus SDK (EVM recipients only).
+ */
+export function encodeAttestation(attestation: AttestationResult): string {
+  return ethers.keccak256(ethers.solidityPacked(
+    ['address', 'bytes32', 'bytes32', 'string', 'string', 'uint64', 'string'],
+    [
+      attestation.recipient,
+      encodeRequest(attestation.request),
+      encodeResponse(attestation),
+      attestation.data,
+      attestation.attConditions,
+      attestation.timestamp,
+      attestation.additionParams,
+    ]
+  ));
+}
+
+// ============================================
+// Signature Verification
+// ============================================
+
+/**
+ * Recover the signer address of a single attestation signature.
+ * Returns null if the signature is malformed.
+ */
+export function recoverAttestationSigner(digest: string, signature: string): string | null {
+  try {
+    return ethers.recoverAddress(digest, signature);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify every signature on an attestation against the listed attestors
+ * and a trusted attestor set. Works fully offline.
+ */
+export function verifyAttestationSignatures(
+  attestation: AttestationResult,
+  options: SignatureVerificationOptions = {}
+): SignatureVerificationResult {
+  const trusted = (options.trustedAttestors ?? [PRIMUS_ATTESTOR_ADDRESSES.production])
+    .map(addr => addr.toLowerCase());
+  const requireListed = options.requireListedAttestor ?? true;
+
+  let digest: string;
+  try {
+    digest = encodeAttestation(attestation);
+  } catch (error) {
+    return {
+      valid: false,
+      digest: '',
+      signatures: [],
+      error: `Malformed attestation: ${error instanceof Error ? error.message : 'cannot encode'}`,
+    };
+  }
+
+  const listed = (attestation.attestors ?? [])
+    .map(attestor => attestor.attestorAddr?.toLowerCase())
+    .filter((addr): addr is string => Boolean(addr));
+
+  const signatures: SignatureCheck[] = (attestation.signatures ?? []).map((signature, index) => {
+    const recoveredAddress = recoverAttestationSigner(digest, signature);
+
+    if (!recoveredAddress) {
+      return {
+        index,
+        signature,
+        recoveredAddress: null,
+        listedAttestor: false,
+        trustedAttestor: false,
+        valid: false,
+        error: 'Invalid signature encoding',
+      };
+    }
+
+    const signer = recoveredAddress.toLowerCase();
+    const listedAttestor = listed.includes(signer);
+    const trustedAttestor = trusted.includes(signer);
+    const valid = trustedAttestor && (listedAttestor || !requireListed);
+
+    let error: string | undefined;
+    if (!trustedAttestor) {
+      error = `Signer ${recoveredAddress} is not a trusted attestor`;
+    } else if (!valid) {
+      error = `Signer ${recoveredAddress} is not listed in attestation.attestors`;
+    }
+
+    return { index, signature, recoveredAddress, listedAttestor, trustedAttestor, valid, error };
+  });
+
+  if (signatures.length === 0) {
+    return { valid: false, digest, signatures, error: 'Attestation carries no signatures' };
+  }
+
+  const valid = signatures.some(check => check.valid);
+
+  return {
+    valid,
+    digest,
+    signatures,
+    error: valid ? undefined : 'No signature from a trusted attestor',
+  };
+}
@@ -8,9 +8,14 @@
 import {
   ZkVerificationResult,
   AttestationResult,
+  DataBindingResult,
+  ConditionEvaluationResult,
   IZkTlsClient,
 } from './types';
+import { checkDomainPolicy, DomainPolicy } from '@oraclelens/scoring';
 import { createZkTlsClient, generateProofHash } from './primusClient';
+import { bindAttestedData } from './dataBinding';
+import { evaluateAttConditions } from './conditions';
 
 // ============================================
 // Types for OracleLens Integration
@@ -28,12 +33,16 @@ export interface VerificationOptions {
   templateId?: string;
   timeout?: number;
   skipIfNoCredentials?: boolean;
+  bindingTolerancePercent?: number;
+  domainPolicy?: DomainPolicy;
 }
 
 export interface OracleLensVerificationResult extends ZkVerificationResult {
   oracleName: string;
   dataType: string;
   originalData: Record<string, unknown>;
+  dataBinding?: DataBindingResult;
+  conditions?: ConditionEvaluationResult;
 }
 
 // ============================================
@@ -71,11 +80,36 @@ export async function verifyOracleDataSource(
   // Execute full verification
   const result = await client.fullVerification(userAddress, options.templateId);
 
+  // Evaluate the attested predicates, checking hashed fields and outcomes against the claimed values
+  const conditions = result.attestation
+    ? evaluateAttConditions(result.attestation, { revealedValues: data.dataValue })
+    : undefined;
+
+  // Check that the attested response actually contains the claimed values
+  const dataBinding = result.attestation
+    ? bindAttestedData(result.attestation, data.dataValue, {
+      tolerancePercent: options.bindingTolerancePercent,
+      conditions,
+    })
+    : undefined;
+
+  // Check that the proof was made against the declared source host
+  const domainCheck = result.success
+    ? checkDomainPolicy({
+      attested: result.verifiedEndpoint,
+      declared: data.sourceUrl,
+      dataType: data.dataType,
+    }, options.domainPolicy)
+    : undefined;
+
   return {
     ...result,
+    domainCheck,
     oracleName: data.oracleName,
     dataType: data.dataType,
     originalData: data.dataValue,
+    dataBinding,
+    conditions,
   };
 }
 
@@ -159,8 +193,11 @@ export function verifyProofHash(
   attestation: AttestationResult,
   expectedHash: string
 ): boolean {
-  const actualHash = generateProofHash(attestation);
-  return actualHash.toLowerCase() === expectedHash.toLowerCase();
+  try {
+    return generateProofHash(attestation).toLowerCase() === expectedHash.toLowerCase();
+  } catch {
+    return false; // Malformed attestation fields
+  }
 }
 
 /**
@@ -0,0 +1,30 @@
+-- OracleLens Proof Ledger
+-- Replay protection: every accepted client proof is claimed by inserting its hash,
+-- so the same proof hash cannot back different oracle data in another evaluation.
+-- The primary key makes the claim atomic - a conflicting insert is the replay.
+
+CREATE TABLE IF NOT EXISTS proof_ledger (
+  proof_hash TEXT PRIMARY KEY,
+  request_id TEXT NOT NULL,
+  recipient TEXT,
+  attestation_timestamp BIGINT,
+  data_hash TEXT NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for finding the proof behind an evaluation
+CREATE INDEX IF NOT EXISTS idx_proof_ledger_request_id ON proof_ledger(request_id);
+
+-- Enable Row Level Security
+ALTER TABLE proof_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read the ledger (public data)
+CREATE POLICY "Anyone can read the proof ledger" ON proof_ledger
+  FOR SELECT USING (true);
+
+-- Only the service role writes (from API)
+CREATE POLICY "Service role can claim proofs" ON proof_ledger
+  FOR INSERT TO service_role WITH CHECK (true);
+
+-- Earlier versions recorded proofs on evaluation rows with an unrestricted update policy
+DROP POLICY IF EXISTS "Service role can update evaluations" ON evaluations;
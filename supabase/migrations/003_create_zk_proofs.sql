@@ -0,0 +1,33 @@
+-- OracleLens zkTLS Proofs Table
+-- Full attestations behind each evaluation, so third parties can re-verify results.
+-- Same shape as zk_proofs in supabase/schema.sql, linked to evaluations.request_id.
+
+CREATE TABLE IF NOT EXISTS zk_proofs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id TEXT NOT NULL UNIQUE REFERENCES evaluations(request_id) ON DELETE CASCADE,
+  proof_hash TEXT NOT NULL,
+  zk_mode TEXT NOT NULL CHECK (zk_mode IN ('real', 'mock', 'client')),
+  proof_data JSONB NOT NULL,
+  attestors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  verification_timestamp TIMESTAMPTZ,
+  verified_domain TEXT,
+  verified_endpoint TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for fast lookups
+CREATE INDEX IF NOT EXISTS idx_zk_proofs_request_id ON zk_proofs(request_id);
+CREATE INDEX IF NOT EXISTS idx_zk_proofs_proof_hash ON zk_proofs(proof_hash);
+CREATE INDEX IF NOT EXISTS idx_zk_proofs_verified ON zk_proofs(verified);
+
+-- Enable Row Level Security
+ALTER TABLE zk_proofs ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read proofs (public data)
+CREATE POLICY "Anyone can read zk proofs" ON zk_proofs
+  FOR SELECT USING (true);
+
+-- Only service role can insert (from API)
+CREATE POLICY "Service role can insert zk proofs" ON zk_proofs
+  FOR INSERT TO service_role WITH CHECK (true);
@@ -0,0 +1,32 @@
+-- OracleLens Oracle Reputation Table
+-- Versioned base reputation per oracle. Each row records who set the value
+-- (provenance) and when it takes effect; the newest row in effect wins.
+-- Oracles without rows fall back to the seed values in @oraclelens/scoring.
+
+CREATE TABLE IF NOT EXISTS oracle_reputation (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  oracle_id TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  reputation NUMERIC NOT NULL CHECK (reputation >= 0 AND reputation <= 1),
+  provenance TEXT NOT NULL,
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  aliases JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+-- Index for lookups of the version in effect
+CREATE INDEX IF NOT EXISTS idx_oracle_reputation_oracle_id ON oracle_reputation(oracle_id, effective_from DESC);
+
+-- Enable Row Level Security
+ALTER TABLE oracle_reputation ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read reputation (public data)
+CREATE POLICY "Anyone can read oracle reputation" ON oracle_reputation
+  FOR SELECT USING (true);
+
+-- Only service role can write (from API)
+CREATE POLICY "Service role can insert oracle reputation" ON oracle_reputation
+  FOR INSERT TO service_role WITH CHECK (true);
+
+CREATE POLICY "Service role can delete oracle reputation" ON oracle_reputation
+  FOR DELETE TO service_role USING (true);
@@ -0,0 +1,33 @@
+-- OracleLens Oracle Disputes Table
+-- Disputes raised against stored evaluations. Confirmed disputes count
+-- against the oracle in its Bayesian reputation (weighted above an
+-- untrusted evaluation); open and rejected disputes do not count.
+
+CREATE TABLE IF NOT EXISTS oracle_disputes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id TEXT NOT NULL REFERENCES evaluations(request_id) ON DELETE CASCADE,
+  oracle_name TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- Indexes for reputation queries
+CREATE INDEX IF NOT EXISTS idx_oracle_disputes_request_id ON oracle_disputes(request_id);
+CREATE INDEX IF NOT EXISTS idx_oracle_disputes_oracle_status ON oracle_disputes(oracle_name, status);
+CREATE INDEX IF NOT EXISTS idx_evaluations_oracle_created ON evaluations(oracle_name, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE oracle_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read disputes (public data)
+CREATE POLICY "Anyone can read oracle disputes" ON oracle_disputes
+  FOR SELECT USING (true);
+
+-- Only service role can write (from API)
+CREATE POLICY "Service role can insert oracle disputes" ON oracle_disputes
+  FOR INSERT TO service_role WITH CHECK (true);
+
+CREATE POLICY "Service role can resolve oracle disputes" ON oracle_disputes
+  FOR UPDATE TO service_role USING (true);
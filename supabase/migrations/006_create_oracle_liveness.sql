@@ -0,0 +1,26 @@
+-- OracleLens Oracle Liveness Table
+-- Every time a feed (oracle + data type) is evaluated or polled. Gaps
+-- longer than the feed heartbeat count as downtime in its rolling uptime,
+-- which feeds the source score (SourceInput.historicalUptime).
+
+CREATE TABLE IF NOT EXISTS oracle_liveness (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  feed_id TEXT NOT NULL,
+  observed_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('evaluation', 'poll')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for rolling window queries
+CREATE INDEX IF NOT EXISTS idx_oracle_liveness_feed_observed ON oracle_liveness(feed_id, observed_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE oracle_liveness ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read liveness (public data)
+CREATE POLICY "Anyone can read oracle liveness" ON oracle_liveness
+  FOR SELECT USING (true);
+
+-- Only service role can insert (from API)
+CREATE POLICY "Service role can insert oracle liveness" ON oracle_liveness
+  FOR INSERT TO service_role WITH CHECK (true);
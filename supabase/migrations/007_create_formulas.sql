@@ -0,0 +1,38 @@
+-- OracleLens Formula Registry
+-- Formula versions registered at runtime (AI-generated or by an admin).
+-- A version is never changed once stored; deprecation only marks it.
+-- Built-in formulas are not stored - they come from @oraclelens/scoring.
+-- Each evaluation records the version and content hash that scored it.
+
+CREATE TABLE IF NOT EXISTS formulas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  formula_id TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  content_hash TEXT NOT NULL,
+  definition JSONB NOT NULL,
+  provenance TEXT NOT NULL,
+  registered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deprecated_at TIMESTAMPTZ,
+  deprecation_reason TEXT,
+  UNIQUE (formula_id, version)
+);
+
+-- Index for lookups by recorded content hash
+CREATE INDEX IF NOT EXISTS idx_formulas_content_hash ON formulas(content_hash);
+
+ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS formula_version INTEGER;
+ALTER TABLE evaluations ADD COLUMN IF NOT EXISTS formula_hash TEXT;
+
+-- Enable Row Level Security
+ALTER TABLE formulas ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read formulas (public data)
+CREATE POLICY "Anyone can read formulas" ON formulas
+  FOR SELECT USING (true);
+
+-- Only service role can write (from API)
+CREATE POLICY "Service role can insert formulas" ON formulas
+  FOR INSERT TO service_role WITH CHECK (true);
+
+CREATE POLICY "Service role can deprecate formulas" ON formulas
+  FOR UPDATE TO service_role USING (true);
@@ -0,0 +1,7 @@
+-- OracleLens Trust Bands
+-- Formulas declare their own trust bands (see @oraclelens/scoring trustBands.ts)
+-- and may use a "critical" level below "untrusted" for scores that must block use.
+
+ALTER TABLE evaluations DROP CONSTRAINT IF EXISTS evaluations_trust_level_check;
+ALTER TABLE evaluations ADD CONSTRAINT evaluations_trust_level_check
+  CHECK (trust_level IN ('high', 'medium', 'low', 'untrusted', 'critical'));
@@ -37,8 +37,11 @@ CREATE TABLE zk_proofs (
     request_id UUID NOT NULL REFERENCES oracle_requests(id) ON DELETE CASCADE,
 
     -- Proof data from Primus Labs zkTLS
-    proof_data JSONB NOT NULL,                   -- The actual zkTLS proof
-    -- Example: {"attestation": "...", "signature": "...", "publicKey": "..."}
+    proof_hash TEXT NOT NULL,                    -- Hash submitted on-chain
+    zk_mode VARCHAR(10) NOT NULL,                -- real, mock, client
+    proof_data JSONB NOT NULL,                   -- The full attestation (AttestationResult)
+    -- Example: {"recipient": "0x...", "request": {...}, "data": "...", "signatures": ["0x..."]}
+    attestors JSONB NOT NULL DEFAULT '[]',       -- Attestor list: [{"attestorAddr": "0x...", "url": "..."}]
 
     -- Verification results
     verified BOOLEAN DEFAULT FALSE,              -- Whether proof passed verification